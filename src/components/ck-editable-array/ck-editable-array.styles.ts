@@ -37,10 +37,31 @@ export const ckEditableArrayCSS = `
   background-color: var(--cea-focus-background, rgba(74, 144, 226, 0.1));
 }
 
+.row.ck-removing {
+  opacity: 0;
+  transform: translateX(-1rem);
+  transition:
+    opacity 250ms ease-in-out,
+    transform 250ms ease-in-out;
+}
+
+.row[data-mode='saving'] {
+  cursor: progress;
+  opacity: var(--cea-saving-opacity, 0.6);
+}
+
 .row + .row {
   margin-top: 0.75rem;
 }
 
+.footer {
+  margin-top: 0.75rem;
+}
+
+.toolbar {
+  margin-top: 0.75rem;
+}
+
 .empty-state {
   margin: 0;
   font-size: 0.95rem;
@@ -68,7 +89,8 @@ export const ckEditableArrayCSS = `
     transition: none !important;
   }
 
-  .ck-animating {
+  .ck-animating,
+  .ck-removing {
     transition: none !important;
     transform: none !important;
   }
@@ -39,12 +39,390 @@ if (typeof window !== 'undefined' && window.trustedTypes?.createPolicy) {
 interface EditState {
   editing: boolean;
   originalSnapshot: unknown;
+  // True for rows created by the add button that have never been saved
+  draft?: boolean;
+}
+
+type NewItemFactory = (index: number, data: unknown[]) => unknown;
+
+/**
+ * Derived values bindable as `$computed.<name>`. Functions receive the live
+ * row, its index and the whole data array, and must not modify them.
+ */
+type ComputedFields = Record<
+  string,
+  (row: unknown, index: number, all: unknown[]) => unknown
+>;
+
+/**
+ * Persists a saved row. Resolve with the server's version of the row (or
+ * nothing to keep the edited row); reject to keep the row in edit mode.
+ */
+type SaveHandler = (row: unknown, index: number) => Promise<unknown | void>;
+
+/**
+ * Field errors (data-bind path -> message) read from a rejected save.
+ */
+type FieldErrors = Record<string, string | string[]>;
+
+/**
+ * Checks one field of a row before it is saved. Return (or resolve with) a
+ * message to reject the value, or null when it is valid.
+ */
+type FieldValidator = (
+  value: unknown,
+  row: unknown,
+  index: number,
+  all: unknown[]
+) => ValidationResult | Promise<ValidationResult>;
+
+/**
+ * Checks a whole row before it is saved. Return a row message, field errors
+ * (data-bind path -> message), or null when the row is valid.
+ */
+type RowValidator = (
+  row: unknown,
+  index: number,
+  all: unknown[]
+) => ValidationResult | FieldErrors | Promise<ValidationResult | FieldErrors>;
+
+type ValidationResult = string | null | undefined;
+
+/**
+ * A rule broken across rows. Issues with an index mark that row (and the
+ * control bound to `path`); issues without one apply to the whole array.
+ */
+interface CollectionIssue {
+  index?: number;
+  path?: string;
+  message: string;
+}
+
+/**
+ * Checks the whole array, e.g. "exactly one primary row". Return a message,
+ * a list of issues, or null when the array is valid.
+ */
+type CollectionValidator = (
+  all: unknown[]
+) => string | CollectionIssue[] | null | undefined;
+
+/**
+ * Committed state restored by undo/redo (edits in progress are excluded).
+ */
+interface HistoryState {
+  data: unknown[];
+  primitiveDeleted: boolean[];
+}
+
+/**
+ * Result of getChanges(), relative to the initial (or last pristine) data.
+ */
+interface ChangeSet {
+  added: unknown[];
+  modified: unknown[];
+  deleted: unknown[];
+  moved: { key: string; fromIndex: number; toIndex: number }[];
+}
+
+/**
+ * Dirty state of one committed row, kept so that a change to a single row
+ * can be re-checked without comparing the whole array.
+ */
+interface RowDirtyState {
+  // Index of the matched baseline row (null for added rows)
+  baseIndex: number | null;
+  key: string | null;
+  moved: boolean;
+  dirty: boolean;
+}
+
+/**
+ * Formats a bound value for display (data-format="name:arg") and parses an
+ * edited string back. `arg` is the text after the colon; `locale` comes from
+ * the nearest lang attribute. parse() may return the text unchanged when it
+ * cannot be parsed.
+ */
+interface Formatter {
+  format(value: unknown, arg: string | undefined, locale?: string): string;
+  parse?(text: string, arg: string | undefined, locale?: string): unknown;
 }
 
 type DataChangeMode = 'debounced' | 'change' | 'save';
+type DeleteMode = 'soft' | 'hard';
 
 const DEFAULT_DATA_CHANGE_MODE: DataChangeMode = 'debounced';
 const DEFAULT_DATA_CHANGE_DEBOUNCE_MS = 300;
+const DEFAULT_DELETED_FIELD = 'isDeleted';
+const DEFAULT_HISTORY_LIMIT = 50;
+// Marks Date values in the JSON clone fallback
+const JSON_DATE_TAG = '__ckEditableArrayDate';
+
+// Elements with a binding or directive, cached per row
+const BINDING_SELECTOR = [
+  '[data-bind]',
+  '[data-bind-attr]',
+  '[data-bind-class]',
+  '[data-bind-prop]',
+  '[data-if]',
+  '[data-if-not]',
+  '[data-each]',
+].join(', ');
+
+// Footer aggregates over the finite numbers of a field, e.g. $sum.amount
+const AGGREGATES: Record<string, (values: number[]) => number | null> = {
+  sum: values => values.reduce((total, value) => total + value, 0),
+  avg: values =>
+    values.length > 0
+      ? values.reduce((total, value) => total + value, 0) / values.length
+      : null,
+  min: values => (values.length > 0 ? Math.min(...values) : null),
+  max: values => (values.length > 0 ? Math.max(...values) : null),
+};
+// `$sum`, `$sum.amount`, ... inside footer binding attributes
+const AGGREGATE_PATTERN = /\$(sum|avg|min|max)\b(?:\.([^\s;,]+))?/g;
+
+// data-msg-* attribute holding the custom message for each validity flag
+const VALIDITY_MESSAGE_ATTRS: [keyof ValidityState, string][] = [
+  ['valueMissing', 'required'],
+  ['typeMismatch', 'type'],
+  ['badInput', 'type'],
+  ['patternMismatch', 'pattern'],
+  ['tooShort', 'minlength'],
+  ['tooLong', 'maxlength'],
+  ['rangeUnderflow', 'min'],
+  ['rangeOverflow', 'max'],
+  ['stepMismatch', 'step'],
+];
+
+// Binding paths starting with this resolve against computed values
+const COMPUTED_PREFIX = '$computed.';
+
+// Paths that bind the row value itself (primitive rows, data-each items)
+const SELF_PATHS = ['.', '$value'];
+
+// Segments of a binding path; `a[0].b` and `a.0.b` both give a, 0, b, and
+// self paths give none
+const splitPath = (path: string): string[] =>
+  SELF_PATHS.includes(path)
+    ? []
+    : path
+        .replace(/\[([^\]]*)\]/g, '.$1')
+        .split('.')
+        .filter(key => key !== '');
+
+const isIndexKey = (key: string): boolean => /^\d+$/.test(key);
+
+// Binding path in field name notation, e.g. `.addresses[0].city`
+const toNamePath = (path: string): string =>
+  splitPath(path)
+    .map(key => (isIndexKey(key) ? `[${key}]` : `.${key}`))
+    .join('');
+
+// Dangerous URL protocols (case-insensitive, may have leading whitespace)
+const DANGEROUS_URL_PATTERN = /^\s*(javascript|vbscript|data)\s*:/i;
+// Attributes that can contain executable URLs
+const URL_ATTRS = ['href', 'src', 'xlink:href', 'formaction'];
+// Attributes to remove entirely (can contain executable HTML)
+const DANGEROUS_ATTRS = ['srcdoc'];
+// URL attributes and properties checked on bound row values (`data` only
+// on <object>), and the schemes they may use; relative URLs are allowed
+const BOUND_URL_ATTRS = [
+  ...URL_ATTRS,
+  'action',
+  'poster',
+  'srcset',
+  'cite',
+  'background',
+  'ping',
+];
+const SAFE_URL_SCHEMES = ['http', 'https', 'mailto', 'tel'];
+// Input types whose value is free text, so data-format may apply to them
+const TEXT_INPUT_TYPES = ['text', 'search', 'tel', 'url', 'email'];
+
+// Ids given to data-error-for elements stay with the element, so they must
+// not depend on the row index
+let errorIdCount = 0;
+
+// Scheme of a URL as a browser reads it: character references decoded and
+// tabs, newlines, spaces and control characters dropped. null if relative
+const urlScheme = (url: string): string | null => {
+  const normalized = Array.from(
+    url
+      .replace(/&#x([0-9a-f]+);?/gi, (_, hex: string) =>
+        String.fromCharCode(parseInt(hex, 16))
+      )
+      .replace(/&#(\d+);?/g, (_, dec: string) =>
+        String.fromCharCode(Number(dec))
+      )
+      .replace(/&(tab|newline|colon);/gi, (_, name: string) =>
+        name.toLowerCase() === 'colon' ? ':' : ''
+      )
+  )
+    .filter(char => char.charCodeAt(0) > 0x20 && char.charCodeAt(0) !== 0x7f)
+    .join('');
+  const match = /^([a-z][a-z0-9+.-]*):/i.exec(normalized);
+  return match ? match[1].toLowerCase() : null;
+};
+// Properties data-bind-prop may not set (HTML sinks and prototype keys)
+const BLOCKED_PROPS = [
+  'innerHTML',
+  'outerHTML',
+  'srcdoc',
+  '__proto__',
+  'constructor',
+  'prototype',
+];
+
+type DateStyle = 'full' | 'long' | 'medium' | 'short';
+
+const toDate = (value: unknown): Date | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const date =
+    value instanceof Date ? value : new Date(value as string | number);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const toDateStyle = (arg: string | undefined, fallback: DateStyle) =>
+  arg === 'full' || arg === 'long' || arg === 'medium' || arg === 'short'
+    ? arg
+    : fallback;
+
+/**
+ * Parses a number formatted for `locale` (group separators, currency
+ * symbols and percent signs are ignored).
+ */
+const parseLocaleNumber = (text: string, locale?: string): number => {
+  const parts = new Intl.NumberFormat(locale).formatToParts(-1234.5);
+  const decimal = parts.find(part => part.type === 'decimal')?.value || '.';
+  const minus = parts.find(part => part.type === 'minusSign')?.value || '-';
+  let normalized = '';
+  for (const char of text.trim()) {
+    if (char >= '0' && char <= '9') normalized += char;
+    else if (char === decimal) normalized += '.';
+    else if (char === minus || char === '-') normalized += '-';
+  }
+  return /^-?(\d+\.?\d*|\.\d+)$/.test(normalized) ? Number(normalized) : NaN;
+};
+
+const formatNumber = (
+  value: unknown,
+  locale: string | undefined,
+  options: Intl.NumberFormatOptions
+): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string' && value.trim() === '') return '';
+  const num = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(num)
+    ? new Intl.NumberFormat(locale, options).format(num)
+    : String(value);
+};
+
+const parseNumberOr = (text: string, locale?: string, scale = 1): unknown => {
+  const num = parseLocaleNumber(text, locale);
+  return Number.isNaN(num) ? text : num / scale;
+};
+
+const fractionDigits = (arg: string | undefined): Intl.NumberFormatOptions => {
+  const digits = Number(arg);
+  return arg !== undefined && Number.isInteger(digits) && digits >= 0
+    ? { minimumFractionDigits: digits, maximumFractionDigits: digits }
+    : {};
+};
+
+const RELATIVE_TIME_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 365 * 24 * 60 * 60 * 1000],
+  ['month', 30 * 24 * 60 * 60 * 1000],
+  ['week', 7 * 24 * 60 * 60 * 1000],
+  ['day', 24 * 60 * 60 * 1000],
+  ['hour', 60 * 60 * 1000],
+  ['minute', 60 * 1000],
+  ['second', 1000],
+];
+
+/**
+ * Formatters available to every instance; registerFormatter() adds more.
+ */
+const BUILT_IN_FORMATTERS: Record<string, Formatter> = {
+  // number or number:2 (fixed fraction digits)
+  number: {
+    format: (value, arg, locale) =>
+      formatNumber(value, locale, fractionDigits(arg)),
+    parse: (text, _arg, locale) => parseNumberOr(text, locale),
+  },
+  // currency:EUR
+  currency: {
+    format: (value, arg, locale) =>
+      formatNumber(value, locale, {
+        style: 'currency',
+        currency: arg || 'USD',
+      }),
+    parse: (text, _arg, locale) => parseNumberOr(text, locale),
+  },
+  // percent or percent:1; 0.25 is shown as 25%
+  percent: {
+    format: (value, arg, locale) =>
+      formatNumber(value, locale, { style: 'percent', ...fractionDigits(arg) }),
+    parse: (text, _arg, locale) => parseNumberOr(text, locale, 100),
+  },
+  // date or date:short|medium|long|full
+  date: {
+    format: (value, arg, locale) => {
+      const date = toDate(value);
+      if (!date)
+        return value === null || value === undefined ? '' : String(value);
+      return new Intl.DateTimeFormat(locale, {
+        dateStyle: toDateStyle(arg, 'medium'),
+      }).format(date);
+    },
+    parse: text => toDate(text) || text,
+  },
+  // datetime or datetime:short|medium|long|full
+  datetime: {
+    format: (value, arg, locale) => {
+      const date = toDate(value);
+      if (!date)
+        return value === null || value === undefined ? '' : String(value);
+      const style = toDateStyle(arg, 'medium');
+      return new Intl.DateTimeFormat(locale, {
+        dateStyle: style,
+        timeStyle: style === 'full' ? 'long' : style,
+      }).format(date);
+    },
+    parse: text => toDate(text) || text,
+  },
+  // relative or relative:long|short|narrow ("3 days ago"); display only
+  relative: {
+    format: (value, arg, locale) => {
+      const date = toDate(value);
+      if (!date)
+        return value === null || value === undefined ? '' : String(value);
+      const diff = date.getTime() - Date.now();
+      const [unit, size] = RELATIVE_TIME_UNITS.find(
+        ([, unitSize]) => Math.abs(diff) >= unitSize
+      ) || ['second', 1000];
+      const style = arg === 'short' || arg === 'narrow' ? arg : 'long';
+      return new Intl.RelativeTimeFormat(locale, {
+        numeric: 'auto',
+        style,
+      }).format(Math.round(diff / size), unit);
+    },
+  },
+  // boolean or boolean:On|Off
+  boolean: {
+    format: (value, arg) => {
+      const [yes, no] = (arg || 'Yes|No').split('|');
+      if (value === null || value === undefined) return '';
+      return value ? yes : no;
+    },
+    parse: (text, arg) => {
+      const [yes, no] = (arg || 'Yes|No').split('|');
+      const normalized = text.trim().toLowerCase();
+      if (normalized === yes.toLowerCase()) return true;
+      if (normalized === (no || '').toLowerCase()) return false;
+      return text;
+    },
+  },
+};
 
 export class CkEditableArray extends HTMLElement {
   static formAssociated = true;
@@ -54,21 +432,77 @@ export class CkEditableArray extends HTMLElement {
   private _rootEl!: HTMLDivElement;
   private _containerEl: HTMLDivElement | null = null;
   private _messageEl: HTMLHeadingElement | null = null;
+  private _headerEl: HTMLDivElement | null = null;
   private _rowsHostEl: HTMLDivElement | null = null;
+  private _footerEl: HTMLDivElement | null = null;
   private _statusRegionEl: HTMLDivElement | null = null;
+  private _toolbarEl: HTMLDivElement | null = null;
+  private _addButtonEl: HTMLButtonElement | null = null;
   private _displayTemplate: HTMLTemplateElement | null = null;
   private _editTemplate: HTMLTemplateElement | null = null;
+  private _headerTemplate: HTMLTemplateElement | null = null;
+  private _footerTemplate: HTMLTemplateElement | null = null;
+  // Bound elements of the rendered header and footer, and the aggregates
+  // they use
+  private _headerBoundEls: HTMLElement[] = [];
+  private _footerBoundEls: HTMLElement[] = [];
+  private _summaryAggregates: [string, string][] = [];
   private _currentEditIndex: number | null = null;
   private _onShadowClick = (event: Event) =>
     this._handleShadowClick(event as MouseEvent);
+  private _onShadowKeydown = (event: Event) =>
+    this._handleShadowKeydown(event as KeyboardEvent);
   private _dataChangeTimer: number | null = null;
   private _internals: ElementInternals;
 
   // Internal edit state tracking (prevents polluting user data)
   private _editStateMap = new WeakMap<object, EditState>();
   private _primitiveEditState: (EditState | null)[] = [];
+  // Soft-delete flags for primitive rows (no object to carry the flag)
+  private _primitiveDeletedState: boolean[] = [];
   private _initialData: unknown[] = [];
+  private _initialPrimitiveDeleted: boolean[] = [];
   private _initialDataCaptured = false;
+  // Dirty state per committed row, and the number of changes (dirty rows
+  // plus removed baseline rows) behind isDirty
+  private _rowDirtyStates: RowDirtyState[] = [];
+  private _dirtyCount = 0;
+
+  // Template value (or factory) for rows created by the add button
+  private _newItem: unknown | NewItemFactory = {};
+
+  // Derived values for $computed bindings
+  private _computed: ComputedFields = {};
+
+  // Async save: handler, rows awaiting it, and controls with server errors
+  private _saveHandler: SaveHandler | null = null;
+  private _savingRows = new WeakSet<HTMLElement>();
+  private _serverErrorControls = new WeakSet<Element>();
+  // Controls whose custom validity holds a data-msg-* message
+  private _messageControls = new WeakSet<Element>();
+
+  // Custom validators and the latest validation run of each row
+  private _validators: Record<string, FieldValidator> = {};
+  private _rowValidator: RowValidator | null = null;
+  private _validationRuns = new WeakMap<HTMLElement, number>();
+  // Cross-row rules and the issues found by their last evaluation
+  private _collectionValidator: CollectionValidator | null = null;
+  private _collectionIssues: CollectionIssue[] = [];
+  // Rows that failed validateAll(), and the edited row's failed save
+  private _invalidRows = new Set<HTMLElement>();
+  private _editRowFailure: {
+    rowEl: HTMLElement;
+    message: string;
+    anchor: HTMLElement | undefined;
+  } | null = null;
+  // Validity last reported through ElementInternals
+  private _validityFlags: ValidityStateFlags = {};
+  private _validationMessage = '';
+  private _validityAnchor: HTMLElement | undefined;
+
+  // Undo/redo history (oldest first)
+  private _undoStack: HistoryState[] = [];
+  private _redoStack: HistoryState[] = [];
 
   // Drag and drop state
   private _dragSourceIndex: number | null = null;
@@ -78,8 +512,24 @@ export class CkEditableArray extends HTMLElement {
   private _animationTimerId: number | null = null;
   private static readonly ANIMATION_DURATION = 250; // ms
 
+  // data-format registry shared by all instances
+  private static _formatters = new Map<string, Formatter>(
+    Object.entries(BUILT_IN_FORMATTERS)
+  );
+
   // Cache for bound elements per row (type-safe alternative to property attachment)
   private _boundElsCache = new WeakMap<HTMLElement, HTMLElement[]>();
+  // Classes added from values by data-bind-class="path"
+  private _boundClassTokens = new WeakMap<Element, string[]>();
+  // Set while this instance assigns a nested array's data
+  private _isSyncingNested = false;
+  // Placeholders for elements removed by data-if/data-if-not
+  private _conditionalAnchors = new WeakMap<Element, Comment>();
+  // Items last rendered by data-each and the nodes rendered for them
+  private _eachState = new WeakMap<
+    Element,
+    { value: unknown; nodes: Node[] }
+  >();
 
   // Lifecycle state
   private _clickListenerAttached = false;
@@ -106,6 +556,7 @@ export class CkEditableArray extends HTMLElement {
     // Reattach click listener if not already attached (handles reconnection)
     if (!this._clickListenerAttached) {
       this.shadow.addEventListener('click', this._onShadowClick);
+      this.shadow.addEventListener('keydown', this._onShadowKeydown);
       this._clickListenerAttached = true;
     }
     this.render();
@@ -113,6 +564,7 @@ export class CkEditableArray extends HTMLElement {
 
   disconnectedCallback() {
     this.shadow.removeEventListener('click', this._onShadowClick);
+    this.shadow.removeEventListener('keydown', this._onShadowKeydown);
     this._clickListenerAttached = false;
     this._clearDataChangeTimer();
     this._clearAnimationTimer();
@@ -131,15 +583,37 @@ export class CkEditableArray extends HTMLElement {
       'button-cancel-text',
       'button-delete-text',
       'button-restore-text',
+      'button-add-text',
       'readonly',
       'allow-reorder',
+      'allow-add',
+      'key-field',
+      'delete-mode',
+      'deleted-field',
+      'exclude-deleted',
+      'history-limit',
+      'caption',
+      'aria-label',
+      'unique-fields',
+      'min-rows',
+      'max-rows',
     ];
   }
 
+  /**
+   * Registers (or replaces) a formatter for `data-format="name"` or
+   * `data-format="name:arg"` bindings. Rows rendered afterwards use it.
+   */
+  static registerFormatter(name: string, formatter: Formatter): void {
+    if (!name || name.includes(':')) return;
+    if (typeof formatter?.format !== 'function') return;
+    CkEditableArray._formatters.set(name, formatter);
+  }
+
   attributeChangedCallback(name: string, oldValue: string, newValue: string) {
     if (oldValue !== newValue) {
       if (!this._rootEl) return;
-      if (name === 'name') {
+      if (name === 'name' || name === 'caption' || name === 'aria-label') {
         this._updateNameOnly();
       } else if (
         name === 'root-class' ||
@@ -154,12 +628,27 @@ export class CkEditableArray extends HTMLElement {
         name === 'button-save-text' ||
         name === 'button-cancel-text' ||
         name === 'button-delete-text' ||
-        name === 'button-restore-text'
+        name === 'button-restore-text' ||
+        name === 'button-add-text'
       ) {
         this._updateButtonText();
       } else if (name === 'allow-reorder') {
         this._updateMoveButtons();
         this._updateDraggableState();
+      } else if (name === 'allow-add') {
+        this._updateAddButton();
+      } else if (name === 'deleted-field') {
+        // Hidden soft-delete checkboxes are bound to the field: recreate rows
+        this._recreateRows();
+      } else if (name === 'exclude-deleted') {
+        this._updateFormValueFromControls();
+      } else if (name === 'history-limit') {
+        this._trimHistory();
+      } else if (name === 'unique-fields') {
+        this._refreshValidity();
+      } else if (name === 'min-rows' || name === 'max-rows') {
+        this._updateRowLimitButtons(true);
+        this._updateValidity();
       } else {
         this.render();
       }
@@ -187,6 +676,217 @@ export class CkEditableArray extends HTMLElement {
     }
   }
 
+  get allowAdd(): boolean {
+    return this.hasAttribute('allow-add');
+  }
+
+  set allowAdd(value: boolean) {
+    if (value) {
+      this.setAttribute('allow-add', '');
+    } else {
+      this.removeAttribute('allow-add');
+    }
+  }
+
+  /**
+   * Value (cloned) or factory used to create rows from the add button.
+   * Defaults to an empty object.
+   */
+  get newItem(): unknown | NewItemFactory {
+    return this._newItem;
+  }
+
+  set newItem(value: unknown | NewItemFactory) {
+    this._newItem = value;
+  }
+
+  /**
+   * Row property (dot path) used as a stable identity for keyed rendering.
+   * Empty string means rows are matched by position.
+   */
+  get keyField(): string {
+    return (this.getAttribute('key-field') || '').trim();
+  }
+
+  set keyField(value: string) {
+    if (value) {
+      this.setAttribute('key-field', value);
+    } else {
+      this.removeAttribute('key-field');
+    }
+  }
+
+  /**
+   * Async handler called when a row is saved. While its promise is pending
+   * the row is in data-mode="saving".
+   */
+  get saveHandler(): SaveHandler | null {
+    return this._saveHandler;
+  }
+
+  set saveHandler(value: SaveHandler | null) {
+    this._saveHandler = typeof value === 'function' ? value : null;
+  }
+
+  /**
+   * Field validators keyed by data-bind path, run when a row is saved after
+   * the built-in constraints pass. Async validators keep the row in
+   * data-validating until they settle.
+   */
+  get validators(): Record<string, FieldValidator> {
+    return { ...this._validators };
+  }
+
+  set validators(value: Record<string, FieldValidator>) {
+    this._validators = {};
+    if (typeof value === 'object' && value !== null) {
+      Object.keys(value).forEach(path => {
+        if (typeof value[path] === 'function') {
+          this._validators[path] = value[path];
+        }
+      });
+    }
+  }
+
+  /**
+   * Validator for the whole row, run with the field validators.
+   */
+  get rowValidator(): RowValidator | null {
+    return this._rowValidator;
+  }
+
+  set rowValidator(value: RowValidator | null) {
+    this._rowValidator = typeof value === 'function' ? value : null;
+  }
+
+  /**
+   * Fields (data-bind paths) whose values must differ between rows, from
+   * the comma-separated unique-fields attribute.
+   */
+  get uniqueFields(): string[] {
+    return (this.getAttribute('unique-fields') || '')
+      .split(',')
+      .map(path => path.trim())
+      .filter(Boolean);
+  }
+
+  set uniqueFields(value: string[]) {
+    const paths = Array.isArray(value) ? value.filter(Boolean) : [];
+    if (paths.length > 0) {
+      this.setAttribute('unique-fields', paths.join(','));
+    } else {
+      this.removeAttribute('unique-fields');
+    }
+  }
+
+  /**
+   * Validator for rules spanning rows, run with unique-fields whenever the
+   * data is assigned or changed and when a row is saved.
+   */
+  get collectionValidator(): CollectionValidator | null {
+    return this._collectionValidator;
+  }
+
+  set collectionValidator(value: CollectionValidator | null) {
+    this._collectionValidator = typeof value === 'function' ? value : null;
+    this._refreshValidity();
+  }
+
+  /**
+   * Fewest rows (not counting deleted rows and unsaved drafts) the array
+   * needs to be valid, or null for no minimum.
+   */
+  get minRows(): number | null {
+    return this._readRowLimit('min-rows');
+  }
+
+  set minRows(value: number | null) {
+    this._writeRowLimit('min-rows', value);
+  }
+
+  /**
+   * Most rows (not counting deleted rows and unsaved drafts) the array may
+   * have to be valid, or null for no maximum.
+   */
+  get maxRows(): number | null {
+    return this._readRowLimit('max-rows');
+  }
+
+  set maxRows(value: number | null) {
+    this._writeRowLimit('max-rows', value);
+  }
+
+  private _readRowLimit(name: string): number | null {
+    const raw = this.getAttribute(name);
+    if (raw === null || raw.trim() === '') return null;
+    const parsed = Number(raw);
+    if (!Number.isFinite(parsed) || parsed < 0) return null;
+    return Math.floor(parsed);
+  }
+
+  private _writeRowLimit(name: string, value: number | null): void {
+    if (value === null || value === undefined) {
+      this.removeAttribute(name);
+    } else {
+      this.setAttribute(name, String(value));
+    }
+  }
+
+  /**
+   * Read-only derived values, bound as `data-bind="$computed.name"`. They are
+   * recalculated whenever rows are rebound and never written to the data.
+   */
+  get computed(): ComputedFields {
+    return { ...this._computed };
+  }
+
+  set computed(value: ComputedFields) {
+    this._computed = {};
+    if (typeof value === 'object' && value !== null) {
+      Object.keys(value).forEach(name => {
+        if (typeof value[name] === 'function') {
+          this._computed[name] = value[name];
+        }
+      });
+    }
+    this._refreshComputedBindings(true);
+  }
+
+  get deleteMode(): DeleteMode {
+    return this.getAttribute('delete-mode')?.toLowerCase().trim() === 'hard'
+      ? 'hard'
+      : 'soft';
+  }
+
+  set deleteMode(value: DeleteMode) {
+    this.setAttribute('delete-mode', value);
+  }
+
+  /**
+   * Row property (dot path) used as the soft-delete flag.
+   */
+  get deletedField(): string {
+    return (
+      (this.getAttribute('deleted-field') || '').trim() || DEFAULT_DELETED_FIELD
+    );
+  }
+
+  set deletedField(value: string) {
+    this.setAttribute('deleted-field', value);
+  }
+
+  get excludeDeleted(): boolean {
+    return this.hasAttribute('exclude-deleted');
+  }
+
+  set excludeDeleted(value: boolean) {
+    if (value) {
+      this.setAttribute('exclude-deleted', '');
+    } else {
+      this.removeAttribute('exclude-deleted');
+    }
+  }
+
   get rootClass() {
     return this.getAttribute('root-class') || '';
   }
@@ -227,6 +927,29 @@ export class CkEditableArray extends HTMLElement {
     this.setAttribute('datachange-debounce', String(value));
   }
 
+  /**
+   * Maximum number of undo steps kept (0 disables history).
+   */
+  get historyLimit(): number {
+    const raw = this.getAttribute('history-limit');
+    if (raw === null || raw.trim() === '') return DEFAULT_HISTORY_LIMIT;
+    const parsed = Number(raw);
+    if (!Number.isFinite(parsed) || parsed < 0) return DEFAULT_HISTORY_LIMIT;
+    return Math.floor(parsed);
+  }
+
+  set historyLimit(value: number) {
+    this.setAttribute('history-limit', String(value));
+  }
+
+  get canUndo(): boolean {
+    return this._undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this._redoStack.length > 0;
+  }
+
   get readonly(): boolean {
     return this.hasAttribute('readonly');
   }
@@ -245,6 +968,12 @@ export class CkEditableArray extends HTMLElement {
 
   set data(value: unknown) {
     this._clearDataChangeTimer();
+    // The first assignment is the initial load, not an undoable change
+    const historyBefore = this._initialDataCaptured
+      ? this._historyCheckpoint()
+      : null;
+    const previousData = this._data;
+    const previousEditIndex = this._currentEditIndex;
     this._data = Array.isArray(value) ? this._deepClone(value) : [];
 
     // Store initial data for formResetCallback (only on first set)
@@ -253,19 +982,59 @@ export class CkEditableArray extends HTMLElement {
       this._initialDataCaptured = true;
     }
 
+    const previousEditState =
+      previousEditIndex !== null
+        ? this._getEditState(previousData[previousEditIndex], previousEditIndex)
+        : null;
+
     this._currentEditIndex = null;
 
     // Clear internal edit state when data changes
     this._primitiveEditState = [];
+    this._primitiveDeletedState = [];
+
+    // With a key field, the row being edited keeps its edit state and
+    // unsaved input if a row with the same key is still present
+    if (previousEditIndex !== null && previousEditState && this.keyField) {
+      this._carryOverEditState(
+        previousData[previousEditIndex],
+        previousEditState
+      );
+    }
 
     if (this.isConnected) {
       this.render();
       this._announceDataChange();
     }
 
+    this._commitChange(historyBefore);
     this._dispatchDataChanged();
   }
 
+  private _carryOverEditState(workingRow: unknown, editState: EditState) {
+    const key = this._getRowKey(workingRow);
+    if (key === null) return;
+
+    const newIndex = this._data.findIndex(
+      rowData => this._getRowKey(rowData) === key
+    );
+    if (newIndex === -1) return;
+
+    // Incoming values become the cancel target; the working copy keeps edits
+    editState.originalSnapshot = this._cloneValue(this._data[newIndex]);
+    this._data[newIndex] = workingRow;
+    this._setEditState(workingRow, newIndex, editState);
+    this._currentEditIndex = newIndex;
+  }
+
+  private _getRowKey(rowData: unknown): string | null {
+    const keyField = this.keyField;
+    if (!keyField) return null;
+    const key = this._resolvePath(rowData, keyField);
+    if (key === null || key === undefined) return null;
+    return String(key);
+  }
+
   private _deepClone(obj: unknown): unknown[] {
     const cloned = this._cloneValue(obj);
     return Array.isArray(cloned) ? cloned : [];
@@ -286,8 +1055,28 @@ export class CkEditableArray extends HTMLElement {
   }
 
   private _jsonClone(obj: unknown): unknown[] {
+    // Dates are tagged on the way out so they come back as Dates
+    const replacer = function (
+      this: Record<string, unknown>,
+      key: string,
+      value: unknown
+    ) {
+      return this[key] instanceof Date ? { [JSON_DATE_TAG]: value } : value;
+    };
+    const reviver = (_key: string, value: unknown) => {
+      if (
+        typeof value === 'object' &&
+        value !== null &&
+        Object.prototype.hasOwnProperty.call(value, JSON_DATE_TAG)
+      ) {
+        return new Date(
+          String((value as Record<string, unknown>)[JSON_DATE_TAG])
+        );
+      }
+      return value;
+    };
     try {
-      return JSON.parse(JSON.stringify(obj)) as unknown[];
+      return JSON.parse(JSON.stringify(obj, replacer), reviver) as unknown[];
     } catch {
       return [];
     }
@@ -332,16 +1121,33 @@ export class CkEditableArray extends HTMLElement {
     return this.getAttribute('button-restore-text') ?? 'Restore';
   }
 
+  private _getButtonAddText(): string {
+    return this.getAttribute('button-add-text') ?? 'Add';
+  }
+
   private _clearDataChangeTimer(): void {
     if (this._dataChangeTimer === null) return;
     window.clearTimeout(this._dataChangeTimer);
     this._dataChangeTimer = null;
   }
 
+  /**
+   * Drops a pending move or hard delete animation without applying it, and
+   * unblocks the methods that wait for it.
+   */
   private _clearAnimationTimer(): void {
     if (this._animationTimerId === null) return;
     window.clearTimeout(this._animationTimerId);
     this._animationTimerId = null;
+    this._isAnimating = false;
+    this._rowsHostEl
+      ?.querySelectorAll('.ck-animating, .ck-removing')
+      .forEach(row => {
+        const rowEl = row as HTMLElement;
+        rowEl.classList.remove('ck-animating', 'ck-removing');
+        rowEl.style.transition = '';
+        rowEl.style.transform = '';
+      });
   }
 
   private _scheduleDataChanged(): void {
@@ -363,12 +1169,17 @@ export class CkEditableArray extends HTMLElement {
     );
   }
 
-  private _dispatchRowChanged(rowIndex: number): void {
+  private _dispatchRowChanged(rowIndex: number, changedPaths: string[]): void {
     this.dispatchEvent(
       new CustomEvent('rowchanged', {
         detail: {
           index: rowIndex,
           row: this._cloneValue(this._data[rowIndex]),
+          // Bind paths and _diffPaths() output share the dotted notation,
+          // so `a[0].b` is reported as `a.0.b` and self paths as `.`
+          changedPaths: changedPaths.map(
+            path => splitPath(path).join('.') || '.'
+          ),
         },
         bubbles: true,
         composed: true,
@@ -377,6 +1188,9 @@ export class CkEditableArray extends HTMLElement {
   }
 
   private render() {
+    // A pending animation refers to rows as they were before this render
+    this._clearAnimationTimer();
+
     if (!ckEditableArraySheet) {
       const disableFallback = this.hasAttribute('disable-style-fallback');
       if (
@@ -411,8 +1225,14 @@ export class CkEditableArray extends HTMLElement {
       this._containerEl.setAttribute('role', 'region');
       this._containerEl.setAttribute('aria-label', 'Editable array display');
 
+      this._headerEl = document.createElement('div');
+      this._headerEl.className = 'header ck-hidden';
+      this._headerEl.setAttribute('part', 'header');
+      this._headerEl.setAttribute('id', 'ck-header');
+
       this._messageEl = document.createElement('h1');
       this._messageEl.className = 'message';
+      this._messageEl.setAttribute('id', 'ck-caption');
 
       this._rowsHostEl = document.createElement('div');
       this._rowsHostEl.className = 'rows';
@@ -421,6 +1241,10 @@ export class CkEditableArray extends HTMLElement {
       this._rowsHostEl.setAttribute('part', 'rows');
       this._rowsHostEl.setAttribute('data-ck-editable-array-rows', '');
 
+      this._footerEl = document.createElement('div');
+      this._footerEl.className = 'footer ck-hidden';
+      this._footerEl.setAttribute('part', 'footer');
+
       this._statusRegionEl = document.createElement('div');
       this._statusRegionEl.setAttribute('role', 'status');
       this._statusRegionEl.setAttribute('aria-live', 'polite');
@@ -428,23 +1252,36 @@ export class CkEditableArray extends HTMLElement {
       this._statusRegionEl.className = 'ck-sr-only';
       this._statusRegionEl.setAttribute('id', 'aria-status');
 
+      this._toolbarEl = document.createElement('div');
+      this._toolbarEl.className = 'toolbar';
+      this._toolbarEl.setAttribute('part', 'toolbar');
+
+      this._addButtonEl = document.createElement('button');
+      this._addButtonEl.type = 'button';
+      this._addButtonEl.setAttribute('data-action', 'add');
+      this._addButtonEl.setAttribute('part', 'button button-add add');
+      this._toolbarEl.appendChild(this._addButtonEl);
+
+      this._containerEl.appendChild(this._headerEl);
       this._containerEl.appendChild(this._messageEl);
       this._containerEl.appendChild(this._rowsHostEl);
+      this._containerEl.appendChild(this._footerEl);
+      this._containerEl.appendChild(this._toolbarEl);
       this._containerEl.appendChild(this._statusRegionEl);
       this._rootEl.appendChild(this._containerEl);
     }
 
     this._applyWrapperClasses();
 
-    // Update only text content
-    if (this._messageEl) {
-      this._messageEl.textContent = `Hello, ${this.name}!`;
-    }
-
     // Render rows
     if (this._rowsHostEl) {
       this._renderRows(this._rowsHostEl);
     }
+    this._renderSummaries();
+    this._updateHeading();
+
+    this._updateAddButton();
+    this._updateDirtyState();
 
     // Update form value after render completes
     this._updateFormValueFromControls();
@@ -452,9 +1289,37 @@ export class CkEditableArray extends HTMLElement {
 
   private _updateNameOnly() {
     // Fast path: update name text without full re-render
-    if (this._messageEl) {
-      this._messageEl.textContent = `Hello, ${this.name}!`;
-    }
+    this._updateHeading();
+    this._updateSummaries();
+  }
+
+  /**
+   * Shows the header template, the caption or the default greeting, and
+   * names the region and the list after it. An aria-label attribute names
+   * both directly.
+   */
+  private _updateHeading(): void {
+    if (!this._messageEl || !this._containerEl || !this._rowsHostEl) return;
+    const caption = this.getAttribute('caption');
+    const label = this.getAttribute('aria-label');
+    const hasHeader = !!this._headerEl?.hasChildNodes();
+
+    this._messageEl.textContent = caption ?? `Hello, ${this.name}!`;
+    // An empty caption removes the greeting without a replacement
+    this._messageEl.classList.toggle('ck-hidden', hasHeader || caption === '');
+
+    const labelledBy = hasHeader ? 'ck-header' : caption ? 'ck-caption' : null;
+    const applyName = (el: HTMLElement, fallback: string) => {
+      if (!label && labelledBy) {
+        el.setAttribute('aria-labelledby', labelledBy);
+        el.removeAttribute('aria-label');
+      } else {
+        el.setAttribute('aria-label', label || fallback);
+        el.removeAttribute('aria-labelledby');
+      }
+    };
+    applyName(this._containerEl, 'Editable array display');
+    applyName(this._rowsHostEl, 'Array items');
   }
 
   private _parseClassTokens(value: string | null): string[] {
@@ -495,6 +1360,10 @@ export class CkEditableArray extends HTMLElement {
 
   private _updateButtonText() {
     // Fast path: update button text without full re-render
+    if (this._addButtonEl) {
+      this._addButtonEl.textContent = this._getButtonAddText();
+    }
+
     if (!this._rowsHostEl) return;
 
     const rows = Array.from(
@@ -503,7 +1372,7 @@ export class CkEditableArray extends HTMLElement {
 
     rows.forEach((rowEl, index) => {
       const rowData = this._data[index];
-      const isDeleted = this._isRowDeleted(rowData);
+      const isDeleted = this._isRowDeleted(rowData, index);
 
       const editButton = rowEl.querySelector('[data-action="toggle"]');
       const saveButton = rowEl.querySelector('[data-action="save"]');
@@ -529,9 +1398,67 @@ export class CkEditableArray extends HTMLElement {
     });
   }
 
+  private _updateAddButton() {
+    if (!this._toolbarEl || !this._addButtonEl) return;
+
+    this._toolbarEl.classList.toggle('ck-hidden', !this.allowAdd);
+    this._addButtonEl.textContent = this._getButtonAddText();
+    this._addButtonEl.disabled =
+      this.readonly || this._currentEditIndex !== null || !this._canAddRows();
+  }
+
+  /**
+   * Rows counted by min-rows and max-rows: neither deleted nor unsaved drafts.
+   */
+  private _countActiveRows(): number {
+    return this._data.filter(
+      (rowData, index) =>
+        !this._isRowDeleted(rowData, index) &&
+        !this._getEditState(rowData, index)?.draft
+    ).length;
+  }
+
+  /**
+   * False once max-rows is reached: add and restore are disabled.
+   */
+  private _canAddRows(): boolean {
+    const max = this.maxRows;
+    return max === null || this._countActiveRows() < max;
+  }
+
+  /**
+   * False once min-rows is reached: delete is disabled.
+   */
+  private _canRemoveRows(): boolean {
+    const min = this.minRows;
+    return min === null || this._countActiveRows() > min;
+  }
+
+  /**
+   * Refreshes the add, delete and restore buttons after the row count
+   * changed (only needed with a limit set) or a limit changed (`force`).
+   */
+  private _updateRowLimitButtons(force = false): void {
+    this._updateAddButton();
+    if (!force && this.minRows === null && this.maxRows === null) return;
+    this._rowsHostEl
+      ?.querySelectorAll('[data-row]')
+      .forEach((rowEl, index) =>
+        this._applyButtonSemantics(
+          rowEl as HTMLElement,
+          index,
+          this._data[index]
+        )
+      );
+  }
+
   private _updateMoveButtons() {
     // Re-render when allowReorder changes (buttons need to be added/removed)
-    // Clear existing rows and recreate them to ensure buttons are added/removed
+    this._recreateRows();
+  }
+
+  private _recreateRows() {
+    // Clear existing rows and recreate them from the current configuration
     if (this._containerEl && this._rowsHostEl) {
       // Clear all existing rows to force recreation
       this._rowsHostEl.replaceChildren();
@@ -565,6 +1492,148 @@ export class CkEditableArray extends HTMLElement {
     return null;
   }
 
+  private _getHeaderTemplate(): HTMLTemplateElement | null {
+    if (this._headerTemplate) return this._headerTemplate;
+    const template = this.querySelector('template[slot="header"]');
+    if (template instanceof HTMLTemplateElement) {
+      this._headerTemplate = template;
+      return template;
+    }
+    return null;
+  }
+
+  private _getFooterTemplate(): HTMLTemplateElement | null {
+    if (this._footerTemplate) return this._footerTemplate;
+    const template = this.querySelector('template[slot="footer"]');
+    if (template instanceof HTMLTemplateElement) {
+      this._footerTemplate = template;
+      return template;
+    }
+    return null;
+  }
+
+  /**
+   * Clones the header and footer templates once; their bindings are
+   * refreshed by _updateSummaries().
+   */
+  private _renderSummaries(): void {
+    const header = this._renderSummary(
+      this._headerEl,
+      this._getHeaderTemplate()
+    );
+    if (header) this._headerBoundEls = header;
+    const footer = this._renderSummary(
+      this._footerEl,
+      this._getFooterTemplate()
+    );
+    if (footer) this._footerBoundEls = footer;
+    if (header || footer) this._updateSummaries();
+  }
+
+  /**
+   * Clones a summary template into its (empty) host and returns its bound
+   * elements, after adding the aggregates they use to _summaryAggregates.
+   */
+  private _renderSummary(
+    host: HTMLElement | null,
+    template: HTMLTemplateElement | null
+  ): HTMLElement[] | null {
+    if (!host || !template || host.hasChildNodes()) return null;
+
+    const fragment = this._sanitizeClone(
+      template.content.cloneNode(true) as DocumentFragment
+    );
+    const boundEls = Array.from(
+      fragment.querySelectorAll(BINDING_SELECTOR)
+    ) as HTMLElement[];
+
+    const seen = new Set(
+      this._summaryAggregates.map(([name, field]) => `${name}:${field}`)
+    );
+    boundEls.forEach(el => {
+      el.getAttributeNames()
+        .filter(name => name.startsWith('data-'))
+        .forEach(name => {
+          const spec = el.getAttribute(name) || '';
+          for (const match of spec.matchAll(AGGREGATE_PATTERN)) {
+            const key = `${match[1]}:${match[2] || ''}`;
+            if (seen.has(key)) continue;
+            seen.add(key);
+            this._summaryAggregates.push([match[1], match[2] || '']);
+          }
+        });
+    });
+
+    host.appendChild(fragment);
+    host.classList.remove('ck-hidden');
+    return boundEls;
+  }
+
+  /**
+   * Re-binds the header and footer against the aggregates of the current
+   * data. The header can also bind the component `name`.
+   */
+  private _updateSummaries(): void {
+    if (
+      this._headerBoundEls.length === 0 &&
+      this._footerBoundEls.length === 0
+    ) {
+      return;
+    }
+    const aggregates = this._computeAggregates();
+    this._applyBindingsOptimized(this._headerBoundEls, {
+      ...aggregates,
+      name: this.name,
+    });
+    this._applyBindingsOptimized(this._footerBoundEls, aggregates);
+  }
+
+  /**
+   * Binding scope of the header and footer: `$count`, `$countDeleted` and
+   * the aggregates their bindings use. Soft-deleted rows are left out unless
+   * one of the templates has data-include-deleted.
+   */
+  private _computeAggregates(): Record<string, unknown> {
+    const includeDeleted = [
+      this._getHeaderTemplate(),
+      this._getFooterTemplate(),
+    ].some(template => template?.hasAttribute('data-include-deleted'));
+    const rows: unknown[] = [];
+    let countDeleted = 0;
+    this._data.forEach((row, index) => {
+      if (this._isRowDeleted(row, index)) {
+        countDeleted++;
+        if (!includeDeleted) return;
+      }
+      rows.push(row);
+    });
+
+    const scope: Record<string, unknown> = {
+      $count: rows.length,
+      $countDeleted: countDeleted,
+    };
+    this._summaryAggregates.forEach(([name, field]) => {
+      const values = rows
+        .map(row => this._resolvePath(row, field || '.'))
+        .filter(
+          (value): value is number =>
+            typeof value === 'number' && Number.isFinite(value)
+        );
+      const result = AGGREGATES[name](values);
+      const key = `$${name}`;
+      // A bare `$sum` aggregates primitive rows
+      if (!field) {
+        scope[key] = result;
+        return;
+      }
+      if (typeof scope[key] !== 'object' || scope[key] === null) {
+        scope[key] = {};
+      }
+      this._setNestedPath(scope[key], field, result);
+    });
+    return scope;
+  }
+
   private _getDisplayTemplate(): HTMLTemplateElement | null {
     if (this._displayTemplate) return this._displayTemplate;
     const template = this.querySelector('template[slot="display"]');
@@ -581,7 +1650,12 @@ export class CkEditableArray extends HTMLElement {
     if (template) {
       const rowTokens = this._parseClassTokens(this.getAttribute('row-class'));
 
-      // Keyed rendering: reuse existing row elements or create new ones
+      if (this.keyField) {
+        this._renderRowsKeyed(rowsHost, template, editTemplate, rowTokens);
+        return;
+      }
+
+      // Positional rendering: reuse existing row elements or create new ones
       const existingRows = Array.from(
         rowsHost.querySelectorAll('[data-row]')
       ) as HTMLElement[];
@@ -616,147 +1690,104 @@ export class CkEditableArray extends HTMLElement {
     rowsHost.appendChild(empty);
   }
 
-  private _renderRow(
-    rowData: unknown,
-    index: number,
-    rowsHost: HTMLElement,
-    existingRows: HTMLElement[],
+  /**
+   * Reconciles rows by key: rows whose key is still present keep their
+   * element (moved into place), so focus, input state and scroll survive.
+   * Rows without a key are always re-created.
+   */
+  private _renderRowsKeyed(
+    rowsHost: HTMLElement,
     template: HTMLTemplateElement,
     editTemplate: HTMLTemplateElement | null,
     rowTokens: string[]
   ) {
-    let rowEl = existingRows[index];
-    let boundEls: HTMLElement[] = [];
+    const activeEl = this.shadow.activeElement as HTMLElement | null;
+    const scrollTop = rowsHost.scrollTop;
 
-    if (!rowEl) {
-      // Create new row if it doesn't exist
-      rowEl = document.createElement('div');
-      rowEl.className = 'row';
-      rowTokens.forEach(t => rowEl.classList.add(t));
-      rowEl.setAttribute('tabindex', '0');
-      rowEl.setAttribute('role', 'listitem');
-      rowEl.setAttribute('data-mode', 'display');
-      rowEl.addEventListener('keydown', event =>
-        this._handleRowKeydown(event as KeyboardEvent)
-      );
+    const existingRows = Array.from(
+      rowsHost.querySelectorAll('[data-row]')
+    ) as HTMLElement[];
+    const rowsByKey = new Map<string, HTMLElement>();
+    existingRows.forEach(rowEl => {
+      const key = rowEl.getAttribute('data-key');
+      if (key !== null && !rowsByKey.has(key)) {
+        rowsByKey.set(key, rowEl);
+      }
+    });
 
-      // Add drag and drop event listeners
-      rowEl.addEventListener('dragstart', event =>
-        this._handleDragStart(event as DragEvent)
-      );
-      rowEl.addEventListener('dragover', event =>
-        this._handleDragOver(event as DragEvent)
-      );
-      rowEl.addEventListener('dragleave', event =>
-        this._handleDragLeave(event as DragEvent)
-      );
-      rowEl.addEventListener('drop', event =>
-        this._handleDrop(event as DragEvent)
-      );
-      rowEl.addEventListener('dragend', event =>
-        this._handleDragEnd(event as DragEvent)
-      );
+    // Match each data item to an existing row element or create a new one
+    const orderedRows = this._data.map((rowData, index) => {
+      const key = this._getRowKey(rowData);
+      const existing = key !== null ? rowsByKey.get(key) : undefined;
+      if (existing && key !== null) {
+        rowsByKey.delete(key);
+        return existing;
+      }
+      return this._createRowElement(index, template, editTemplate, rowTokens);
+    });
 
-      rowsHost.appendChild(rowEl);
+    // Remove rows whose key is gone
+    const keptRows = new Set(orderedRows);
+    existingRows.forEach(rowEl => {
+      if (!keptRows.has(rowEl)) rowEl.remove();
+    });
 
-      // Clone template content into new row
-      const displayWrapper = document.createElement('div');
-      displayWrapper.className = 'display-content';
-      displayWrapper.appendChild(
-        this._sanitizeClone(
-          template.content.cloneNode(true) as DocumentFragment
-        )
-      );
-      rowEl.appendChild(displayWrapper);
-      rowEl.toggleAttribute('data-has-edit-template', !!editTemplate);
-      if (editTemplate) {
-        const editWrapper = document.createElement('div');
-        editWrapper.className = 'edit-content ck-hidden';
-        editWrapper.appendChild(
-          this._sanitizeClone(
-            editTemplate.content.cloneNode(true) as DocumentFragment
-          )
-        );
-        rowEl.appendChild(editWrapper);
-      }
-      const actionsWrapper = document.createElement('div');
-      actionsWrapper.className = 'row-actions';
-      const editButton = document.createElement('button');
-      editButton.type = 'button';
-      editButton.setAttribute('data-action', 'toggle');
-      editButton.setAttribute('part', 'button button-edit');
-      editButton.textContent = this._getButtonEditText();
-      editButton.setAttribute('aria-expanded', 'false');
-      actionsWrapper.appendChild(editButton);
-      const saveButton = document.createElement('button');
-      saveButton.type = 'button';
-      saveButton.setAttribute('data-action', 'save');
-      saveButton.setAttribute('part', 'button button-save');
-      saveButton.textContent = this._getButtonSaveText();
-      actionsWrapper.appendChild(saveButton);
-      const cancelButton = document.createElement('button');
-      cancelButton.type = 'button';
-      cancelButton.setAttribute('data-action', 'cancel');
-      cancelButton.setAttribute('part', 'button button-cancel');
-      cancelButton.textContent = this._getButtonCancelText();
-      actionsWrapper.appendChild(cancelButton);
-      const deleteButton = document.createElement('button');
-      deleteButton.type = 'button';
-      deleteButton.setAttribute('data-action', 'delete');
-      deleteButton.setAttribute('part', 'button button-delete');
-      deleteButton.textContent = this._getButtonDeleteText();
-      actionsWrapper.appendChild(deleteButton);
-
-      // Only create move buttons if reordering is allowed
-      if (this.allowReorder) {
-        const moveUpButton = document.createElement('button');
-        moveUpButton.type = 'button';
-        moveUpButton.setAttribute('data-action', 'move-up');
-        moveUpButton.setAttribute('part', 'button button-move-up');
-        moveUpButton.textContent = '↑';
-        actionsWrapper.appendChild(moveUpButton);
-        const moveDownButton = document.createElement('button');
-        moveDownButton.type = 'button';
-        moveDownButton.setAttribute('data-action', 'move-down');
-        moveDownButton.setAttribute('part', 'button button-move-down');
-        moveDownButton.textContent = '↓';
-        actionsWrapper.appendChild(moveDownButton);
-      }
-
-      rowEl.appendChild(actionsWrapper);
-
-      // Add hidden checkbox for isDeleted property (soft delete)
-      const hiddenCheckbox = document.createElement('input');
-      hiddenCheckbox.type = 'checkbox';
-      hiddenCheckbox.setAttribute('data-bind', 'isDeleted');
-      hiddenCheckbox.setAttribute('hidden', '');
-      hiddenCheckbox.style.display = 'none';
-      rowEl.appendChild(hiddenCheckbox);
-
-      // Cache bound elements on first creation
-      boundEls = Array.from(
-        rowEl.querySelectorAll('[data-bind]')
-      ) as HTMLElement[];
-      this._boundElsCache.set(rowEl, boundEls);
+    // Move rows into data order, touching only rows that are out of place
+    let cursor = rowsHost.querySelector('[data-row]');
+    orderedRows.forEach(rowEl => {
+      if (rowEl === cursor) {
+        cursor = cursor.nextElementSibling;
+      } else {
+        rowsHost.insertBefore(rowEl, cursor);
+      }
+    });
 
-      // Set name/id attributes on form controls during initial creation
-      this._setFormControlAttributes(boundEls, index);
+    this._data.forEach((rowData, index) =>
+      this._renderRow(
+        rowData,
+        index,
+        rowsHost,
+        orderedRows,
+        template,
+        editTemplate,
+        rowTokens
+      )
+    );
 
-      // Add input event listeners for bidirectional binding
-      this._attachInputListeners(boundEls);
-    } else {
-      // Retrieve cached bound elements
-      boundEls = this._boundElsCache.get(rowEl) || [];
+    // Moving a focused element blurs it in some browsers
+    if (activeEl && activeEl.isConnected && !activeEl.matches(':focus')) {
+      activeEl.focus();
     }
+    rowsHost.scrollTop = scrollTop;
+  }
 
-    if (!rowEl) return;
+  private _renderRow(
+    rowData: unknown,
+    index: number,
+    rowsHost: HTMLElement,
+    existingRows: HTMLElement[],
+    template: HTMLTemplateElement,
+    editTemplate: HTMLTemplateElement | null,
+    rowTokens: string[]
+  ) {
+    let rowEl = existingRows[index];
+
+    if (!rowEl) {
+      // Create new row if it doesn't exist
+      rowEl = this._createRowElement(index, template, editTemplate, rowTokens);
+      rowsHost.appendChild(rowEl);
+    }
+
+    // Retrieve cached bound elements
+    const boundEls = this._boundElsCache.get(rowEl) || [];
 
     // Ensure row wrapper classes reflect current configuration (handles updates)
     rowEl.className = 'row';
     rowTokens.forEach(t => rowEl.classList.add(t));
 
     // Add ck-deleted class if row is deleted
-    if (this._isRowDeleted(rowData)) {
+    const isDeleted = this._isRowDeleted(rowData, index);
+    if (isDeleted) {
       rowEl.classList.add('ck-deleted');
     }
 
@@ -766,11 +1797,26 @@ export class CkEditableArray extends HTMLElement {
     } else if (this._currentEditIndex === index) {
       this._currentEditIndex = null;
     }
+    this._applyRowValidityMark(rowEl, index);
     this._setRowMode(rowEl, isEditing ? 'edit' : 'display');
     rowEl.toggleAttribute('data-has-edit-template', !!editTemplate);
+    rowEl.toggleAttribute(
+      'data-draft',
+      !!this._getEditState(rowData, index)?.draft
+    );
 
     // Always update attributes and bindings for current index/data
+    if (rowEl.getAttribute('data-row') !== String(index)) {
+      // Keyed rows can move: refresh index-based name/id attributes
+      this._setFormControlAttributes(boundEls, index);
+    }
     rowEl.setAttribute('data-row', String(index));
+    const key = this._getRowKey(rowData);
+    if (key !== null) {
+      rowEl.setAttribute('data-key', key);
+    } else {
+      rowEl.removeAttribute('data-key');
+    }
 
     // Set draggable attribute based on readonly state and allowReorder
     rowEl.setAttribute(
@@ -782,8 +1828,139 @@ export class CkEditableArray extends HTMLElement {
     this._applyButtonSemantics(rowEl, index, rowData);
 
     // Re-apply bindings and semantics with cached elements
-    this._applyBindingsOptimized(boundEls, rowData);
+    this._applyBindingsOptimized(
+      boundEls,
+      rowData,
+      this._computeRow(rowData, index)
+    );
+    this._syncDeletedCheckbox(rowEl, isDeleted);
     this._applyFormSemanticsOptimized(rowEl, boundEls, rowData, index);
+
+    if (this._savingRows.has(rowEl)) {
+      this._setRowSaving(rowEl, true);
+    }
+  }
+
+  private _createRowElement(
+    index: number,
+    template: HTMLTemplateElement,
+    editTemplate: HTMLTemplateElement | null,
+    rowTokens: string[]
+  ): HTMLElement {
+    const rowEl = document.createElement('div');
+    rowEl.className = 'row';
+    rowTokens.forEach(t => rowEl.classList.add(t));
+    rowEl.setAttribute('tabindex', '0');
+    rowEl.setAttribute('role', 'listitem');
+    rowEl.setAttribute('data-row', String(index));
+    rowEl.setAttribute('data-mode', 'display');
+    rowEl.addEventListener('keydown', event =>
+      this._handleRowKeydown(event as KeyboardEvent)
+    );
+
+    // Add drag and drop event listeners
+    rowEl.addEventListener('dragstart', event =>
+      this._handleDragStart(event as DragEvent)
+    );
+    rowEl.addEventListener('dragover', event =>
+      this._handleDragOver(event as DragEvent)
+    );
+    rowEl.addEventListener('dragleave', event =>
+      this._handleDragLeave(event as DragEvent)
+    );
+    rowEl.addEventListener('drop', event =>
+      this._handleDrop(event as DragEvent)
+    );
+    rowEl.addEventListener('dragend', event =>
+      this._handleDragEnd(event as DragEvent)
+    );
+
+    // Clone template content into new row
+    const displayWrapper = document.createElement('div');
+    displayWrapper.className = 'display-content';
+    displayWrapper.appendChild(
+      this._sanitizeClone(template.content.cloneNode(true) as DocumentFragment)
+    );
+    rowEl.appendChild(displayWrapper);
+    rowEl.toggleAttribute('data-has-edit-template', !!editTemplate);
+    if (editTemplate) {
+      const editWrapper = document.createElement('div');
+      editWrapper.className = 'edit-content ck-hidden';
+      editWrapper.appendChild(
+        this._sanitizeClone(
+          editTemplate.content.cloneNode(true) as DocumentFragment
+        )
+      );
+      rowEl.appendChild(editWrapper);
+    }
+    const actionsWrapper = document.createElement('div');
+    actionsWrapper.className = 'row-actions';
+    const editButton = document.createElement('button');
+    editButton.type = 'button';
+    editButton.setAttribute('data-action', 'toggle');
+    editButton.setAttribute('part', 'button button-edit');
+    editButton.textContent = this._getButtonEditText();
+    editButton.setAttribute('aria-expanded', 'false');
+    actionsWrapper.appendChild(editButton);
+    const saveButton = document.createElement('button');
+    saveButton.type = 'button';
+    saveButton.setAttribute('data-action', 'save');
+    saveButton.setAttribute('part', 'button button-save');
+    saveButton.textContent = this._getButtonSaveText();
+    actionsWrapper.appendChild(saveButton);
+    const cancelButton = document.createElement('button');
+    cancelButton.type = 'button';
+    cancelButton.setAttribute('data-action', 'cancel');
+    cancelButton.setAttribute('part', 'button button-cancel');
+    cancelButton.textContent = this._getButtonCancelText();
+    actionsWrapper.appendChild(cancelButton);
+    const deleteButton = document.createElement('button');
+    deleteButton.type = 'button';
+    deleteButton.setAttribute('data-action', 'delete');
+    deleteButton.setAttribute('part', 'button button-delete');
+    deleteButton.textContent = this._getButtonDeleteText();
+    actionsWrapper.appendChild(deleteButton);
+
+    // Only create move buttons if reordering is allowed
+    if (this.allowReorder) {
+      const moveUpButton = document.createElement('button');
+      moveUpButton.type = 'button';
+      moveUpButton.setAttribute('data-action', 'move-up');
+      moveUpButton.setAttribute('part', 'button button-move-up');
+      moveUpButton.textContent = '↑';
+      actionsWrapper.appendChild(moveUpButton);
+      const moveDownButton = document.createElement('button');
+      moveDownButton.type = 'button';
+      moveDownButton.setAttribute('data-action', 'move-down');
+      moveDownButton.setAttribute('part', 'button button-move-down');
+      moveDownButton.textContent = '↓';
+      actionsWrapper.appendChild(moveDownButton);
+    }
+
+    rowEl.appendChild(actionsWrapper);
+
+    // Add hidden checkbox for the soft-delete flag (deleted-field)
+    const hiddenCheckbox = document.createElement('input');
+    hiddenCheckbox.type = 'checkbox';
+    hiddenCheckbox.setAttribute('data-bind', this.deletedField);
+    hiddenCheckbox.setAttribute('data-deleted-flag', '');
+    hiddenCheckbox.setAttribute('hidden', '');
+    hiddenCheckbox.style.display = 'none';
+    rowEl.appendChild(hiddenCheckbox);
+
+    // Cache bound elements on first creation
+    const boundEls = Array.from(
+      rowEl.querySelectorAll(BINDING_SELECTOR)
+    ) as HTMLElement[];
+    this._boundElsCache.set(rowEl, boundEls);
+
+    // Set name/id attributes on form controls during initial creation
+    this._setFormControlAttributes(boundEls, index);
+
+    // Add input event listeners for bidirectional binding
+    this._attachInputListeners(boundEls);
+
+    return rowEl;
   }
 
   private _applyFormSemantics(
@@ -805,8 +1982,21 @@ export class CkEditableArray extends HTMLElement {
     }
   }
 
-  private _applyBindingsOptimized(boundEls: HTMLElement[], rowData: unknown) {
+  private _applyBindingsOptimized(
+    boundEls: HTMLElement[],
+    rowData: unknown,
+    computed: Record<string, unknown> = {}
+  ) {
     boundEls.forEach(el => {
+      this._applyConditional(el, rowData, computed);
+      this._applyAttributeBindings(el, rowData, computed);
+      if (el.hasAttribute('data-each')) {
+        // The nested template is the content; data-bind would replace it
+        this._applyEach(el, rowData, computed);
+        return;
+      }
+      if (!el.hasAttribute('data-bind')) return;
+
       const path = el.getAttribute('data-bind');
       if (!path) {
         // Handle form elements and non-form elements differently
@@ -818,12 +2008,22 @@ export class CkEditableArray extends HTMLElement {
         return;
       }
 
-      const value = this._resolvePath(rowData, path);
+      const value = this._resolveBinding(rowData, path, computed);
+
+      if (this._isNestedArray(el)) {
+        this._bindNestedArray(el, value);
+        return;
+      }
 
       // Check if element is a form input (input, select, textarea)
       if (this._isFormElement(el)) {
         this._setFormElementValue(el, value);
       } else {
+        const formatted = this._applyFormat(el, value);
+        if (formatted !== null) {
+          el.textContent = formatted;
+          return;
+        }
         // Non-form elements use textContent (existing behavior)
         if (Array.isArray(value)) {
           el.textContent = value.map(v => String(v)).join(', ');
@@ -838,6 +2038,321 @@ export class CkEditableArray extends HTMLElement {
     });
   }
 
+  /**
+   * The formatter and its argument named by an element's data-format
+   * attribute, or null if there is none, it is not registered or the
+   * element is an input that does not take free text.
+   */
+  private _getFormat(
+    el: Element
+  ): { formatter: Formatter; arg: string | undefined } | null {
+    const spec = el.getAttribute('data-format');
+    if (!spec) return null;
+    // Number, date and other typed inputs only accept their own value syntax
+    if (
+      el instanceof HTMLInputElement &&
+      !TEXT_INPUT_TYPES.includes(el.type.toLowerCase())
+    ) {
+      return null;
+    }
+    const separator = spec.indexOf(':');
+    const name = (separator === -1 ? spec : spec.slice(0, separator)).trim();
+    const formatter = CkEditableArray._formatters.get(name);
+    if (!formatter) return null;
+    return {
+      formatter,
+      arg: separator === -1 ? undefined : spec.slice(separator + 1).trim(),
+    };
+  }
+
+  private _getLocale(): string | undefined {
+    return (this.closest('[lang]') as HTMLElement | null)?.lang || undefined;
+  }
+
+  /**
+   * Formatted text for a data-format element, or null to fall back to the
+   * default rendering. Formatters that throw fall back too.
+   */
+  private _applyFormat(el: Element, value: unknown): string | null {
+    const format = this._getFormat(el);
+    if (!format) return null;
+    try {
+      return format.formatter.format(value, format.arg, this._getLocale());
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Value parsed by a data-format control's formatter, or undefined when
+   * the formatter has no parse() (or it throws).
+   */
+  private _applyParse(el: Element, text: string): unknown {
+    const format = this._getFormat(el);
+    if (!format?.formatter.parse) return undefined;
+    try {
+      return format.formatter.parse(text, format.arg, this._getLocale());
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Applies data-bind-attr="attr:path", data-bind-class="class:path" (or
+   * "path" to use the value as the class) and data-bind-prop="prop:path".
+   * Multiple bindings are separated by ';' or ','.
+   */
+  private _applyAttributeBindings(
+    el: HTMLElement,
+    rowData: unknown,
+    computed: Record<string, unknown>
+  ): void {
+    const attrSpec = el.getAttribute('data-bind-attr');
+    if (attrSpec) {
+      this._parseBindingList(attrSpec).forEach(([attr, path]) => {
+        const value = this._resolveBinding(rowData, path, computed);
+        if (value === null || value === undefined || value === false) {
+          el.removeAttribute(attr);
+          return;
+        }
+        // aria-* attributes spell out booleans; others treat true as present
+        const text =
+          value === true && !attr.startsWith('aria-') ? '' : String(value);
+        if (this._isUnsafeBoundValue(el, attr, text)) {
+          el.removeAttribute(attr);
+          return;
+        }
+        try {
+          el.setAttribute(attr, text);
+        } catch {
+          // Invalid attribute name
+        }
+      });
+    }
+
+    const classSpec = el.getAttribute('data-bind-class');
+    if (classSpec) {
+      const previous = this._boundClassTokens.get(el) || [];
+      const tokens: string[] = [];
+      this._parseBindingList(classSpec).forEach(([className, path]) => {
+        const value = this._resolveBinding(rowData, path, computed);
+        if (className) {
+          el.classList.toggle(className, !!value);
+        } else if (value !== null && value !== undefined && value !== '') {
+          tokens.push(...String(value).split(/\s+/).filter(Boolean));
+        }
+      });
+      previous
+        .filter(token => !tokens.includes(token))
+        .forEach(token => el.classList.remove(token));
+      tokens.forEach(token => el.classList.add(token));
+      this._boundClassTokens.set(el, tokens);
+    }
+
+    const propSpec = el.getAttribute('data-bind-prop');
+    if (propSpec) {
+      this._parseBindingList(propSpec).forEach(([prop, path]) => {
+        if (!prop || prop.startsWith('on') || BLOCKED_PROPS.includes(prop)) {
+          return;
+        }
+        const value = this._resolveBinding(rowData, path, computed);
+        if (
+          typeof value === 'string' &&
+          this._isUnsafeBoundValue(el, prop, value)
+        ) {
+          return;
+        }
+        // Clone so the element cannot mutate the row data
+        (el as unknown as Record<string, unknown>)[prop] =
+          this._cloneValue(value);
+      });
+    }
+  }
+
+  /**
+   * Removes an element (leaving a comment in its place) while its data-if
+   * value is falsy or its data-if-not value is truthy, and puts it back
+   * otherwise. Empty arrays count as falsy.
+   */
+  private _applyConditional(
+    el: HTMLElement,
+    rowData: unknown,
+    computed: Record<string, unknown>
+  ): void {
+    const ifPath = el.getAttribute('data-if');
+    const ifNotPath = el.getAttribute('data-if-not');
+    if (ifPath === null && ifNotPath === null) return;
+
+    const isTruthy = (path: string) => {
+      const value = this._resolveBinding(rowData, path, computed);
+      return Array.isArray(value) ? value.length > 0 : !!value;
+    };
+    const visible =
+      (ifPath === null || isTruthy(ifPath)) &&
+      (ifNotPath === null || !isTruthy(ifNotPath));
+
+    const anchor = this._conditionalAnchors.get(el);
+    if (visible) {
+      if (anchor?.parentNode) anchor.replaceWith(el);
+      return;
+    }
+    if (anchor?.parentNode || !el.parentNode) return;
+    const placeholder = anchor || document.createComment('data-if');
+    this._conditionalAnchors.set(el, placeholder);
+    el.replaceWith(placeholder);
+  }
+
+  /**
+   * Renders the element's nested <template> once per item of the data-each
+   * array, after the template. Bindings inside resolve against the item
+   * ('.' is the item itself). Items are re-rendered only when they change.
+   */
+  private _applyEach(
+    el: HTMLElement,
+    rowData: unknown,
+    computed: Record<string, unknown>
+  ): void {
+    const value = this._resolveBinding(
+      rowData,
+      el.getAttribute('data-each') || '',
+      computed
+    );
+    const items = Array.isArray(value) ? value : [];
+    const state = this._eachState.get(el);
+    if (state && this._isEqual(state.value, items)) return;
+
+    state?.nodes.forEach(node => node.parentNode?.removeChild(node));
+    const template = Array.from(el.children).find(
+      child => child instanceof HTMLTemplateElement
+    ) as HTMLTemplateElement | undefined;
+
+    const nodes: Node[] = [];
+    if (template) {
+      items.forEach(item => {
+        // Nested template content is not covered by the row's sanitization
+        const fragment = this._sanitizeClone(
+          template.content.cloneNode(true) as DocumentFragment
+        );
+        this._applyBindingsOptimized(
+          Array.from(
+            fragment.querySelectorAll(BINDING_SELECTOR)
+          ) as HTMLElement[],
+          item,
+          computed
+        );
+        nodes.push(...Array.from(fragment.childNodes));
+        el.appendChild(fragment);
+      });
+    }
+    this._eachState.set(el, { value: this._cloneValue(items), nodes });
+  }
+
+  /**
+   * Splits "name:path; name:path" into [name, path] pairs. An entry without
+   * a colon has an empty name.
+   */
+  private _parseBindingList(spec: string): [string, string][] {
+    return spec
+      .split(/[;,]/)
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map(entry => {
+        // Paths never contain ':', names such as xlink:href may
+        const separator = entry.lastIndexOf(':');
+        return separator === -1
+          ? (['', entry] as [string, string])
+          : ([
+              entry.slice(0, separator).trim(),
+              entry.slice(separator + 1).trim(),
+            ] as [string, string]);
+      })
+      .filter(([, path]) => path !== '');
+  }
+
+  /**
+   * True for a ck-editable-array inside a row template. Checked by tag name
+   * because rows are bound before the cloned element is upgraded.
+   */
+  private _isNestedArray(el: Element): boolean {
+    return el.localName === this.localName;
+  }
+
+  /**
+   * Sets a nested array's data from the row. Skipped while the nested
+   * array's committed data already matches, so its in-progress edits and
+   * history survive unrelated rebinds.
+   */
+  private _bindNestedArray(el: HTMLElement, value: unknown): void {
+    customElements.upgrade(el);
+    if (!(el instanceof CkEditableArray)) return;
+
+    // Report committed changes only, so the row never sees a half-edited item
+    if (!el.hasAttribute('datachange-mode')) {
+      el.setAttribute('datachange-mode', 'save');
+    }
+    const items = Array.isArray(value) ? value : [];
+    if (
+      el._initialDataCaptured &&
+      this._isEqual(el._getCommittedRows().data, items)
+    ) {
+      return;
+    }
+    this._isSyncingNested = true;
+    try {
+      el.data = items;
+    } finally {
+      this._isSyncingNested = false;
+    }
+  }
+
+  /**
+   * Writes a nested array's committed data back into the row and reports
+   * it as a change of the parent row.
+   */
+  private _handleNestedDataChanged(event: Event, bindPath: string): void {
+    // Listeners on the parent should only see the parent's own events
+    event.stopPropagation();
+    if (this._isSyncingNested || this.readonly) return;
+
+    const child = event.currentTarget as HTMLElement;
+    const rowEl = child.closest('[data-row]') as HTMLElement | null;
+    if (!rowEl) return;
+    const rowIndex = Number(rowEl.getAttribute('data-row'));
+    if (!this._isValidRowIndex(rowIndex)) return;
+
+    const rowData = this._data[rowIndex];
+    const items = this._cloneValue((event as CustomEvent).detail?.data);
+    if (this._isEqual(this._resolvePath(rowData, bindPath), items)) return;
+    this._setNestedPath(rowData, bindPath, items);
+
+    // Other copies (display and edit template) follow the changed one
+    const boundEls = this._boundElsCache.get(rowEl) || [];
+    this._applyBindingsOptimized(
+      boundEls.filter(el => el !== child),
+      rowData,
+      this._computeRow(rowData, rowIndex)
+    );
+    this._refreshComputedBindings();
+    this._updateSummaries();
+
+    if (this._currentEditIndex !== rowIndex) {
+      this._updateRowDirtyState(rowIndex, rowEl);
+    } else {
+      const editState = this._getEditState(rowData, rowIndex);
+      this._applyFieldDirtyState(rowEl, editState?.originalSnapshot, rowData);
+    }
+
+    this._dispatchRowChanged(rowIndex, [bindPath]);
+    // A nested datachanged is a committed change, like a change event
+    const mode = this._getDataChangeMode();
+    if (mode === 'debounced') {
+      this._scheduleDataChanged();
+    } else if (mode === 'change') {
+      this._dispatchDataChanged();
+    }
+    this._updateFormValueFromControls();
+  }
+
   private _isFormElement(el: HTMLElement): boolean {
     const tagName = el.tagName.toLowerCase();
     return (
@@ -860,11 +2375,7 @@ export class CkEditableArray extends HTMLElement {
         inputEl.checked = inputEl.value === String(value);
       } else {
         // Text, number, email, etc.: set value
-        if (value === null || value === undefined) {
-          inputEl.value = '';
-        } else {
-          inputEl.value = String(value);
-        }
+        inputEl.value = this._formatControlValue(el, value);
       }
     } else if (tagName === 'select') {
       const selectEl = el as HTMLSelectElement;
@@ -875,12 +2386,39 @@ export class CkEditableArray extends HTMLElement {
       }
     } else if (tagName === 'textarea') {
       const textareaEl = el as HTMLTextAreaElement;
-      if (value === null || value === undefined) {
-        textareaEl.value = '';
-      } else {
-        textareaEl.value = String(value);
+      textareaEl.value = this._formatControlValue(el, value);
+    }
+  }
+
+  /**
+   * String for a text-like control: dates in the format date and
+   * datetime-local inputs expect, JSON for data-type="json".
+   */
+  private _formatControlValue(el: HTMLElement, value: unknown): string {
+    const formatted = this._applyFormat(el, value);
+    if (formatted !== null) return formatted;
+    if (value === null || value === undefined) return '';
+    if (el.getAttribute('data-type') === 'json') {
+      try {
+        return JSON.stringify(value);
+      } catch {
+        return String(value);
+      }
+    }
+    if (value instanceof Date) {
+      if (Number.isNaN(value.getTime())) return '';
+      const inputType = (el as HTMLInputElement).type?.toLowerCase();
+      // valueAsDate is UTC-based for date inputs
+      if (inputType === 'date') return value.toISOString().slice(0, 10);
+      if (inputType === 'datetime-local') {
+        const local = new Date(
+          value.getTime() - value.getTimezoneOffset() * 60000
+        );
+        return local.toISOString().slice(0, 16);
       }
+      return value.toISOString();
     }
+    return String(value);
   }
 
   private _setFormControlAttributes(
@@ -890,20 +2428,32 @@ export class CkEditableArray extends HTMLElement {
     const componentName = this.name;
 
     boundEls.forEach(el => {
-      // Only set name/id on form controls (input, select, textarea)
-      if (!this._isFormElement(el)) return;
-
       const bindPath = el.getAttribute('data-bind');
       if (!bindPath) return;
+      // Computed values are not submitted
+      if (bindPath.startsWith(COMPUTED_PREFIX)) return;
+
+      // Set name attribute: componentName[index].path, with array
+      // segments in brackets (items[0].addresses[0].city)
+      const nameAttr = `${componentName}[${rowIndex}]${toNamePath(bindPath)}`;
+
+      // Nested arrays prefix their own controls with this name
+      if (this._isNestedArray(el)) {
+        el.setAttribute('name', nameAttr);
+        return;
+      }
+
+      // Only set name/id on form controls (input, select, textarea)
+      if (!this._isFormElement(el)) return;
 
-      // Set name attribute: componentName[index].path
-      const nameAttr = `${componentName}[${rowIndex}].${bindPath}`;
       el.setAttribute('name', nameAttr);
 
       // Set id attribute: componentName__index__path
-      // Replace dots in path with underscores for valid IDs
-      const idPath = bindPath.replace(/\./g, '_');
-      const idAttr = `${componentName}__${rowIndex}__${idPath}`;
+      // Join path segments with underscores for valid IDs
+      const idPath = splitPath(bindPath).join('_');
+      const idAttr = idPath
+        ? `${componentName}__${rowIndex}__${idPath}`
+        : `${componentName}__${rowIndex}`;
       el.setAttribute('id', idAttr);
     });
   }
@@ -926,12 +2476,76 @@ export class CkEditableArray extends HTMLElement {
     }
   }
 
-  private _resolvePath(obj: unknown, path: string): unknown {
-    return path.split('.').reduce<unknown>((current, key) => {
-      if (current === null || current === undefined) return undefined;
-      if (typeof current !== 'object') return undefined;
-      return (current as Record<string, unknown>)[key];
-    }, obj);
+  /**
+   * Value of a binding path: `$computed.name` paths read the row's computed
+   * values, all others the row itself.
+   */
+  private _resolveBinding(
+    rowData: unknown,
+    path: string,
+    computed: Record<string, unknown>
+  ): unknown {
+    if (path.startsWith(COMPUTED_PREFIX)) {
+      return this._resolvePath(computed, path.slice(COMPUTED_PREFIX.length));
+    }
+    return this._resolvePath(rowData, path);
+  }
+
+  /**
+   * Computed values of a row. A function that throws yields undefined.
+   */
+  private _computeRow(
+    rowData: unknown,
+    rowIndex: number
+  ): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+    Object.keys(this._computed).forEach(name => {
+      try {
+        values[name] = this._computed[name](rowData, rowIndex, this._data);
+      } catch {
+        values[name] = undefined;
+      }
+    });
+    return values;
+  }
+
+  /**
+   * Re-applies the bindings that use computed values in every row, since a
+   * computed value may depend on other rows. `force` also runs it when no
+   * computed fields are set (after they were removed).
+   */
+  private _refreshComputedBindings(force = false): void {
+    if (!force && Object.keys(this._computed).length === 0) return;
+    const usesComputed = (el: HTMLElement) =>
+      el
+        .getAttributeNames()
+        .some(
+          name =>
+            name.startsWith('data-') &&
+            (el.getAttribute(name) || '').includes(COMPUTED_PREFIX)
+        );
+    this.shadow.querySelectorAll('[data-row]').forEach(rowEl => {
+      const rowIndex = Number(rowEl.getAttribute('data-row'));
+      if (!this._isValidRowIndex(rowIndex)) return;
+      const boundEls = (
+        this._boundElsCache.get(rowEl as HTMLElement) || []
+      ).filter(usesComputed);
+      if (boundEls.length === 0) return;
+      const rowData = this._data[rowIndex];
+      this._applyBindingsOptimized(
+        boundEls,
+        rowData,
+        this._computeRow(rowData, rowIndex)
+      );
+    });
+  }
+
+  private _resolvePath(obj: unknown, path: string): unknown {
+    return splitPath(path).reduce<unknown>((current, key) => {
+      if (current === null || current === undefined) return undefined;
+      if (typeof current !== 'object') return undefined;
+      return (current as Record<string, unknown>)[key];
+    }, obj);
   }
 
   private _handleRowKeydown(event: KeyboardEvent) {
@@ -998,11 +2612,22 @@ export class CkEditableArray extends HTMLElement {
 
   private _attachInputListeners(boundEls: HTMLElement[]): void {
     boundEls.forEach(el => {
-      // Only attach listeners to form elements
-      if (!this._isFormElement(el)) return;
-
       const bindPath = el.getAttribute('data-bind');
       if (!bindPath) return;
+      // Computed values are read-only
+      if (bindPath.startsWith(COMPUTED_PREFIX)) return;
+
+      if (this._isNestedArray(el)) {
+        el.addEventListener('datachanged', event =>
+          this._handleNestedDataChanged(event, bindPath)
+        );
+        // The parent dispatches its own rowchanged for the row
+        el.addEventListener('rowchanged', event => event.stopPropagation());
+        return;
+      }
+
+      // Only attach listeners to form elements
+      if (!this._isFormElement(el)) return;
 
       const tagName = el.tagName.toLowerCase();
       const inputType =
@@ -1047,22 +2672,50 @@ export class CkEditableArray extends HTMLElement {
     )
       return;
 
-    // Get the new value from the input
-    let newValue: unknown;
-    if (target instanceof HTMLInputElement && target.type === 'checkbox') {
-      newValue = target.checked;
-    } else {
-      newValue = target.value;
+    // A server error applies to the value that was submitted
+    if (this._serverErrorControls.has(target)) {
+      this._clearServerError(target);
     }
 
+    // Get the new value from the input
+    const newValue = this._readControlValue(target, bindPath, rowIndex);
+
     // Update the internal data
-    this._setNestedPath(this._data[rowIndex], bindPath, newValue);
+    this._setRowPath(rowIndex, bindPath, newValue);
+
+    // After a failed save, messages follow the corrections as they are
+    // typed; otherwise typing drops a validation still pending for a save
+    if (rowEl.classList.contains('ck-invalid')) {
+      this._revalidateRow(rowEl, rowIndex);
+    } else {
+      this._cancelValidation(rowEl);
+    }
 
-    // Update only the display elements in this row
+    // Update only the display elements in this row; the control being
+    // typed into keeps its text (it may be formatted differently)
     const boundEls = this._boundElsCache.get(rowEl) || [];
-    this._applyBindingsOptimized(boundEls, this._data[rowIndex]);
+    this._applyBindingsOptimized(
+      boundEls.filter(el => el !== target),
+      this._data[rowIndex],
+      this._computeRow(this._data[rowIndex], rowIndex)
+    );
+    // Computed values of other rows may depend on this one
+    this._refreshComputedBindings();
+    this._updateSummaries();
+
+    // Controls outside edit mode change committed data directly
+    if (this._currentEditIndex !== rowIndex) {
+      this._updateRowDirtyState(rowIndex, rowEl);
+    } else {
+      const editState = this._getEditState(this._data[rowIndex], rowIndex);
+      this._applyFieldDirtyState(
+        rowEl,
+        editState?.originalSnapshot,
+        this._data[rowIndex]
+      );
+    }
 
-    this._dispatchRowChanged(rowIndex);
+    this._dispatchRowChanged(rowIndex, [bindPath]);
     this._handleDataChangeForEvent(event);
 
     // Update form value on change events
@@ -1071,6 +2724,18 @@ export class CkEditableArray extends HTMLElement {
     }
   }
 
+  /**
+   * Dispatches datachanged for changes that are already committed (delete,
+   * programmatic row mutations): debounced mode schedules, other modes fire now.
+   */
+  private _dispatchDataChangedForMode(): void {
+    if (this._getDataChangeMode() === 'debounced') {
+      this._scheduleDataChanged();
+    } else {
+      this._dispatchDataChanged();
+    }
+  }
+
   private _handleDataChangeForEvent(event: Event): void {
     const mode = this._getDataChangeMode();
     if (mode === 'debounced') {
@@ -1085,10 +2750,23 @@ export class CkEditableArray extends HTMLElement {
     }
   }
 
+  /**
+   * Writes a bound value into a row. Self paths (`.`, `$value`) replace the
+   * value of primitive rows; object rows are only written field by field.
+   */
+  private _setRowPath(rowIndex: number, path: string, value: unknown): void {
+    const rowData = this._data[rowIndex];
+    if (splitPath(path).length > 0) {
+      this._setNestedPath(rowData, path, value);
+    } else if (typeof rowData !== 'object' || rowData === null) {
+      this._data[rowIndex] = value;
+    }
+  }
+
   private _setNestedPath(obj: unknown, path: string, value: unknown): void {
     if (typeof obj !== 'object' || obj === null) return;
 
-    const keys = path.split('.');
+    const keys = splitPath(path);
     const lastKey = keys.pop();
     if (!lastKey) return;
 
@@ -1098,11 +2776,13 @@ export class CkEditableArray extends HTMLElement {
     let current = obj as Record<string, unknown>;
 
     // Navigate to the parent object
-    for (const key of keys) {
+    for (let i = 0; i < keys.length; i++) {
+      const key = keys[i];
       if (reservedKeys.includes(key)) return;
 
       if (!(key in current)) {
-        current[key] = {};
+        // Numeric segments are array indices (`phones.0`, `phones[0]`)
+        current[key] = isIndexKey(keys[i + 1] ?? lastKey) ? [] : {};
       }
       current = current[key] as Record<string, unknown>;
       if (typeof current !== 'object' || current === null) return;
@@ -1120,6 +2800,11 @@ export class CkEditableArray extends HTMLElement {
     const actionEl = target.closest('[data-action]') as HTMLElement | null;
     if (!actionEl || !this.shadow.contains(actionEl)) return;
 
+    if (actionEl.getAttribute('data-action') === 'add') {
+      this._addDraftRow();
+      return;
+    }
+
     const rowEl = actionEl.closest('[data-row]') as HTMLElement | null;
     const action = actionEl.getAttribute('data-action');
     if (!rowEl || !action) return;
@@ -1144,6 +2829,123 @@ export class CkEditableArray extends HTMLElement {
     }
   }
 
+  /**
+   * Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) anywhere in the shadow root.
+   * Text controls keep their native undo, and a nested editable array owns
+   * the shortcuts pressed inside it even when it has nothing to undo.
+   */
+  private _handleShadowKeydown(event: KeyboardEvent) {
+    if (event.defaultPrevented) return;
+    if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+    if (event.key.toLowerCase() !== 'z') return;
+
+    const target = event.target as HTMLElement | null;
+    if (target?.closest('input, textarea, select, [contenteditable="true"]')) {
+      return;
+    }
+
+    const path = event.composedPath();
+    const nested = path
+      .slice(0, path.indexOf(this))
+      .some(node => node instanceof CkEditableArray);
+    if (nested) return;
+
+    const handled = event.shiftKey ? this.redo() : this.undo();
+    if (handled) {
+      event.preventDefault();
+    }
+  }
+
+  /**
+   * Reads a bound control's value as the type it should have in the data:
+   * from a data-type hint, the input type (number, range, date,
+   * datetime-local), or the field's type when editing started. Values that
+   * do not parse are kept as entered; empty values become null with
+   * data-nullable, and always for numbers unless data-keep-empty is set.
+   */
+  private _readControlValue(
+    target: HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement,
+    bindPath: string,
+    rowIndex: number
+  ): unknown {
+    const dataType = target.getAttribute('data-type');
+    const inputType =
+      target instanceof HTMLInputElement ? target.type.toLowerCase() : '';
+
+    if (
+      target instanceof HTMLInputElement &&
+      inputType === 'checkbox' &&
+      (!dataType || dataType === 'boolean')
+    ) {
+      return target.checked;
+    }
+
+    const raw = target.value;
+    if (raw === '' && target.hasAttribute('data-nullable')) return null;
+
+    const parsed = this._applyParse(target, raw);
+    if (parsed !== undefined) return parsed;
+
+    const rowData = this._data[rowIndex];
+    const editState = this._getEditState(rowData, rowIndex);
+    const original = this._resolvePath(
+      editState ? editState.originalSnapshot : rowData,
+      bindPath
+    );
+
+    let type = dataType;
+    if (!type) {
+      if (inputType === 'number' || inputType === 'range') {
+        type = 'number';
+      } else if (inputType === 'date' || inputType === 'datetime-local') {
+        // Fields that held date strings keep the input's string value
+        type = typeof original === 'string' ? null : 'date';
+      } else if (typeof original === 'number') {
+        type = 'number';
+      }
+    }
+
+    switch (type) {
+      case 'number':
+      case 'integer': {
+        // An empty string would put a string into a number field
+        if (raw.trim() === '') {
+          return target.hasAttribute('data-keep-empty') ? raw : null;
+        }
+        const num =
+          target instanceof HTMLInputElement &&
+          (inputType === 'number' || inputType === 'range')
+            ? target.valueAsNumber
+            : Number(raw);
+        if (Number.isNaN(num)) return raw;
+        if (type === 'integer' && !Number.isInteger(num)) return raw;
+        return num;
+      }
+      case 'boolean': {
+        const lower = raw.toLowerCase();
+        if (['true', '1', 'on', 'yes'].includes(lower)) return true;
+        if (['false', '0', 'off', 'no', ''].includes(lower)) return false;
+        return raw;
+      }
+      case 'date': {
+        if (raw === '') return null;
+        const date =
+          target instanceof HTMLInputElement && inputType === 'date'
+            ? target.valueAsDate
+            : new Date(raw);
+        return date && !Number.isNaN(date.getTime()) ? date : raw;
+      }
+      case 'json':
+        try {
+          return JSON.parse(raw);
+        } catch {
+          return raw;
+        }
+      default:
+        return raw;
+    }
+  }
+
   private _enterEditMode(rowEl: HTMLElement, rowIndex: number) {
     if (this.readonly) return;
     if (
@@ -1173,6 +2975,9 @@ export class CkEditableArray extends HTMLElement {
 
     this._currentEditIndex = rowIndex;
     this._setRowMode(rowEl, 'edit');
+    // Field markers now compare against the snapshot taken above
+    this._applyFieldDirtyState(rowEl, snapshot, rowData);
+    this._updateAddButton();
     this._focusFirstInput(rowEl);
 
     const afterEvent = new CustomEvent('aftertogglemode', {
@@ -1189,6 +2994,7 @@ export class CkEditableArray extends HTMLElement {
   private _saveRow(rowEl: HTMLElement, rowIndex: number) {
     if (this.readonly) return;
     if (this._currentEditIndex !== rowIndex) return;
+    if (this._savingRows.has(rowEl)) return;
 
     const rowData = this._data[rowIndex];
 
@@ -1202,701 +3008,2632 @@ export class CkEditableArray extends HTMLElement {
     this.dispatchEvent(beforeSaveEvent);
     if (beforeSaveEvent.defaultPrevented) return;
 
+    // Server errors from a previous attempt must not block a retry
+    this._clearServerErrors(rowEl);
+
     // Validate form controls in the edit content
     if (!this._validateEditRow(rowEl)) {
-      // Mark row as invalid
-      rowEl.classList.add('ck-invalid');
-      rowEl.setAttribute('aria-invalid', 'true');
-
-      // Update ElementInternals validity
-      if (typeof this._internals.setValidity === 'function') {
-        const firstInvalid = rowEl.querySelector(
-          '.edit-content :is(input, select, textarea):invalid'
-        ) as HTMLElement | null;
-        this._internals.setValidity(
-          { customError: true },
-          'Row has invalid fields',
-          firstInvalid || undefined
-        );
-      }
+      const firstInvalid = rowEl.querySelector(
+        '.edit-content :is(input, select, textarea):invalid'
+      ) as HTMLElement | null;
+      this._markRowInvalid(rowEl, 'Row has invalid fields', firstInvalid);
       return;
     }
 
-    // Clear invalid state on successful save
-    this._clearInvalidState(rowEl);
-
-    // Clear ElementInternals validity
-    if (typeof this._internals.setValidity === 'function') {
-      this._internals.setValidity({});
-    }
+    // Custom validators run last; async ones finish the save when they settle
+    this._runValidators(rowEl, rowIndex, errors => {
+      if (!this._applyValidationErrors(rowEl, errors, true)) return;
+      const currentIndex = Number(rowEl.getAttribute('data-row'));
+      if (this._currentEditIndex !== currentIndex) return;
 
-    // Clear internal edit state (don't pollute user data)
-    this._setEditState(rowData, rowIndex, null);
+      // Clear invalid state on successful save
+      this._clearInvalidState(rowEl);
+      this._updateValidity();
 
-    this._currentEditIndex = null;
-    this._setRowMode(rowEl, 'display');
+      if (this._saveHandler) {
+        void this._runSaveHandler(this._saveHandler, rowEl, currentIndex);
+        return;
+      }
 
-    const afterEvent = new CustomEvent('aftertogglemode', {
-      detail: { mode: 'display', rowIndex },
-      bubbles: true,
-      composed: true,
+      this._commitSave(rowEl, currentIndex);
     });
-    this.dispatchEvent(afterEvent);
+  }
 
-    // Announce save for screen readers (Feature 4.2)
-    this._announceAction(`Saved item ${rowIndex + 1}`);
+  /**
+   * Runs the validators and rowValidator of a row and passes their errors
+   * (data-bind path -> message, '' for the row message) to `done`,
+   * synchronously unless a validator returned a promise. Starting a new run
+   * or calling _cancelValidation drops a pending run without calling `done`.
+   */
+  private _runValidators(
+    rowEl: HTMLElement,
+    rowIndex: number,
+    done: (errors: Record<string, string>) => void
+  ): void {
+    const run = (this._validationRuns.get(rowEl) || 0) + 1;
+    this._validationRuns.set(rowEl, run);
+
+    const row = this._data[rowIndex];
+    const errors: Record<string, string> = {};
+    const pending: Promise<void>[] = [];
+
+    // Cross-row rules see the row as edited; its own issues block the save
+    this._refreshValidity();
+    this._collectionIssues.forEach(issue => {
+      if (issue.index === rowIndex) {
+        this._addValidationResult(errors, issue.path || '', issue.message);
+      }
+    });
+    // A result that cannot be read as a message fails like a throw
+    const addResult = (path: string, result: unknown): void => {
+      try {
+        this._addValidationResult(errors, path, result);
+      } catch (error) {
+        this._addValidationResult(errors, path, this._validatorFailure(error));
+      }
+    };
+    const settle = (path: string, validate: () => unknown): void => {
+      let result: unknown;
+      try {
+        result = validate();
+      } catch (error) {
+        result = this._validatorFailure(error);
+      }
+      if (typeof (result as Promise<unknown> | null)?.then === 'function') {
+        pending.push(
+          Promise.resolve(result).then(
+            value => addResult(path, value),
+            error => addResult(path, this._validatorFailure(error))
+          )
+        );
+        return;
+      }
+      addResult(path, result);
+    };
 
-    // Restore focus to edit button (Feature 4.3)
-    const editButton = rowEl.querySelector(
-      '[data-action="toggle"]'
-    ) as HTMLElement | null;
-    editButton?.focus();
+    Object.keys(this._validators).forEach(path => {
+      const validator = this._validators[path];
+      settle(path, () =>
+        validator(this._resolvePath(row, path), row, rowIndex, this._data)
+      );
+    });
+    const rowValidator = this._rowValidator;
+    if (rowValidator) {
+      settle('', () => rowValidator(row, rowIndex, this._data));
+    }
 
-    if (this._getDataChangeMode() === 'save') {
-      this._dispatchDataChanged();
+    if (pending.length === 0) {
+      this._validationRuns.delete(rowEl);
+      done(errors);
+      return;
     }
 
-    // Update form value after save
-    this._updateFormValueFromControls();
+    rowEl.setAttribute('data-validating', '');
+    rowEl.setAttribute('aria-busy', 'true');
+    void Promise.all(pending)
+      .catch(error => addResult('', this._validatorFailure(error)))
+      .then(() => {
+        if (this._validationRuns.get(rowEl) !== run) return;
+        this._cancelValidation(rowEl);
+        if (rowEl.isConnected) done(errors);
+      });
   }
 
   /**
-   * Validates all form controls inside the edit content of a row.
-   * Returns true if all controls are valid, false otherwise.
-   * Calls reportValidity() on the first invalid control.
+   * Drops the pending validation run of a row, if any.
    */
-  private _validateEditRow(rowEl: HTMLElement): boolean {
-    const editContent = rowEl.querySelector('.edit-content');
-    if (!editContent) return true;
-
-    const controls = editContent.querySelectorAll(
-      'input, select, textarea'
-    ) as NodeListOf<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>;
-
-    if (controls.length === 0) return true;
+  private _cancelValidation(rowEl: HTMLElement): void {
+    if (!this._validationRuns.has(rowEl)) return;
+    this._validationRuns.delete(rowEl);
+    rowEl.removeAttribute('data-validating');
+    if (!this._savingRows.has(rowEl)) {
+      rowEl.removeAttribute('aria-busy');
+    }
+  }
 
-    for (const control of Array.from(controls)) {
-      if (
-        typeof control.checkValidity === 'function' &&
-        !control.checkValidity()
-      ) {
-        if (typeof control.reportValidity === 'function') {
-          control.reportValidity();
-        }
-        return false;
-      }
+  private _addValidationResult(
+    errors: Record<string, string>,
+    path: string,
+    result: unknown
+  ): void {
+    if (result === null || result === undefined || result === '') return;
+    if (path === '' && this._isPlainObject(result)) {
+      Object.entries(result as FieldErrors).forEach(([field, message]) =>
+        this._addValidationResult(errors, field, message)
+      );
+      return;
     }
-    return true;
+    const message = Array.isArray(result) ? result.join(' ') : String(result);
+    if (message && !errors[path]) errors[path] = message;
   }
 
   /**
-   * Clears the invalid visual state from a row element.
+   * A validator that throws or rejects fails the row with the error message.
    */
-  private _clearInvalidState(rowEl: HTMLElement): void {
-    rowEl.classList.remove('ck-invalid');
-    rowEl.removeAttribute('aria-invalid');
+  private _validatorFailure(error: unknown): string {
+    return error instanceof Error && error.message
+      ? error.message
+      : 'Validation failed';
   }
 
-  private _cancelRow(rowEl: HTMLElement, rowIndex: number) {
-    if (this._currentEditIndex !== rowIndex) return;
+  /**
+   * Shows validator errors on the row: field messages go to the custom
+   * validity and data-error-for element of controls that pass their native
+   * constraints; messages without a control (including the row message,
+   * data-error-for="$row") only to their data-error-for element.
+   * Returns true when there are no errors.
+   */
+  private _applyValidationErrors(
+    rowEl: HTMLElement,
+    errors: Record<string, string>,
+    report: boolean
+  ): boolean {
+    const controls = Array.from(
+      rowEl.querySelectorAll<HTMLInputElement>('.edit-content [data-bind]')
+    ).filter(control => this._isFormElement(control));
+    const controlPaths = new Set(
+      controls.map(control => control.getAttribute('data-bind'))
+    );
 
-    const beforeEvent = new CustomEvent('beforetogglemode', {
-      detail: { mode: 'display', rowIndex },
-      bubbles: true,
-      composed: true,
-      cancelable: true,
+    let firstInvalid: HTMLInputElement | null = null;
+    controls.forEach(control => {
+      const message = errors[control.getAttribute('data-bind') || ''];
+      if (!message || !control.checkValidity()) return;
+      control.setCustomValidity(message);
+      this._messageControls.add(control);
+      this._showFieldError(rowEl, control, message);
+      firstInvalid = firstInvalid || control;
     });
-    this.dispatchEvent(beforeEvent);
-    if (beforeEvent.defaultPrevented) return;
-
-    const rowData = this._data[rowIndex];
 
-    // Restore from internal snapshot (don't pollute user data)
-    const editState = this._getEditState(rowData, rowIndex);
-    if (editState?.originalSnapshot !== undefined) {
-      this._data[rowIndex] = this._cloneValue(editState.originalSnapshot);
-    }
+    rowEl.querySelectorAll('[data-error-for]').forEach(el => {
+      const path = el.getAttribute('data-error-for') || '';
+      if (controlPaths.has(path)) return;
+      const message = errors[path === '$row' ? '' : path];
+      el.textContent = message || '';
+      (el as HTMLElement).hidden = !message;
+    });
 
-    // Clear internal edit state
-    this._setEditState(this._data[rowIndex], rowIndex, null);
+    const messages = Object.values(errors);
+    if (messages.length === 0) return true;
 
-    // Clear invalid state on cancel
-    this._clearInvalidState(rowEl);
+    const invalid = firstInvalid as HTMLInputElement | null;
+    this._markRowInvalid(
+      rowEl,
+      (invalid && invalid.validationMessage) || messages[0],
+      invalid
+    );
+    if (report && typeof invalid?.reportValidity === 'function') {
+      invalid.reportValidity();
+    }
+    return false;
+  }
 
-    const boundEls = this._boundElsCache.get(rowEl) || [];
-    this._applyBindingsOptimized(boundEls, this._data[rowIndex]);
+  /**
+   * Re-checks a row that failed to save while its fields are corrected and
+   * clears the invalid state once everything passes.
+   */
+  private _revalidateRow(rowEl: HTMLElement, rowIndex: number): void {
+    const nativeValid = this._validateEditRow(rowEl, false);
+    this._runValidators(rowEl, rowIndex, errors => {
+      if (!this._applyValidationErrors(rowEl, errors, false) || !nativeValid) {
+        return;
+      }
+      this._clearInvalidState(rowEl);
+      this._updateValidity();
+    });
+  }
 
-    this._currentEditIndex = null;
-    this._setRowMode(rowEl, 'display');
+  /**
+   * Re-checks the rows that failed validateAll(), re-evaluates unique-fields
+   * and the collection validator, marks the rows with issues (except the
+   * edited row, whose state belongs to its save) and updates the host's
+   * validity.
+   */
+  private _refreshValidity(): void {
+    Array.from(this._invalidRows).forEach(rowEl => {
+      if (!rowEl.isConnected) {
+        this._invalidRows.delete(rowEl);
+        return;
+      }
+      if (rowEl.getAttribute('data-mode') === 'edit') return;
+      const index = Number(rowEl.getAttribute('data-row'));
+      if (
+        this._isRowDeleted(this._data[index], index) ||
+        this._validateEditRow(rowEl, false)
+      ) {
+        this._clearInvalidState(rowEl);
+      }
+    });
+    this._collectionIssues = this._findCollectionIssues();
+    this._rowsHostEl
+      ?.querySelectorAll('[data-row]')
+      .forEach((rowEl, index) =>
+        this._applyRowValidityMark(rowEl as HTMLElement, index)
+      );
+    this._updateValidity();
+  }
 
-    const afterEvent = new CustomEvent('aftertogglemode', {
-      detail: { mode: 'display', rowIndex },
-      bubbles: true,
-      composed: true,
+  private _findCollectionIssues(): CollectionIssue[] {
+    const issues: CollectionIssue[] = [];
+
+    this.uniqueFields.forEach(path => {
+      const seen = new Map<string, number[]>();
+      this._data.forEach((row, index) => {
+        if (this._isRowDeleted(row, index)) return;
+        const value = this._resolvePath(row, path);
+        if (value === null || value === undefined || value === '') return;
+        const key =
+          value instanceof Date
+            ? `date:${value.getTime()}`
+            : `${typeof value}:${String(value)}`;
+        seen.set(key, [...(seen.get(key) || []), index]);
+      });
+      const message = this._uniqueMessage(path);
+      seen.forEach(indexes => {
+        if (indexes.length < 2) return;
+        indexes.forEach(index => issues.push({ index, path, message }));
+      });
     });
-    this.dispatchEvent(afterEvent);
 
-    // Announce cancel for screen readers (Feature 4.2)
-    this._announceAction(`Canceled edits for item ${rowIndex + 1}`);
+    const validator = this._collectionValidator;
+    if (validator) {
+      let result: ReturnType<CollectionValidator>;
+      try {
+        result = validator(this._data);
+      } catch (error) {
+        result = this._validatorFailure(error);
+      }
+      if (typeof result === 'string' && result) {
+        issues.push({ message: result });
+      } else if (Array.isArray(result)) {
+        result.forEach(issue => {
+          if (!issue || typeof issue.message !== 'string' || !issue.message) {
+            return;
+          }
+          const index =
+            typeof issue.index === 'number' &&
+            this._isValidRowIndex(issue.index)
+              ? issue.index
+              : undefined;
+          issues.push({ index, path: issue.path, message: issue.message });
+        });
+      }
+    }
 
-    // Restore focus to edit button (Feature 4.3)
-    const editButton = rowEl.querySelector(
-      '[data-action="toggle"]'
-    ) as HTMLElement | null;
-    editButton?.focus();
+    // Row issues in row order, then issues about the whole array
+    const rowOrder = (issue: CollectionIssue) =>
+      issue.index === undefined ? Infinity : issue.index;
+    return issues.sort((a, b) => rowOrder(a) - rowOrder(b));
+  }
 
-    // Update form value after cancel
-    this._updateFormValueFromControls();
+  /**
+   * The data-msg-unique attribute of the field's edit control, or a default.
+   */
+  private _uniqueMessage(path: string): string {
+    const control = Array.from(
+      this._getEditTemplate()?.content.querySelectorAll('[data-bind]') || []
+    ).find(el => el.getAttribute('data-bind') === path);
+    return control?.getAttribute('data-msg-unique') || 'Value must be unique';
   }
 
-  private _toggleDeleteRow(rowEl: HTMLElement, rowIndex: number) {
-    if (this.readonly) return;
-    const rowData = this._data[rowIndex];
-    if (!rowData) return;
+  private _applyRowValidityMark(rowEl: HTMLElement, index: number): void {
+    if (this._currentEditIndex === index) return;
+    const invalid =
+      this._invalidRows.has(rowEl) ||
+      this._collectionIssues.some(issue => issue.index === index);
+    rowEl.classList.toggle('ck-invalid', invalid);
+    if (invalid) {
+      rowEl.setAttribute('aria-invalid', 'true');
+    } else {
+      rowEl.removeAttribute('aria-invalid');
+    }
+  }
 
-    // Toggle isDeleted property
-    const isCurrentlyDeleted = this._isRowDeleted(rowData);
-    const newDeletedState = !isCurrentlyDeleted;
+  /**
+   * Reports the host's validity: a failed save of the edited row, too few
+   * rows (valueMissing when there are none, else rangeUnderflow), too many
+   * rows (rangeOverflow), rows that failed validateAll() and the first
+   * collection issue. Flags are combined; the message and anchor come from
+   * the first problem in that order.
+   */
+  private _updateValidity(): void {
+    const rows = this._rowsHostEl?.querySelectorAll('[data-row]');
+    const flags: ValidityStateFlags = {};
+    let message = '';
+    let anchor: HTMLElement | undefined;
+    const report = (text: string, el: HTMLElement | undefined) => {
+      message = message || text;
+      anchor = anchor || el;
+    };
 
-    // Add isDeleted property to data if it doesn't exist
-    if (typeof rowData === 'object' && rowData !== null) {
-      (rowData as Record<string, unknown>).isDeleted = newDeletedState;
+    const failure = this._editRowFailure;
+    if (
+      failure &&
+      failure.rowEl.isConnected &&
+      failure.rowEl.getAttribute('data-mode') === 'edit'
+    ) {
+      flags.customError = true;
+      report(failure.message, failure.anchor);
+    } else {
+      this._editRowFailure = null;
     }
 
-    // Update button text and aria-label
-    const deleteButton = rowEl.querySelector(
-      '[data-action="delete"]'
-    ) as HTMLButtonElement | null;
-    if (deleteButton) {
-      if (newDeletedState) {
-        deleteButton.textContent = this._getButtonRestoreText();
-        deleteButton.setAttribute('aria-label', `Restore item ${rowIndex + 1}`);
-      } else {
-        deleteButton.textContent = this._getButtonDeleteText();
-        deleteButton.setAttribute('aria-label', `Delete item ${rowIndex + 1}`);
-      }
+    const min = this.minRows;
+    const max = this.maxRows;
+    const count = min !== null || max !== null ? this._countActiveRows() : 0;
+    if (min !== null && count < min) {
+      flags[count === 0 ? 'valueMissing' : 'rangeUnderflow'] = true;
+      report(
+        `At least ${min} ${min === 1 ? 'row is' : 'rows are'} required`,
+        this.allowAdd && this._addButtonEl ? this._addButtonEl : undefined
+      );
+    } else if (max !== null && count > max) {
+      flags.rangeOverflow = true;
+      report(
+        `No more than ${max} ${max === 1 ? 'row is' : 'rows are'} allowed`,
+        undefined
+      );
     }
 
-    // Update edit button disabled state
-    const editButton = rowEl.querySelector(
-      '[data-action="toggle"]'
-    ) as HTMLButtonElement | null;
-    if (editButton) {
-      editButton.disabled = newDeletedState;
+    const invalidRow = Array.from(rows || []).find(rowEl =>
+      this._invalidRows.has(rowEl as HTMLElement)
+    ) as HTMLElement | undefined;
+    if (invalidRow) {
+      flags.customError = true;
+      const editing = invalidRow.getAttribute('data-mode') === 'edit';
+      const control = editing
+        ? (invalidRow.querySelector(
+            '.edit-content :is(input, select, textarea):invalid'
+          ) as HTMLElement | null)
+        : null;
+      report(
+        `Item ${Number(invalidRow.getAttribute('data-row')) + 1} has invalid fields`,
+        control || invalidRow
+      );
     }
 
-    // Update checkbox state
-    const checkbox = rowEl.querySelector(
-      'input[type="checkbox"][data-bind="isDeleted"]'
-    ) as HTMLInputElement | null;
-    if (checkbox) {
-      checkbox.checked = newDeletedState;
+    const issue = this._collectionIssues[0];
+    if (issue) {
+      flags.customError = true;
+      const rowEl =
+        issue.index !== undefined
+          ? (rows?.[issue.index] as HTMLElement | undefined)
+          : undefined;
+      const control = Array.from(
+        rowEl?.querySelectorAll('.edit-content [data-bind]') || []
+      ).find(el => el.getAttribute('data-bind') === issue.path) as
+        | HTMLElement
+        | undefined;
+      report(issue.message, control || rowEl);
     }
 
-    // Toggle ck-deleted class on row
-    rowEl.classList.toggle('ck-deleted', newDeletedState);
-
-    // Dispatch events
-    this._dispatchRowChanged(rowIndex);
-
-    // Dispatch datachanged based on mode (not triggered by a real event, so check mode directly)
-    const mode = this._getDataChangeMode();
-    if (mode === 'debounced') {
-      this._scheduleDataChanged();
-    } else if (mode === 'change' || mode === 'save') {
-      this._dispatchDataChanged();
+    if (!message) {
+      this._setValidity({});
+      return;
     }
-
-    // Update form value
-    this._updateFormValueFromControls();
+    this._setValidity(flags, message, anchor);
   }
 
-  private _sanitizeClone(fragment: DocumentFragment): DocumentFragment {
-    // Remove <script> tags
-    const scripts = fragment.querySelectorAll('script');
-    scripts.forEach(script => script.remove());
-
-    // Dangerous URL protocols (case-insensitive, may have leading whitespace)
-    const DANGEROUS_URL_PATTERN = /^\s*(javascript|vbscript|data)\s*:/i;
+  /**
+   * Records the validity, passes it to ElementInternals and dispatches
+   * validitychange when the validity or its message changed.
+   */
+  private _setValidity(
+    flags: ValidityStateFlags,
+    message?: string,
+    anchor?: HTMLElement
+  ): void {
+    const wasValid = this.validity.valid;
+    const previousMessage = this._validationMessage;
+    this._validityFlags = { ...flags };
+    this._validationMessage = message || '';
+    this._validityAnchor = anchor;
+    if (typeof this._internals.setValidity === 'function') {
+      if (message === undefined) {
+        this._internals.setValidity(flags);
+      } else {
+        this._internals.setValidity(flags, message, anchor);
+      }
+    }
 
-    // Attributes that can contain executable URLs
-    const URL_ATTRS = ['href', 'src', 'xlink:href', 'formaction'];
+    const valid = this.validity.valid;
+    if (valid === wasValid && this._validationMessage === previousMessage) {
+      return;
+    }
+    this.dispatchEvent(
+      new CustomEvent('validitychange', {
+        detail: { valid, validationMessage: this._validationMessage },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
 
-    // Attributes to remove entirely (can contain executable HTML)
-    const DANGEROUS_ATTRS = ['srcdoc'];
+  /**
+   * Marks the edited row invalid after a failed save and reports it.
+   */
+  private _markRowInvalid(
+    rowEl: HTMLElement,
+    message: string,
+    anchor: HTMLElement | null
+  ): void {
+    rowEl.classList.add('ck-invalid');
+    rowEl.setAttribute('aria-invalid', 'true');
+    this._editRowFailure = { rowEl, message, anchor: anchor || undefined };
+    this._updateValidity();
+  }
 
-    const allElements = fragment.querySelectorAll('*');
-    allElements.forEach(el => {
-      const attributes = el.getAttributeNames();
-      attributes.forEach(attr => {
-        // Remove on* event handlers
-        if (attr.startsWith('on')) {
-          el.removeAttribute(attr);
-          return;
-        }
+  /**
+   * Awaits the save handler with the row in the saving state, then either
+   * commits the save or maps the rejection onto the row's controls.
+   */
+  private async _runSaveHandler(
+    handler: SaveHandler,
+    rowEl: HTMLElement,
+    rowIndex: number
+  ): Promise<void> {
+    const rowData = this._data[rowIndex];
+    this._setRowSaving(rowEl, true);
+    this._announceAction(`Saving item ${rowIndex + 1}`);
 
-        // Remove dangerous attributes entirely
-        if (DANGEROUS_ATTRS.includes(attr.toLowerCase())) {
-          el.removeAttribute(attr);
-          return;
-        }
+    let savedRow: unknown;
+    let failed = false;
+    let error: unknown;
+    try {
+      savedRow = await handler(this._cloneValue(rowData), rowIndex);
+    } catch (err) {
+      failed = true;
+      error = err;
+    }
 
-        // Sanitize URL-based attributes
-        if (URL_ATTRS.includes(attr.toLowerCase())) {
-          const value = el.getAttribute(attr) || '';
-          if (DANGEROUS_URL_PATTERN.test(value)) {
-            el.removeAttribute(attr);
-          }
-        }
-      });
-    });
+    this._setRowSaving(rowEl, false);
 
-    return fragment;
-  }
+    // The row may have moved, been removed or replaced while saving
+    if (!rowEl.isConnected) return;
+    const currentIndex = Number(rowEl.getAttribute('data-row'));
+    if (
+      this._currentEditIndex !== currentIndex ||
+      this._data[currentIndex] !== rowData
+    ) {
+      return;
+    }
 
-  private _getEditState(rowData: unknown, rowIndex: number): EditState | null {
-    if (typeof rowData === 'object' && rowData !== null) {
-      return this._editStateMap.get(rowData) || null;
-    } else {
-      // For primitives, use parallel array
-      return this._primitiveEditState[rowIndex] || null;
+    if (failed) {
+      this._handleSaveError(rowEl, currentIndex, error);
+      return;
     }
+    this._commitSave(rowEl, currentIndex, savedRow);
   }
 
   /**
-   * Apply button semantics (aria-labels, disabled states) for a row.
-   * Shared helper to avoid divergence between _renderRow and _updateRowIndexAndButtons.
+   * Leaves edit mode after a successful save. A savedRow (returned by the
+   * save handler) replaces the edited row.
    */
-  private _applyButtonSemantics(
+  private _commitSave(
     rowEl: HTMLElement,
-    index: number,
-    rowData: unknown
+    rowIndex: number,
+    savedRow?: unknown
   ): void {
-    const itemNumber = index + 1;
-    const isDeleted = this._isRowDeleted(rowData);
+    const historyBefore = this._historyCheckpoint();
+    const rowData = this._data[rowIndex];
+    const wasDraft = !!this._getEditState(rowData, rowIndex)?.draft;
 
-    // Edit/Save/Cancel/Delete buttons
+    // Clear internal edit state (don't pollute user data)
+    this._setEditState(rowData, rowIndex, null);
+
+    this._currentEditIndex = null;
+    const replaced = savedRow !== undefined;
+    if (replaced) {
+      this._data[rowIndex] = this._cloneValue(savedRow);
+      this._renderRowAt(rowIndex);
+    } else {
+      this._setRowMode(rowEl, 'display');
+      rowEl.removeAttribute('data-draft');
+      this._applyButtonSemantics(rowEl, rowIndex, rowData);
+    }
+    this._updateAddButton();
+
+    const afterEvent = new CustomEvent('aftertogglemode', {
+      detail: { mode: 'display', rowIndex },
+      bubbles: true,
+      composed: true,
+    });
+    this.dispatchEvent(afterEvent);
+
+    // Announce save for screen readers (Feature 4.2)
+    this._announceAction(`Saved item ${rowIndex + 1}`);
+
+    // Restore focus to edit button (Feature 4.3)
     const editButton = rowEl.querySelector(
       '[data-action="toggle"]'
-    ) as HTMLButtonElement | null;
-    const saveButton = rowEl.querySelector(
-      '[data-action="save"]'
-    ) as HTMLButtonElement | null;
-    const cancelButton = rowEl.querySelector(
-      '[data-action="cancel"]'
-    ) as HTMLButtonElement | null;
-    const deleteButton = rowEl.querySelector(
-      '[data-action="delete"]'
-    ) as HTMLButtonElement | null;
+    ) as HTMLElement | null;
+    editButton?.focus();
 
-    if (editButton) {
-      editButton.setAttribute('aria-label', `Edit item ${itemNumber}`);
-      editButton.disabled = isDeleted || this.readonly;
-    }
-    if (saveButton) {
-      saveButton.setAttribute('aria-label', `Save item ${itemNumber}`);
-      saveButton.disabled = this.readonly;
-    }
-    if (cancelButton) {
-      cancelButton.setAttribute(
-        'aria-label',
-        `Cancel edits for item ${itemNumber}`
+    this._commitChange(historyBefore, wasDraft ? undefined : rowIndex);
+
+    if (replaced) {
+      this._dispatchRowChanged(
+        rowIndex,
+        this._diffPaths(rowData, this._data[rowIndex])
       );
     }
-    if (deleteButton) {
-      deleteButton.disabled = this.readonly;
-      if (isDeleted) {
-        deleteButton.textContent = this._getButtonRestoreText();
-        deleteButton.setAttribute('aria-label', `Restore item ${itemNumber}`);
-      } else {
-        deleteButton.textContent = this._getButtonDeleteText();
-        deleteButton.setAttribute('aria-label', `Delete item ${itemNumber}`);
-      }
+
+    if (wasDraft || replaced) {
+      // Saving a draft commits the new row to the array
+      this._dispatchDataChangedForMode();
+    } else if (this._getDataChangeMode() === 'save') {
+      this._dispatchDataChanged();
     }
 
-    // Move up/down buttons
-    const moveUpButton = rowEl.querySelector(
-      '[data-action="move-up"]'
-    ) as HTMLButtonElement | null;
-    const moveDownButton = rowEl.querySelector(
-      '[data-action="move-down"]'
-    ) as HTMLButtonElement | null;
+    // Update form value after save
+    this._updateFormValueFromControls();
+  }
 
-    if (moveUpButton) {
-      moveUpButton.setAttribute('aria-label', `Move item ${itemNumber} up`);
-      moveUpButton.disabled =
-        index === 0 || this.readonly || !this.allowReorder;
+  /**
+   * Validates all form controls inside the edit content of a row and shows
+   * every field's message in its data-error-for element.
+   * Returns true if all controls are valid, false otherwise.
+   * Calls reportValidity() on the first invalid control unless `report` is
+   * false (live re-validation while typing).
+   */
+  private _validateEditRow(rowEl: HTMLElement, report = true): boolean {
+    const editContent = rowEl.querySelector('.edit-content');
+    if (!editContent) return true;
+
+    const controls = editContent.querySelectorAll(
+      'input, select, textarea'
+    ) as NodeListOf<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>;
+
+    let firstInvalid: HTMLInputElement | null = null;
+    controls.forEach(control => {
+      const message = this._validateControl(control);
+      this._showFieldError(rowEl, control, message);
+      if (message !== null && !firstInvalid) {
+        firstInvalid = control as HTMLInputElement;
+      }
+    });
+
+    const invalid = firstInvalid as HTMLInputElement | null;
+    if (report && typeof invalid?.reportValidity === 'function') {
+      invalid.reportValidity();
     }
-    if (moveDownButton) {
-      moveDownButton.setAttribute('aria-label', `Move item ${itemNumber} down`);
-      moveDownButton.disabled =
-        index === this._data.length - 1 || this.readonly || !this.allowReorder;
+    return invalid === null;
+  }
+
+  /**
+   * Checks one control. Returns null when it is valid, otherwise its message:
+   * the matching data-msg-* attribute (data-msg-required, data-msg-pattern,
+   * ...), data-msg, or the browser's message.
+   */
+  private _validateControl(
+    control: HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement
+  ): string | null {
+    if (typeof control.checkValidity !== 'function') return null;
+    // Messages set by an earlier validation must not keep the control invalid
+    if (this._messageControls.has(control)) {
+      control.setCustomValidity('');
+      this._messageControls.delete(control);
+    }
+    if (control.checkValidity()) return null;
+    if (this._serverErrorControls.has(control)) {
+      return control.validationMessage;
     }
+
+    const failed = VALIDITY_MESSAGE_ATTRS.find(
+      ([flag]) => control.validity?.[flag]
+    );
+    const custom =
+      (failed && control.getAttribute(`data-msg-${failed[1]}`)) ||
+      control.getAttribute('data-msg');
+    if (custom) {
+      control.setCustomValidity(custom);
+      this._messageControls.add(control);
+      return custom;
+    }
+    return control.validationMessage;
   }
 
-  private _setEditState(
-    rowData: unknown,
-    rowIndex: number,
-    state: EditState | null
+  /**
+   * Shows (or clears, for null) a control's message in the row's
+   * data-error-for element of the same path, and links the two with
+   * aria-describedby.
+   */
+  private _showFieldError(
+    rowEl: HTMLElement,
+    control: HTMLElement,
+    message: string | null
   ): void {
-    if (typeof rowData === 'object' && rowData !== null) {
-      if (state === null) {
-        this._editStateMap.delete(rowData);
-      } else {
-        this._editStateMap.set(rowData, state);
-      }
+    if (message === null) {
+      control.removeAttribute('aria-invalid');
     } else {
-      // For primitives, use parallel array
-      this._primitiveEditState[rowIndex] = state;
+      control.setAttribute('aria-invalid', 'true');
     }
-  }
-
-  private _isRowEditing(rowData: unknown, rowIndex: number): boolean {
-    const editState = this._getEditState(rowData, rowIndex);
-    if (editState?.editing) return true;
-    return this._currentEditIndex === rowIndex;
-  }
 
-  private _isRowDeleted(rowData: unknown): boolean {
-    if (typeof rowData === 'object' && rowData !== null) {
-      return (rowData as Record<string, unknown>).isDeleted === true;
+    const bindPath = control.getAttribute('data-bind');
+    if (!bindPath) return;
+    const errorEl = Array.from(rowEl.querySelectorAll('[data-error-for]')).find(
+      el => el.getAttribute('data-error-for') === bindPath
+    ) as HTMLElement | undefined;
+    if (!errorEl) return;
+
+    errorEl.textContent = message || '';
+    errorEl.hidden = message === null;
+    if (!errorEl.id) {
+      errorIdCount += 1;
+      errorEl.id = `ck-error-${errorIdCount}`;
+    }
+    const describedBy = (control.getAttribute('aria-describedby') || '')
+      .split(/\s+/)
+      .filter(Boolean);
+    if (!describedBy.includes(errorEl.id)) {
+      describedBy.push(errorEl.id);
+      control.setAttribute('aria-describedby', describedBy.join(' '));
     }
-    return false;
   }
 
-  private _setRowMode(rowEl: HTMLElement, mode: 'display' | 'edit') {
-    rowEl.setAttribute('data-mode', mode);
-    const displayWrapper = rowEl.querySelector(
-      '.display-content'
-    ) as HTMLElement | null;
-    const editWrapper = rowEl.querySelector(
-      '.edit-content'
-    ) as HTMLElement | null;
-    if (displayWrapper) {
-      displayWrapper.classList.toggle('ck-hidden', mode === 'edit');
+  private _setRowSaving(rowEl: HTMLElement, saving: boolean): void {
+    if (saving) {
+      this._savingRows.add(rowEl);
+      rowEl.setAttribute('data-mode', 'saving');
+      rowEl.setAttribute('aria-busy', 'true');
+      rowEl
+        .querySelectorAll('button[data-action]')
+        .forEach(button => ((button as HTMLButtonElement).disabled = true));
+      return;
     }
-    if (editWrapper) {
-      editWrapper.classList.toggle('ck-hidden', mode !== 'edit');
+
+    this._savingRows.delete(rowEl);
+    rowEl.removeAttribute('aria-busy');
+    // Re-rendering restores each button's own disabled rule
+    rowEl
+      .querySelectorAll('button[data-action]')
+      .forEach(button => ((button as HTMLButtonElement).disabled = false));
+    const rowIndex = Number(rowEl.getAttribute('data-row'));
+    if (rowEl.isConnected && this._isValidRowIndex(rowIndex)) {
+      this._renderRowAt(rowIndex);
     }
-    const editButton = rowEl.querySelector(
-      '[data-action="toggle"]'
-    ) as HTMLElement | null;
-    const saveButton = rowEl.querySelector(
+  }
+
+  /**
+   * Keeps the row in edit mode after a rejected save and maps field errors
+   * ({ errors: { [bindPath]: message } }) onto the matching controls.
+   */
+  private _handleSaveError(
+    rowEl: HTMLElement,
+    rowIndex: number,
+    error: unknown
+  ): void {
+    const fieldErrors = (error as { errors?: unknown } | null)?.errors;
+    let firstInvalid: HTMLElement | null = null;
+    let firstMessage = '';
+
+    if (this._isPlainObject(fieldErrors)) {
+      const controls = rowEl.querySelectorAll(
+        '.edit-content [data-bind]'
+      ) as NodeListOf<HTMLElement>;
+      Object.entries(fieldErrors as FieldErrors).forEach(([path, value]) => {
+        const message = Array.isArray(value) ? value.join(' ') : String(value);
+        controls.forEach(control => {
+          if (control.getAttribute('data-bind') !== path) return;
+          if (!this._isFormElement(control)) return;
+          (
+            control as
+              | HTMLInputElement
+              | HTMLSelectElement
+              | HTMLTextAreaElement
+          ).setCustomValidity(message);
+          this._serverErrorControls.add(control);
+          this._showFieldError(rowEl, control, message);
+          if (!firstInvalid) {
+            firstInvalid = control;
+            firstMessage = message;
+          }
+        });
+      });
+    }
+
+    this._markRowInvalid(
+      rowEl,
+      firstMessage || 'Row could not be saved',
+      firstInvalid
+    );
+    const invalidControl = firstInvalid as HTMLInputElement | null;
+    if (typeof invalidControl?.reportValidity === 'function') {
+      invalidControl.reportValidity();
+    }
+
+    this.dispatchEvent(
+      new CustomEvent('saveerror', {
+        detail: {
+          rowIndex,
+          rowData: this._cloneValue(this._data[rowIndex]),
+          error,
+        },
+        bubbles: true,
+        composed: true,
+      })
+    );
+    this._announceAction(`Could not save item ${rowIndex + 1}`);
+  }
+
+  private _clearServerErrors(rowEl: HTMLElement): void {
+    rowEl.querySelectorAll('[data-bind]').forEach(control => {
+      if (this._serverErrorControls.has(control)) {
+        this._clearServerError(control);
+      }
+    });
+  }
+
+  private _clearServerError(control: Element): void {
+    (control as HTMLInputElement).setCustomValidity('');
+    this._serverErrorControls.delete(control);
+  }
+
+  /**
+   * Clears the invalid visual state from a row element.
+   */
+  private _clearInvalidState(rowEl: HTMLElement): void {
+    rowEl.classList.remove('ck-invalid');
+    rowEl.removeAttribute('aria-invalid');
+    this._invalidRows.delete(rowEl);
+    if (this._editRowFailure?.rowEl === rowEl) {
+      this._editRowFailure = null;
+    }
+    rowEl
+      .querySelectorAll('.edit-content :is(input, select, textarea)')
+      .forEach(control => {
+        if (this._messageControls.has(control)) {
+          (control as HTMLInputElement).setCustomValidity('');
+          this._messageControls.delete(control);
+        }
+        this._showFieldError(rowEl, control as HTMLElement, null);
+      });
+    // Row messages and messages for fields without a control
+    rowEl.querySelectorAll('[data-error-for]').forEach(el => {
+      el.textContent = '';
+      (el as HTMLElement).hidden = true;
+    });
+  }
+
+  private _cancelRow(rowEl: HTMLElement, rowIndex: number) {
+    if (this._currentEditIndex !== rowIndex) return;
+    if (this._savingRows.has(rowEl)) return;
+
+    const beforeEvent = new CustomEvent('beforetogglemode', {
+      detail: { mode: 'display', rowIndex },
+      bubbles: true,
+      composed: true,
+      cancelable: true,
+    });
+    this.dispatchEvent(beforeEvent);
+    if (beforeEvent.defaultPrevented) return;
+
+    const rowData = this._data[rowIndex];
+
+    // Restore from internal snapshot (don't pollute user data)
+    const editState = this._getEditState(rowData, rowIndex);
+    if (editState?.draft) {
+      this._discardDraftRow(rowIndex);
+      return;
+    }
+    if (editState?.originalSnapshot !== undefined) {
+      this._data[rowIndex] = this._cloneValue(editState.originalSnapshot);
+    }
+
+    // Clear internal edit state
+    this._setEditState(this._data[rowIndex], rowIndex, null);
+
+    // Clear invalid state on cancel; the restored values of a row found
+    // invalid by validateAll() are checked again below
+    const wasChecked = this._invalidRows.has(rowEl);
+    this._cancelValidation(rowEl);
+    this._clearInvalidState(rowEl);
+
+    const boundEls = this._boundElsCache.get(rowEl) || [];
+    this._applyBindingsOptimized(
+      boundEls,
+      this._data[rowIndex],
+      this._computeRow(this._data[rowIndex], rowIndex)
+    );
+
+    this._currentEditIndex = null;
+    this._setRowMode(rowEl, 'display');
+    this._updateAddButton();
+    this._updateDirtyState();
+    if (wasChecked && !this._validateEditRow(rowEl, false)) {
+      this._invalidRows.add(rowEl);
+    }
+    this._refreshValidity();
+
+    const afterEvent = new CustomEvent('aftertogglemode', {
+      detail: { mode: 'display', rowIndex },
+      bubbles: true,
+      composed: true,
+    });
+    this.dispatchEvent(afterEvent);
+
+    // Announce cancel for screen readers (Feature 4.2)
+    this._announceAction(`Canceled edits for item ${rowIndex + 1}`);
+
+    // Restore focus to edit button (Feature 4.3)
+    const editButton = rowEl.querySelector(
+      '[data-action="toggle"]'
+    ) as HTMLElement | null;
+    editButton?.focus();
+
+    // Update form value after cancel
+    this._updateFormValueFromControls();
+  }
+
+  /**
+   * Appends a new row built from `newItem` and opens it in edit mode as a
+   * draft. Cancelling a draft discards the row instead of restoring it.
+   */
+  private _addDraftRow() {
+    if (!this.allowAdd || this.readonly || !this._canAddRows()) return;
+    if (this._currentEditIndex !== null || this._isAnimating) return;
+
+    const rowIndex = this._data.length;
+    const detail = { rowIndex, rowData: this._createNewItem(rowIndex) };
+
+    // Listeners may adjust detail.rowData before the row is created
+    const beforeEvent = new CustomEvent('beforeadd', {
+      detail,
+      bubbles: true,
+      composed: true,
+      cancelable: true,
+    });
+    this.dispatchEvent(beforeEvent);
+    if (beforeEvent.defaultPrevented) return;
+
+    const rowData = this._cloneValue(detail.rowData);
+    this._insertRowAt(rowIndex, rowData);
+    this._setEditState(rowData, rowIndex, {
+      editing: true,
+      originalSnapshot: this._cloneValue(rowData),
+      draft: true,
+    });
+    this._currentEditIndex = rowIndex;
+    this._renderRowAt(rowIndex);
+    this._updateAddButton();
+    this._updateDirtyState();
+
+    const rowEl = this._rowsHostEl?.querySelectorAll('[data-row]')[rowIndex] as
+      | HTMLElement
+      | undefined;
+    if (rowEl) {
+      this._focusFirstInput(rowEl);
+    }
+
+    this.dispatchEvent(
+      new CustomEvent('afteradd', {
+        detail: { rowIndex, rowData: this._cloneValue(rowData) },
+        bubbles: true,
+        composed: true,
+      })
+    );
+
+    this._announceAction(`Adding item ${rowIndex + 1}`);
+  }
+
+  private _createNewItem(index: number): unknown {
+    const template = this._newItem;
+    if (typeof template === 'function') {
+      return (template as NewItemFactory)(index, this._deepClone(this._data));
+    }
+    return this._cloneValue(template);
+  }
+
+  private _discardDraftRow(rowIndex: number) {
+    this._removeRowAt(rowIndex);
+    this._updateAddButton();
+    this._updateDirtyState();
+    this._addButtonEl?.focus();
+    this._announceAction('Discarded new item');
+  }
+
+  private _toggleDeleteRow(rowEl: HTMLElement, rowIndex: number) {
+    if (this.readonly) return;
+    if (this._savingRows.has(rowEl)) return;
+    if (!this._isValidRowIndex(rowIndex)) return;
+    const rowData = this._data[rowIndex];
+
+    // Toggle isDeleted property
+    const isCurrentlyDeleted = this._isRowDeleted(rowData, rowIndex);
+    if (isCurrentlyDeleted ? !this._canAddRows() : !this._canRemoveRows()) {
+      return;
+    }
+    if (
+      !this._dispatchBeforeRowEvent(
+        isCurrentlyDeleted ? 'beforerestore' : 'beforedelete',
+        rowIndex
+      )
+    ) {
+      return;
+    }
+    if (this.deleteMode === 'hard' && !isCurrentlyDeleted) {
+      this._hardDeleteRow(rowEl, rowIndex);
+      return;
+    }
+    const newDeletedState = !isCurrentlyDeleted;
+    const historyBefore = this._historyCheckpoint();
+
+    // Add isDeleted property to data if it doesn't exist
+    this._setRowDeleted(rowData, rowIndex, newDeletedState);
+    this._commitChange(historyBefore, rowIndex);
+
+    // Update button text and aria-label
+    const deleteButton = rowEl.querySelector(
+      '[data-action="delete"]'
+    ) as HTMLButtonElement | null;
+    if (deleteButton) {
+      if (newDeletedState) {
+        deleteButton.textContent = this._getButtonRestoreText();
+        deleteButton.setAttribute('aria-label', `Restore item ${rowIndex + 1}`);
+      } else {
+        deleteButton.textContent = this._getButtonDeleteText();
+        deleteButton.setAttribute('aria-label', `Delete item ${rowIndex + 1}`);
+      }
+    }
+
+    // Update edit button disabled state
+    const editButton = rowEl.querySelector(
+      '[data-action="toggle"]'
+    ) as HTMLButtonElement | null;
+    if (editButton) {
+      editButton.disabled = newDeletedState;
+    }
+
+    // Update checkbox state
+    this._syncDeletedCheckbox(rowEl, newDeletedState);
+
+    // Toggle ck-deleted class on row
+    rowEl.classList.toggle('ck-deleted', newDeletedState);
+
+    // Dispatch events
+    this._dispatchRowChanged(rowIndex, [this.deletedField]);
+
+    // Dispatch datachanged based on mode (not triggered by a real event, so check mode directly)
+    this._dispatchDataChangedForMode();
+
+    // Update form value
+    this._updateFormValueFromControls();
+  }
+
+  /**
+   * Removes a row from the array (delete-mode="hard"), animating it out
+   * unless the user prefers reduced motion.
+   */
+  private _hardDeleteRow(rowEl: HTMLElement, rowIndex: number) {
+    if (this._isAnimating) return;
+
+    const prefersReducedMotion =
+      window.matchMedia &&
+      window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+
+    if (prefersReducedMotion) {
+      this._completeHardDelete(rowIndex);
+      return;
+    }
+
+    this._isAnimating = true;
+    rowEl.classList.add('ck-removing');
+
+    // A re-render or disconnect cancels this timer, so the row element still
+    // shows the row being removed and its data-row is current
+    this._animationTimerId = window.setTimeout(() => {
+      this._animationTimerId = null;
+      this._isAnimating = false;
+      rowEl.classList.remove('ck-removing');
+
+      // Guard: don't execute if disconnected or the row element was dropped
+      if (!this.isConnected || !rowEl.isConnected) return;
+
+      this._completeHardDelete(Number(rowEl.getAttribute('data-row')));
+    }, CkEditableArray.ANIMATION_DURATION);
+  }
+
+  private _completeHardDelete(rowIndex: number) {
+    if (!this._isValidRowIndex(rowIndex)) return;
+
+    const historyBefore = this._historyCheckpoint();
+    const removed = this._removeRowAt(rowIndex);
+    this._commitChange(historyBefore);
+
+    this.dispatchEvent(
+      new CustomEvent('rowremoved', {
+        detail: { index: rowIndex, row: this._cloneValue(removed) },
+        bubbles: true,
+        composed: true,
+      })
+    );
+    this._dispatchDataChangedForMode();
+
+    this._announceAction(`Deleted item ${rowIndex + 1}`);
+
+    // Move focus to the row that took its place (or the new last row)
+    const rows = this._rowsHostEl?.querySelectorAll('[data-row]');
+    if (rows && rows.length > 0) {
+      (rows[Math.min(rowIndex, rows.length - 1)] as HTMLElement).focus();
+    }
+  }
+
+  private _syncDeletedCheckbox(rowEl: HTMLElement, isDeleted: boolean) {
+    const checkbox = rowEl.querySelector(
+      'input[data-deleted-flag]'
+    ) as HTMLInputElement | null;
+    if (checkbox) {
+      checkbox.checked = isDeleted;
+    }
+  }
+
+  private _sanitizeClone(fragment: DocumentFragment): DocumentFragment {
+    // Remove <script> tags
+    const scripts = fragment.querySelectorAll('script');
+    scripts.forEach(script => script.remove());
+
+    const allElements = fragment.querySelectorAll('*');
+    allElements.forEach(el => {
+      const attributes = el.getAttributeNames();
+      attributes.forEach(attr => {
+        if (this._isUnsafeAttribute(attr, el.getAttribute(attr) || '')) {
+          el.removeAttribute(attr);
+        }
+      });
+    });
+
+    return fragment;
+  }
+
+  /**
+   * True for on* event handlers, attributes that can contain executable
+   * HTML, and URL attributes with a script-capable protocol.
+   */
+  private _isUnsafeAttribute(name: string, value: string): boolean {
+    const lower = name.toLowerCase();
+    if (lower.startsWith('on')) return true;
+    if (DANGEROUS_ATTRS.includes(lower)) return true;
+    return URL_ATTRS.includes(lower) && DANGEROUS_URL_PATTERN.test(value);
+  }
+
+  /**
+   * Stricter check for values bound from row data, which the page author
+   * does not control: URL attributes and properties only take http(s),
+   * mailto and tel URLs or relative ones (each candidate of a srcset).
+   */
+  private _isUnsafeBoundValue(
+    el: Element,
+    name: string,
+    value: string
+  ): boolean {
+    if (this._isUnsafeAttribute(name, value)) return true;
+    const lower = name.toLowerCase();
+    const isUrl =
+      BOUND_URL_ATTRS.includes(lower) ||
+      (lower === 'data' && el.localName === 'object');
+    if (!isUrl) return false;
+    const urls =
+      lower === 'srcset'
+        ? value.split(',').map(candidate => candidate.trim().split(/\s+/)[0])
+        : [value];
+    return urls.some(url => {
+      const scheme = urlScheme(url);
+      return scheme !== null && !SAFE_URL_SCHEMES.includes(scheme);
+    });
+  }
+
+  private _getEditState(rowData: unknown, rowIndex: number): EditState | null {
+    if (typeof rowData === 'object' && rowData !== null) {
+      return this._editStateMap.get(rowData) || null;
+    } else {
+      // For primitives, use parallel array
+      return this._primitiveEditState[rowIndex] || null;
+    }
+  }
+
+  /**
+   * Apply button semantics (aria-labels, disabled states) for a row.
+   * Shared helper to avoid divergence between _renderRow and _updateRowIndexAndButtons.
+   */
+  private _applyButtonSemantics(
+    rowEl: HTMLElement,
+    index: number,
+    rowData: unknown
+  ): void {
+    const itemNumber = index + 1;
+    const isDeleted = this._isRowDeleted(rowData, index);
+
+    // Edit/Save/Cancel/Delete buttons
+    const editButton = rowEl.querySelector(
+      '[data-action="toggle"]'
+    ) as HTMLButtonElement | null;
+    const saveButton = rowEl.querySelector(
+      '[data-action="save"]'
+    ) as HTMLButtonElement | null;
+    const cancelButton = rowEl.querySelector(
+      '[data-action="cancel"]'
+    ) as HTMLButtonElement | null;
+    const deleteButton = rowEl.querySelector(
+      '[data-action="delete"]'
+    ) as HTMLButtonElement | null;
+
+    if (editButton) {
+      editButton.setAttribute('aria-label', `Edit item ${itemNumber}`);
+      editButton.disabled = isDeleted || this.readonly;
+    }
+    if (saveButton) {
+      saveButton.setAttribute('aria-label', `Save item ${itemNumber}`);
+      saveButton.disabled = this.readonly;
+    }
+    if (cancelButton) {
+      cancelButton.setAttribute(
+        'aria-label',
+        `Cancel edits for item ${itemNumber}`
+      );
+    }
+    if (deleteButton) {
+      // Drafts are discarded with cancel rather than soft-deleted; rows
+      // cannot be deleted below min-rows or restored above max-rows
+      deleteButton.disabled =
+        this.readonly ||
+        !!this._getEditState(rowData, index)?.draft ||
+        (isDeleted ? !this._canAddRows() : !this._canRemoveRows());
+      if (isDeleted) {
+        deleteButton.textContent = this._getButtonRestoreText();
+        deleteButton.setAttribute('aria-label', `Restore item ${itemNumber}`);
+      } else {
+        deleteButton.textContent = this._getButtonDeleteText();
+        deleteButton.setAttribute('aria-label', `Delete item ${itemNumber}`);
+      }
+    }
+
+    // Move up/down buttons
+    const moveUpButton = rowEl.querySelector(
+      '[data-action="move-up"]'
+    ) as HTMLButtonElement | null;
+    const moveDownButton = rowEl.querySelector(
+      '[data-action="move-down"]'
+    ) as HTMLButtonElement | null;
+
+    if (moveUpButton) {
+      moveUpButton.setAttribute('aria-label', `Move item ${itemNumber} up`);
+      moveUpButton.disabled =
+        index === 0 || this.readonly || !this.allowReorder;
+    }
+    if (moveDownButton) {
+      moveDownButton.setAttribute('aria-label', `Move item ${itemNumber} down`);
+      moveDownButton.disabled =
+        index === this._data.length - 1 || this.readonly || !this.allowReorder;
+    }
+  }
+
+  private _setEditState(
+    rowData: unknown,
+    rowIndex: number,
+    state: EditState | null
+  ): void {
+    if (typeof rowData === 'object' && rowData !== null) {
+      if (state === null) {
+        this._editStateMap.delete(rowData);
+      } else {
+        this._editStateMap.set(rowData, state);
+      }
+    } else {
+      // For primitives, use parallel array
+      this._primitiveEditState[rowIndex] = state;
+    }
+  }
+
+  private _isRowEditing(rowData: unknown, rowIndex: number): boolean {
+    const editState = this._getEditState(rowData, rowIndex);
+    if (editState?.editing) return true;
+    return this._currentEditIndex === rowIndex;
+  }
+
+  private _isRowDeleted(rowData: unknown, rowIndex: number): boolean {
+    if (typeof rowData === 'object' && rowData !== null) {
+      return this._resolvePath(rowData, this.deletedField) === true;
+    }
+    // For primitives, use parallel array
+    return this._primitiveDeletedState[rowIndex] === true;
+  }
+
+  private _setRowDeleted(
+    rowData: unknown,
+    rowIndex: number,
+    deleted: boolean
+  ): void {
+    if (typeof rowData === 'object' && rowData !== null) {
+      this._setNestedPath(rowData, this.deletedField, deleted);
+    } else {
+      this._primitiveDeletedState[rowIndex] = deleted;
+    }
+  }
+
+  private _setRowMode(rowEl: HTMLElement, mode: 'display' | 'edit') {
+    rowEl.setAttribute('data-mode', mode);
+    const displayWrapper = rowEl.querySelector(
+      '.display-content'
+    ) as HTMLElement | null;
+    const editWrapper = rowEl.querySelector(
+      '.edit-content'
+    ) as HTMLElement | null;
+    if (displayWrapper) {
+      displayWrapper.classList.toggle('ck-hidden', mode === 'edit');
+    }
+    if (editWrapper) {
+      editWrapper.classList.toggle('ck-hidden', mode !== 'edit');
+    }
+    const editButton = rowEl.querySelector(
+      '[data-action="toggle"]'
+    ) as HTMLElement | null;
+    const saveButton = rowEl.querySelector(
       '[data-action="save"]'
     ) as HTMLElement | null;
-    const cancelButton = rowEl.querySelector(
-      '[data-action="cancel"]'
+    const cancelButton = rowEl.querySelector(
+      '[data-action="cancel"]'
+    ) as HTMLElement | null;
+    if (editButton) {
+      editButton.classList.toggle('ck-hidden', mode === 'edit');
+      // Update aria-expanded based on mode (Feature 4.1)
+      editButton.setAttribute(
+        'aria-expanded',
+        mode === 'edit' ? 'true' : 'false'
+      );
+    }
+    if (saveButton) {
+      saveButton.classList.toggle('ck-hidden', mode !== 'edit');
+    }
+    if (cancelButton) {
+      cancelButton.classList.toggle('ck-hidden', mode !== 'edit');
+    }
+    // Hide move buttons when in edit mode (same behavior as drag and drop)
+    const moveUpButton = rowEl.querySelector(
+      '[data-action="move-up"]'
+    ) as HTMLElement | null;
+    const moveDownButton = rowEl.querySelector(
+      '[data-action="move-down"]'
+    ) as HTMLElement | null;
+    if (moveUpButton) {
+      moveUpButton.classList.toggle('ck-hidden', mode === 'edit');
+    }
+    if (moveDownButton) {
+      moveDownButton.classList.toggle('ck-hidden', mode === 'edit');
+    }
+  }
+
+  private _focusFirstInput(rowEl: HTMLElement) {
+    const firstInput = rowEl.querySelector(
+      '.edit-content input, .edit-content select, .edit-content textarea'
+    ) as HTMLElement | null;
+    firstInput?.focus();
+  }
+
+  private _updateFormValueFromControls(): void {
+    const fd = this._collectFormData();
+
+    // Update the form value via ElementInternals
+    // Check if setFormValue exists (may not in test environments like jsdom)
+    if (typeof this._internals.setFormValue === 'function') {
+      this._internals.setFormValue(fd);
+    }
+  }
+
+  /**
+   * Form entries of the shadow DOM controls and of nested arrays.
+   */
+  private _collectFormData(): FormData {
+    const fd = new FormData();
+
+    // Query all form controls in shadow DOM
+    const controls = this.shadow.querySelectorAll(
+      'input, select, textarea'
+    ) as NodeListOf<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>;
+
+    const excludeDeleted = this.excludeDeleted;
+
+    controls.forEach(control => {
+      // Skip disabled controls
+      if (control.disabled) return;
+
+      // Skip controls of soft-deleted rows when exclude-deleted is set
+      if (excludeDeleted && control.closest('[data-row].ck-deleted')) return;
+
+      // Get the name attribute (native-like behavior: skip if no name)
+      const key = control.getAttribute('name');
+      if (!key) return;
+
+      // Apply native inclusion rules based on control type
+      if (control instanceof HTMLInputElement) {
+        if (control.type === 'checkbox') {
+          // Checkbox: include only if checked
+          if (control.checked) {
+            const value = control.value || 'on';
+            fd.append(key, value);
+          }
+        } else if (control.type === 'radio') {
+          // Radio: include only if checked
+          if (control.checked) {
+            fd.append(key, control.value);
+          }
+        } else {
+          // All other input types: include value
+          fd.append(key, control.value);
+        }
+      } else if (control instanceof HTMLSelectElement) {
+        if (control.multiple) {
+          // Multiple select: append each selected option
+          Array.from(control.selectedOptions).forEach(option => {
+            fd.append(key, option.value);
+          });
+        } else {
+          // Single select: append value
+          fd.append(key, control.value);
+        }
+      } else if (control instanceof HTMLTextAreaElement) {
+        // Textarea: append value
+        fd.append(key, control.value);
+      }
+    });
+
+    // Nested arrays have no form owner inside the shadow DOM. When both the
+    // display and edit template contain one, the visible copy is used.
+    const nestedArrays = (
+      Array.from(this.shadow.querySelectorAll(this.localName)) as HTMLElement[]
+    ).sort(
+      (a, b) =>
+        Number(!!a.closest('.ck-hidden')) - Number(!!b.closest('.ck-hidden'))
+    );
+    const nestedNames = new Set<string>();
+    nestedArrays.forEach(nested => {
+      if (!(nested instanceof CkEditableArray)) return;
+      if (excludeDeleted && nested.closest('[data-row].ck-deleted')) return;
+      const name = nested.getAttribute('name') || '';
+      if (nestedNames.has(name)) return;
+      nestedNames.add(name);
+      nested._collectFormData().forEach((value, key) => fd.append(key, value));
+    });
+
+    return fd;
+  }
+
+  // FACE callback: called when the form is disabled/enabled
+  formDisabledCallback(disabled: boolean): void {
+    // Disable/enable all internal form controls
+    const controls = this.shadow.querySelectorAll(
+      'input, select, textarea'
+    ) as NodeListOf<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>;
+
+    controls.forEach(control => {
+      control.disabled = disabled;
+    });
+
+    // Update form value after state change
+    this._updateFormValueFromControls();
+  }
+
+  // FACE callback: called when the form is reset
+  formResetCallback(): void {
+    // Restore data to initial state
+    this._data = this._deepClone(this._initialData);
+    this._currentEditIndex = null;
+    this._primitiveEditState = [];
+    this._primitiveDeletedState = this._initialPrimitiveDeleted.slice();
+
+    // Re-render with restored data
+    if (this.isConnected) {
+      this.render();
+    }
+    this._refreshValidity();
+
+    // Update form value after reset
+    this._updateFormValueFromControls();
+  }
+
+  // Drag and drop handlers
+  private _handleDragStart(event: DragEvent): void {
+    const rowEl = event.target as HTMLElement;
+    if (!rowEl?.hasAttribute('data-row')) return;
+
+    // Block drag if readonly, editing, or reordering disabled
+    if (
+      this.readonly ||
+      this._currentEditIndex !== null ||
+      !this.allowReorder
+    ) {
+      event.preventDefault();
+      return;
+    }
+
+    const rowIndex = Number(rowEl.getAttribute('data-row'));
+    if (!Number.isFinite(rowIndex)) return;
+
+    this._dragSourceIndex = rowIndex;
+    rowEl.classList.add('ck-dragging');
+
+    if (event.dataTransfer) {
+      event.dataTransfer.effectAllowed = 'move';
+      event.dataTransfer.setData('text/plain', String(rowIndex));
+    }
+  }
+
+  private _handleDragOver(event: DragEvent): void {
+    event.preventDefault();
+
+    const rowEl = (event.target as HTMLElement)?.closest(
+      '[data-row]'
+    ) as HTMLElement | null;
+    if (!rowEl) return;
+
+    // Block if readonly
+    if (this.readonly) return;
+
+    rowEl.classList.add('ck-drag-over');
+
+    if (event.dataTransfer) {
+      event.dataTransfer.dropEffect = 'move';
+    }
+  }
+
+  private _handleDragLeave(event: DragEvent): void {
+    const rowEl = (event.target as HTMLElement)?.closest(
+      '[data-row]'
     ) as HTMLElement | null;
-    if (editButton) {
-      editButton.classList.toggle('ck-hidden', mode === 'edit');
-      // Update aria-expanded based on mode (Feature 4.1)
-      editButton.setAttribute(
-        'aria-expanded',
-        mode === 'edit' ? 'true' : 'false'
-      );
+    if (!rowEl) return;
+
+    rowEl.classList.remove('ck-drag-over');
+  }
+
+  private _handleDrop(event: DragEvent): void {
+    event.preventDefault();
+
+    const targetRowEl = (event.target as HTMLElement)?.closest(
+      '[data-row]'
+    ) as HTMLElement | null;
+    if (!targetRowEl) return;
+
+    // Block if readonly
+    if (this.readonly) {
+      this._clearDragClasses();
+      return;
+    }
+
+    const fromIndex = this._dragSourceIndex;
+    const toIndex = Number(targetRowEl.getAttribute('data-row'));
+
+    // Validate indices
+    if (
+      fromIndex === null ||
+      !Number.isFinite(toIndex) ||
+      fromIndex === toIndex ||
+      fromIndex < 0 ||
+      fromIndex >= this._data.length ||
+      toIndex < 0 ||
+      toIndex >= this._data.length
+    ) {
+      this._clearDragClasses();
+      return;
+    }
+
+    if (!this._dispatchBeforeRowEvent('beforereorder', fromIndex, toIndex)) {
+      this._dragSourceIndex = null;
+      this._clearDragClasses();
+      return;
+    }
+
+    // Perform the reorder
+    this._reorderData(fromIndex, toIndex);
+
+    // Clear drag state
+    this._dragSourceIndex = null;
+    this._clearDragClasses();
+  }
+
+  private _handleDragEnd(event: DragEvent): void {
+    const rowEl = event.target as HTMLElement;
+    if (rowEl) {
+      rowEl.classList.remove('ck-dragging');
+    }
+    this._dragSourceIndex = null;
+    this._clearDragClasses();
+  }
+
+  private _clearDragClasses(): void {
+    const rows = this._rowsHostEl?.querySelectorAll('[data-row]');
+    rows?.forEach(row => {
+      row.classList.remove('ck-dragging', 'ck-drag-over');
+    });
+  }
+
+  /**
+   * Dispatches a cancelable before* event for a row action.
+   * Returns false if a listener called preventDefault().
+   */
+  private _dispatchBeforeRowEvent(
+    type: 'beforedelete' | 'beforerestore' | 'beforereorder',
+    rowIndex: number,
+    targetIndex?: number
+  ): boolean {
+    const detail: Record<string, unknown> = {
+      rowIndex,
+      rowData: this._cloneValue(this._data[rowIndex]),
+    };
+    if (targetIndex !== undefined) {
+      detail.targetIndex = targetIndex;
+    }
+
+    const event = new CustomEvent(type, {
+      detail,
+      bubbles: true,
+      composed: true,
+      cancelable: true,
+    });
+    this.dispatchEvent(event);
+    return !event.defaultPrevented;
+  }
+
+  private _reorderData(fromIndex: number, toIndex: number): void {
+    const historyBefore = this._historyCheckpoint();
+
+    // Remove the item from its original position
+    const [movedItem] = this._data.splice(fromIndex, 1);
+
+    // Insert it at the new position
+    this._data.splice(toIndex, 0, movedItem);
+    this._moveIndexedState(fromIndex, toIndex);
+
+    // Update DOM without full re-render, before committing so row marks
+    // land on the rows in their new order
+    this._updateRowIndicesAfterReorder(fromIndex, toIndex);
+    this._commitChange(historyBefore);
+
+    // Dispatch reorder event
+    this.dispatchEvent(
+      new CustomEvent('reorder', {
+        detail: {
+          fromIndex,
+          toIndex,
+          data: this._deepClone(this._data),
+        },
+        bubbles: true,
+        composed: true,
+      })
+    );
+
+    // Dispatch datachanged event
+    this._dispatchDataChanged();
+
+    // Announce the reorder for accessibility
+    const message = `Moved item from position ${fromIndex + 1} to ${toIndex + 1}`;
+    this._announceAction(message);
+  }
+
+  private _updateRowIndicesAfterReorder(
+    fromIndex: number,
+    toIndex: number
+  ): void {
+    const rowsHost = this._rowsHostEl;
+    if (!rowsHost) return;
+
+    const rows = Array.from(rowsHost.querySelectorAll('[data-row]'));
+    if (rows.length === 0) return;
+
+    const fromRow = rows[fromIndex] as HTMLElement;
+    const toRow = rows[toIndex] as HTMLElement;
+
+    if (!fromRow || !toRow) return;
+
+    // Move the DOM element to its new position
+    if (fromIndex < toIndex) {
+      // Moving down: insert after toRow
+      toRow.parentNode?.insertBefore(fromRow, toRow.nextSibling);
+    } else {
+      // Moving up: insert before toRow
+      toRow.parentNode?.insertBefore(fromRow, toRow);
+    }
+
+    // After moving DOM elements, re-query in new DOM order and update all indices
+    const updatedRows = Array.from(rowsHost.querySelectorAll('[data-row]'));
+    updatedRows.forEach((row, index) => {
+      this._updateRowIndexAndButtons(row as HTMLElement, index);
+    });
+
+    // Keep form value in sync with new ordering
+    this._updateFormValueFromControls();
+  }
+
+  private _updateRowIndexAndButtons(rowEl: HTMLElement, index: number): void {
+    rowEl.setAttribute('data-row', String(index));
+    rowEl.setAttribute('data-form-row-index', String(index));
+
+    const rowData = this._data[index];
+    const boundEls = this._boundElsCache.get(rowEl) || [];
+
+    // Refresh form control name/id to reflect new index
+    this._setFormControlAttributes(boundEls, index);
+    this._applyFormSemanticsOptimized(rowEl, boundEls, rowData, index);
+
+    // Update all button aria-labels and disabled states
+    this._applyButtonSemantics(rowEl, index, rowData);
+    if (this._savingRows.has(rowEl)) {
+      this._setRowSaving(rowEl, true);
+    }
+  }
+
+  // Public validation methods (form-associated custom element API)
+
+  /**
+   * The validity last reported: row count limits, failed saves, rows that
+   * failed validateAll() and collection issues.
+   */
+  get validity(): ValidityState {
+    const flags = this._validityFlags;
+    return {
+      badInput: !!flags.badInput,
+      customError: !!flags.customError,
+      patternMismatch: !!flags.patternMismatch,
+      rangeOverflow: !!flags.rangeOverflow,
+      rangeUnderflow: !!flags.rangeUnderflow,
+      stepMismatch: !!flags.stepMismatch,
+      tooLong: !!flags.tooLong,
+      tooShort: !!flags.tooShort,
+      typeMismatch: !!flags.typeMismatch,
+      valueMissing: !!flags.valueMissing,
+      valid: !Object.values(flags).some(Boolean),
+    };
+  }
+
+  get validationMessage(): string {
+    return this._validationMessage;
+  }
+
+  /**
+   * False when the element is barred from constraint validation, e.g. while
+   * it is readonly.
+   */
+  get willValidate(): boolean {
+    if (typeof this._internals.willValidate === 'boolean') {
+      return this._internals.willValidate;
     }
-    if (saveButton) {
-      saveButton.classList.toggle('ck-hidden', mode !== 'edit');
+    return !this.readonly;
+  }
+
+  /**
+   * Returns true when the component is valid; otherwise fires a cancelable
+   * `invalid` event and returns false.
+   */
+  checkValidity(): boolean {
+    if (typeof this._internals.checkValidity === 'function') {
+      return this._internals.checkValidity();
     }
-    if (cancelButton) {
-      cancelButton.classList.toggle('ck-hidden', mode !== 'edit');
+    if (!this.willValidate || this.validity.valid) return true;
+    this.dispatchEvent(new Event('invalid', { cancelable: true }));
+    return false;
+  }
+
+  /**
+   * Like checkValidity(), but also shows the problem to the user: the
+   * browser's message at the first problem's control, row or add button.
+   */
+  reportValidity(): boolean {
+    if (typeof this._internals.reportValidity === 'function') {
+      return this._internals.reportValidity();
     }
-    // Hide move buttons when in edit mode (same behavior as drag and drop)
-    const moveUpButton = rowEl.querySelector(
-      '[data-action="move-up"]'
-    ) as HTMLElement | null;
-    const moveDownButton = rowEl.querySelector(
-      '[data-action="move-down"]'
-    ) as HTMLElement | null;
-    if (moveUpButton) {
-      moveUpButton.classList.toggle('ck-hidden', mode === 'edit');
+    if (!this.willValidate || this.validity.valid) return true;
+    const invalidEvent = new Event('invalid', { cancelable: true });
+    this.dispatchEvent(invalidEvent);
+    if (!invalidEvent.defaultPrevented) {
+      this._validityAnchor?.focus();
     }
-    if (moveDownButton) {
-      moveDownButton.classList.toggle('ck-hidden', mode === 'edit');
+    return false;
+  }
+
+  /**
+   * Checks every non-deleted row against the constraints of the edit
+   * template (and unique-fields, the collection validator and the row count
+   * limits) without opening the rows. Invalid rows get `ck-invalid` and
+   * their data-error-for messages. Custom validators run on save only.
+   * Returns true when the whole component is valid.
+   */
+  validateAll(): boolean {
+    this._rowsHostEl?.querySelectorAll('[data-row]').forEach((row, index) => {
+      const rowEl = row as HTMLElement;
+      if (
+        this._isRowDeleted(this._data[index], index) ||
+        this._validateEditRow(rowEl, false)
+      ) {
+        if (this._invalidRows.has(rowEl)) this._clearInvalidState(rowEl);
+        return;
+      }
+      this._invalidRows.add(rowEl);
+      rowEl.classList.add('ck-invalid');
+      rowEl.setAttribute('aria-invalid', 'true');
+    });
+    this._refreshValidity();
+    return this.validity.valid;
+  }
+
+  // Public dirty tracking methods
+
+  /**
+   * True when the committed data differs from the initial data (or the data
+   * at the last markPristine() call).
+   */
+  get isDirty(): boolean {
+    return this._dirtyCount > 0;
+  }
+
+  /**
+   * Rows added, modified, deleted (soft or hard) and moved since the
+   * initial data. Rows are matched by key-field, or by position without one.
+   */
+  getChanges(): ChangeSet {
+    const { changes } = this._computeChanges();
+    return {
+      added: this._deepClone(changes.added),
+      modified: this._deepClone(changes.modified),
+      deleted: this._deepClone(changes.deleted),
+      moved: changes.moved,
+    };
+  }
+
+  /**
+   * Makes the current committed data the new baseline for dirty tracking
+   * and form reset.
+   */
+  markPristine(): void {
+    const committed = this._captureCommittedState();
+    this._initialData = committed.data;
+    this._initialPrimitiveDeleted = committed.primitiveDeleted;
+    this._initialDataCaptured = true;
+    this._updateDirtyState();
+  }
+
+  private _updateDirtyState(): void {
+    // Runs after every data change, so header and footer totals follow it
+    this._updateSummaries();
+
+    const { rowStates, removedCount, draftIndex } = this._computeChanges();
+    this._rowDirtyStates = rowStates;
+    this._dirtyCount =
+      removedCount + rowStates.filter(state => state.dirty).length;
+
+    const rows = this._rowsHostEl?.querySelectorAll('[data-row]');
+    rows?.forEach((row, index) => {
+      // The draft row itself is new; later rows are shifted by it
+      const committedIndex =
+        draftIndex === null || index < draftIndex
+          ? index
+          : index === draftIndex
+            ? null
+            : index - 1;
+      const state = committedIndex === null ? null : rowStates[committedIndex];
+      this._applyRowDirtyState(row as HTMLElement, index, state);
+    });
+    this._updateDirtyCustomState();
+  }
+
+  /**
+   * Re-checks one row after a change that did not add, remove or move rows,
+   * instead of comparing the whole array. Falls back to _updateDirtyState()
+   * while a draft row shifts the committed indices, or when a changed key
+   * would match the row to another baseline row.
+   */
+  private _updateRowDirtyState(rowIndex: number, rowEl?: HTMLElement): void {
+    const state = this._rowDirtyStates[rowIndex];
+    const rowData = this._data[rowIndex];
+    const editState =
+      rowIndex === this._currentEditIndex
+        ? this._getEditState(rowData, rowIndex)
+        : null;
+    const committedRow = editState ? editState.originalSnapshot : rowData;
+    if (
+      !state ||
+      this._rowDirtyStates.length !== this._data.length ||
+      (this.keyField && this._getRowKey(committedRow) !== state.key)
+    ) {
+      this._updateDirtyState();
+      return;
     }
+
+    this._updateSummaries();
+    const dirty =
+      state.moved ||
+      (state.baseIndex === null
+        ? !this._isDeletedIn(
+            committedRow,
+            rowIndex,
+            this._primitiveDeletedState
+          )
+        : this._compareWithBaseline(
+            committedRow,
+            rowIndex,
+            this._primitiveDeletedState,
+            state.baseIndex
+          ) !== null);
+    this._dirtyCount += Number(dirty) - Number(state.dirty);
+    state.dirty = dirty;
+
+    const row =
+      rowEl ??
+      (this._rowsHostEl?.querySelectorAll('[data-row]')[rowIndex] as
+        | HTMLElement
+        | undefined);
+    if (row) this._applyRowDirtyState(row, rowIndex, state);
+    this._updateDirtyCustomState();
   }
 
-  private _focusFirstInput(rowEl: HTMLElement) {
-    const firstInput = rowEl.querySelector(
-      '.edit-content input, .edit-content select, .edit-content textarea'
-    ) as HTMLElement | null;
-    firstInput?.focus();
+  /**
+   * Sets data-dirty on a row (state is null for the draft row) and marks
+   * its changed fields.
+   */
+  private _applyRowDirtyState(
+    rowEl: HTMLElement,
+    index: number,
+    state: RowDirtyState | null
+  ): void {
+    rowEl.toggleAttribute('data-dirty', !state || state.dirty);
+
+    // The row being edited compares against its edit snapshot
+    const rowData = this._data[index];
+    const editState =
+      index === this._currentEditIndex
+        ? this._getEditState(rowData, index)
+        : null;
+    const reference = editState
+      ? editState.originalSnapshot
+      : !state || state.baseIndex === null
+        ? undefined
+        : this._initialData[state.baseIndex];
+    this._applyFieldDirtyState(rowEl, reference, rowData);
   }
 
-  private _updateFormValueFromControls(): void {
-    const fd = new FormData();
+  private _updateDirtyCustomState(): void {
+    // CustomStateSet: older Chromium only accepts the --dashed form
+    const states = (
+      this._internals as ElementInternals & { states?: Set<string> }
+    ).states;
+    if (!states) return;
+    const isDirty = this._dirtyCount > 0;
+    try {
+      if (isDirty) states.add('dirty');
+      else states.delete('dirty');
+    } catch {
+      if (isDirty) states.add('--dirty');
+      else states.delete('--dirty');
+    }
+  }
 
-    // Query all form controls in shadow DOM
-    const controls = this.shadow.querySelectorAll(
-      'input, select, textarea'
-    ) as NodeListOf<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>;
+  /**
+   * Compares the committed rows with the baseline. rowStates holds the
+   * dirty state of each committed row; removedCount counts baseline rows
+   * that are no longer present.
+   */
+  private _computeChanges(): {
+    changes: ChangeSet;
+    rowStates: RowDirtyState[];
+    removedCount: number;
+    draftIndex: number | null;
+  } {
+    const { data, primitiveDeleted, draftIndex } = this._getCommittedRows();
+    const baseline = this._initialData;
+    const changes: ChangeSet = {
+      added: [],
+      modified: [],
+      deleted: [],
+      moved: [],
+    };
+    const rowStates: RowDirtyState[] = data.map(row => ({
+      baseIndex: null,
+      key: this.keyField ? this._getRowKey(row) : null,
+      moved: false,
+      dirty: false,
+    }));
+    let removedCount = 0;
+
+    // Classifies a row present in both the baseline and the committed data
+    const compareRow = (baseIndex: number, index: number) => {
+      const row = data[index];
+      rowStates[index].baseIndex = baseIndex;
+      const change = this._compareWithBaseline(
+        row,
+        index,
+        primitiveDeleted,
+        baseIndex
+      );
+      if (change === null) return;
+      changes[change].push(row);
+      rowStates[index].dirty = true;
+    };
 
-    controls.forEach(control => {
-      // Skip disabled controls
-      if (control.disabled) return;
+    const addRow = (index: number) => {
+      // A row that was added and then deleted is not a change
+      if (this._isDeletedIn(data[index], index, primitiveDeleted)) return;
+      changes.added.push(data[index]);
+      rowStates[index].dirty = true;
+    };
 
-      // Get the name attribute (native-like behavior: skip if no name)
-      const key = control.getAttribute('name');
-      if (!key) return;
+    const removeBaseRow = (baseIndex: number) => {
+      const baseRow = baseline[baseIndex];
+      if (
+        this._isDeletedIn(baseRow, baseIndex, this._initialPrimitiveDeleted)
+      ) {
+        return;
+      }
+      changes.deleted.push(baseRow);
+      removedCount++;
+    };
 
-      // Apply native inclusion rules based on control type
-      if (control instanceof HTMLInputElement) {
-        if (control.type === 'checkbox') {
-          // Checkbox: include only if checked
-          if (control.checked) {
-            const value = control.value || 'on';
-            fd.append(key, value);
-          }
-        } else if (control.type === 'radio') {
-          // Radio: include only if checked
-          if (control.checked) {
-            fd.append(key, control.value);
-          }
-        } else {
-          // All other input types: include value
-          fd.append(key, control.value);
+    if (this.keyField) {
+      const baseIndexByKey = new Map<string, number>();
+      baseline.forEach((row, index) => {
+        const key = this._getRowKey(row);
+        if (key !== null && !baseIndexByKey.has(key)) {
+          baseIndexByKey.set(key, index);
         }
-      } else if (control instanceof HTMLSelectElement) {
-        if (control.multiple) {
-          // Multiple select: append each selected option
-          Array.from(control.selectedOptions).forEach(option => {
-            fd.append(key, option.value);
-          });
+      });
+
+      const matched: { key: string; fromIndex: number; toIndex: number }[] = [];
+      data.forEach((row, index) => {
+        const key = this._getRowKey(row);
+        const baseIndex = key === null ? undefined : baseIndexByKey.get(key);
+        if (key === null || baseIndex === undefined) {
+          addRow(index);
+          return;
+        }
+        // Duplicate keys: only the first occurrence is matched
+        baseIndexByKey.delete(key);
+        matched.push({ key, fromIndex: baseIndex, toIndex: index });
+        compareRow(baseIndex, index);
+      });
+      baseIndexByKey.forEach(baseIndex => removeBaseRow(baseIndex));
+      baseline.forEach((row, baseIndex) => {
+        if (this._getRowKey(row) === null) removeBaseRow(baseIndex);
+      });
+
+      // Rows outside the longest run that kept its relative order moved
+      const inOrder = this._longestIncreasingRun(
+        matched.map(entry => entry.fromIndex)
+      );
+      matched.forEach((entry, position) => {
+        if (inOrder.has(position)) return;
+        changes.moved.push(entry);
+        rowStates[entry.toIndex].moved = true;
+        rowStates[entry.toIndex].dirty = true;
+      });
+    } else {
+      const length = Math.max(baseline.length, data.length);
+      for (let index = 0; index < length; index++) {
+        if (index >= data.length) {
+          removeBaseRow(index);
+        } else if (index >= baseline.length) {
+          addRow(index);
         } else {
-          // Single select: append value
-          fd.append(key, control.value);
+          compareRow(index, index);
         }
-      } else if (control instanceof HTMLTextAreaElement) {
-        // Textarea: append value
-        fd.append(key, control.value);
       }
-    });
+    }
 
-    // Update the form value via ElementInternals
-    // Check if setFormValue exists (may not in test environments like jsdom)
-    if (typeof this._internals.setFormValue === 'function') {
-      this._internals.setFormValue(fd);
+    return { changes, rowStates, removedCount, draftIndex };
+  }
+
+  /**
+   * How a committed row differs from its matched baseline row: 'deleted'
+   * when it was deleted since, 'modified' when its values changed (or it
+   * was restored), null when it is unchanged.
+   */
+  private _compareWithBaseline(
+    row: unknown,
+    index: number,
+    primitiveDeleted: boolean[],
+    baseIndex: number
+  ): 'deleted' | 'modified' | null {
+    const baseRow = this._initialData[baseIndex];
+    const wasDeleted = this._isDeletedIn(
+      baseRow,
+      baseIndex,
+      this._initialPrimitiveDeleted
+    );
+    if (this._isDeletedIn(row, index, primitiveDeleted)) {
+      return wasDeleted ? null : 'deleted';
     }
+    return wasDeleted ||
+      !this._isEqual(
+        this._withoutDeletedFlag(baseRow),
+        this._withoutDeletedFlag(row)
+      )
+      ? 'modified'
+      : null;
   }
 
-  // FACE callback: called when the form is disabled/enabled
-  formDisabledCallback(disabled: boolean): void {
-    // Disable/enable all internal form controls
-    const controls = this.shadow.querySelectorAll(
-      'input, select, textarea'
-    ) as NodeListOf<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>;
+  private _isDeletedIn(row: unknown, index: number, flags: boolean[]): boolean {
+    return typeof row === 'object' && row !== null
+      ? this._resolvePath(row, this.deletedField) === true
+      : flags[index] === true;
+  }
 
-    controls.forEach(control => {
-      control.disabled = disabled;
+  /**
+   * Marks the bound elements of a row whose value differs from `reference`
+   * (undefined for rows without one, such as added rows) with data-dirty
+   * and the field-dirty part.
+   */
+  private _applyFieldDirtyState(
+    rowEl: HTMLElement,
+    reference: unknown,
+    rowData: unknown
+  ): void {
+    const changedPaths = this._diffPaths(
+      this._withoutDeletedFlag(reference),
+      this._withoutDeletedFlag(rowData)
+    );
+    const boundEls = this._boundElsCache.get(rowEl) || [];
+    boundEls.forEach(el => {
+      if (el.hasAttribute('data-deleted-flag')) return;
+      const bindPath = el.getAttribute('data-bind');
+      if (!bindPath) return;
+      // Changed paths are dotted, so `a[0].b` is compared as `a.0.b`; a
+      // changed primitive row is reported as `.`
+      const path = splitPath(bindPath).join('.') || '.';
+      // Bindings to a parent or child of a changed path are dirty too
+      const dirty = changedPaths.some(
+        changed =>
+          path === '.' ||
+          changed === path ||
+          changed.startsWith(`${path}.`) ||
+          path.startsWith(`${changed}.`)
+      );
+      el.toggleAttribute('data-dirty', dirty);
+      const parts = (el.getAttribute('part') || '')
+        .split(/\s+/)
+        .filter(part => part && part !== 'field-dirty');
+      if (dirty) parts.push('field-dirty');
+      if (parts.length > 0) {
+        el.setAttribute('part', parts.join(' '));
+      } else {
+        el.removeAttribute('part');
+      }
+    });
+  }
+
+  /**
+   * Dotted paths of the leaf values that differ between two row values.
+   * A missing side counts as empty; differing primitive rows give '.'.
+   */
+  private _diffPaths(before: unknown, after: unknown, prefix = ''): string[] {
+    if (this._isEqual(before, after)) return [];
+
+    const asContainer = (value: unknown): Record<string, unknown> | null => {
+      if (value === undefined) return {};
+      return typeof value === 'object' &&
+        value !== null &&
+        !(value instanceof Date)
+        ? (value as Record<string, unknown>)
+        : null;
+    };
+    const beforeContainer = asContainer(before);
+    const afterContainer = asContainer(after);
+    if (
+      !beforeContainer ||
+      !afterContainer ||
+      (before !== undefined &&
+        after !== undefined &&
+        Array.isArray(before) !== Array.isArray(after))
+    ) {
+      return [prefix || '.'];
+    }
+
+    const keys = Object.keys(beforeContainer).concat(
+      Object.keys(afterContainer).filter(
+        key => !Object.prototype.hasOwnProperty.call(beforeContainer, key)
+      )
+    );
+    const paths: string[] = [];
+    keys.forEach(key => {
+      paths.push(
+        ...this._diffPaths(
+          beforeContainer[key],
+          afterContainer[key],
+          prefix ? `${prefix}.${key}` : key
+        )
+      );
+    });
+    return paths;
+  }
+
+  /**
+   * Positions of a longest strictly increasing subsequence of values.
+   */
+  private _longestIncreasingRun(values: number[]): Set<number> {
+    const tails: number[] = [];
+    const previous: number[] = new Array(values.length).fill(-1);
+    values.forEach((value, position) => {
+      let low = 0;
+      let high = tails.length;
+      while (low < high) {
+        const mid = (low + high) >> 1;
+        if (values[tails[mid]] < value) low = mid + 1;
+        else high = mid;
+      }
+      if (low > 0) previous[position] = tails[low - 1];
+      tails[low] = position;
     });
 
-    // Update form value after state change
-    this._updateFormValueFromControls();
+    const run = new Set<number>();
+    let position = tails.length > 0 ? tails[tails.length - 1] : -1;
+    while (position !== -1) {
+      run.add(position);
+      position = previous[position];
+    }
+    return run;
+  }
+
+  /**
+   * Row without a false/missing soft-delete flag, so restoring a row does
+   * not count as a modification.
+   */
+  private _withoutDeletedFlag(row: unknown): unknown {
+    if (!this._isPlainObject(row)) return row;
+    const field = this.deletedField;
+    if (field.includes('.') || row[field] === true) return row;
+    const copy = { ...row };
+    delete copy[field];
+    return copy;
+  }
+
+  // Public history methods
+
+  /**
+   * Reverts the last recorded change. Returns false if there is nothing to
+   * undo or a row is being edited.
+   */
+  undo(): boolean {
+    return this._stepHistory(this._undoStack, this._redoStack, 'Undid');
+  }
+
+  /**
+   * Re-applies the last undone change. Returns false if there is nothing to
+   * redo or a row is being edited.
+   */
+  redo(): boolean {
+    return this._stepHistory(this._redoStack, this._undoStack, 'Redid');
+  }
+
+  private _stepHistory(
+    from: HistoryState[],
+    to: HistoryState[],
+    verb: string
+  ): boolean {
+    if (from.length === 0) return false;
+    if (this.readonly || this._currentEditIndex !== null || this._isAnimating) {
+      return false;
+    }
+
+    const state = from.pop() as HistoryState;
+    to.push(this._captureCommittedState());
+    this._restoreHistoryState(state);
+
+    this._dispatchHistoryChange();
+    this._announceAction(`${verb} last change`);
+    return true;
+  }
+
+  /**
+   * The committed rows (not cloned): the row being edited as it was before
+   * editing, without an unsaved draft row. draftIndex is the left-out row.
+   */
+  private _getCommittedRows(): HistoryState & { draftIndex: number | null } {
+    const data = this._data.slice();
+    const primitiveDeleted = this._primitiveDeletedState.slice();
+    let draftIndex: number | null = null;
+
+    const editIndex = this._currentEditIndex;
+    if (editIndex !== null && editIndex < data.length) {
+      const editState = this._getEditState(data[editIndex], editIndex);
+      if (editState?.draft) {
+        data.splice(editIndex, 1);
+        primitiveDeleted.splice(editIndex, 1);
+        draftIndex = editIndex;
+      } else if (editState) {
+        data[editIndex] = editState.originalSnapshot;
+      }
+    }
+
+    return { data, primitiveDeleted, draftIndex };
+  }
+
+  /**
+   * Snapshot of the committed data (see _getCommittedRows()).
+   */
+  private _captureCommittedState(): HistoryState {
+    const { data, primitiveDeleted } = this._getCommittedRows();
+    return { data: this._deepClone(data), primitiveDeleted };
+  }
+
+  /**
+   * Called after every committed change to the data. rowIndex names the
+   * only row a change touched, when it did not add, remove or move rows.
+   */
+  private _commitChange(
+    historyBefore: HistoryState | null,
+    rowIndex?: number
+  ): void {
+    this._recordHistory(historyBefore);
+    if (rowIndex === undefined) {
+      this._updateDirtyState();
+    } else {
+      this._updateRowDirtyState(rowIndex);
+    }
+    this._refreshComputedBindings();
+    this._refreshValidity();
+    this._updateRowLimitButtons();
+  }
+
+  /**
+   * State to pass to _recordHistory() after a change (null when history is
+   * disabled, so large arrays are not cloned for nothing).
+   */
+  private _historyCheckpoint(): HistoryState | null {
+    return this.historyLimit > 0 ? this._captureCommittedState() : null;
+  }
+
+  /**
+   * Pushes the state from before a change onto the undo stack, unless the
+   * change turned out to be a no-op. Clears the redo stack.
+   */
+  private _recordHistory(before: HistoryState | null): void {
+    if (!before || this.historyLimit === 0) return;
+
+    const after = this._captureCommittedState();
+    if (
+      this._isEqual(before.data, after.data) &&
+      this._isEqual(before.primitiveDeleted, after.primitiveDeleted)
+    ) {
+      return;
+    }
+
+    this._undoStack.push(before);
+    this._redoStack = [];
+    this._trimHistory(false);
+    this._dispatchHistoryChange();
   }
 
-  // FACE callback: called when the form is reset
-  formResetCallback(): void {
-    // Restore data to initial state
-    this._data = this._deepClone(this._initialData);
-    this._currentEditIndex = null;
+  private _restoreHistoryState(state: HistoryState): void {
+    this._clearDataChangeTimer();
+    this._data = this._deepClone(state.data);
+    this._primitiveDeletedState = state.primitiveDeleted.slice();
     this._primitiveEditState = [];
+    this._currentEditIndex = null;
 
-    // Re-render with restored data
     if (this.isConnected) {
       this.render();
+      this._announceDataChange();
     }
+    this._refreshValidity();
+    this._dispatchDataChanged();
+  }
 
-    // Update form value after reset
-    this._updateFormValueFromControls();
+  private _trimHistory(notify = true): void {
+    const limit = this.historyLimit;
+    const undoExcess = this._undoStack.length - limit;
+    const redoExcess = this._redoStack.length - limit;
+    if (undoExcess > 0) this._undoStack.splice(0, undoExcess);
+    if (redoExcess > 0) this._redoStack.splice(0, redoExcess);
+    if (notify && (undoExcess > 0 || redoExcess > 0)) {
+      this._dispatchHistoryChange();
+    }
   }
 
-  // Drag and drop handlers
-  private _handleDragStart(event: DragEvent): void {
-    const rowEl = event.target as HTMLElement;
-    if (!rowEl?.hasAttribute('data-row')) return;
+  private _dispatchHistoryChange(): void {
+    this.dispatchEvent(
+      new CustomEvent('historychange', {
+        detail: { canUndo: this.canUndo, canRedo: this.canRedo },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
 
-    // Block drag if readonly, editing, or reordering disabled
+  /**
+   * Structural equality for cloned row data (plain objects, arrays, dates
+   * and primitives).
+   */
+  private _isEqual(a: unknown, b: unknown): boolean {
+    if (Object.is(a, b)) return true;
+    if (a instanceof Date && b instanceof Date) {
+      return a.getTime() === b.getTime();
+    }
     if (
-      this.readonly ||
-      this._currentEditIndex !== null ||
-      !this.allowReorder
+      typeof a !== 'object' ||
+      typeof b !== 'object' ||
+      a === null ||
+      b === null ||
+      Array.isArray(a) !== Array.isArray(b)
     ) {
-      event.preventDefault();
-      return;
+      return false;
     }
 
-    const rowIndex = Number(rowEl.getAttribute('data-row'));
-    if (!Number.isFinite(rowIndex)) return;
-
-    this._dragSourceIndex = rowIndex;
-    rowEl.classList.add('ck-dragging');
-
-    if (event.dataTransfer) {
-      event.dataTransfer.effectAllowed = 'move';
-      event.dataTransfer.setData('text/plain', String(rowIndex));
-    }
+    const aRecord = a as Record<string, unknown>;
+    const bRecord = b as Record<string, unknown>;
+    const aKeys = Object.keys(aRecord);
+    if (aKeys.length !== Object.keys(bRecord).length) return false;
+    return aKeys.every(
+      key =>
+        Object.prototype.hasOwnProperty.call(bRecord, key) &&
+        this._isEqual(aRecord[key], bRecord[key])
+    );
   }
 
-  private _handleDragOver(event: DragEvent): void {
-    event.preventDefault();
+  // Public row mutation methods
 
-    const rowEl = (event.target as HTMLElement)?.closest(
-      '[data-row]'
-    ) as HTMLElement | null;
-    if (!rowEl) return;
+  /**
+   * Appends a row (or inserts it at `index` when provided).
+   * Returns the index the row was inserted at, or -1 if blocked.
+   */
+  addRow(item: unknown, index: number = this._data.length): number {
+    return this.insertRow(index, item);
+  }
 
-    // Block if readonly
-    if (this.readonly) return;
+  /**
+   * Inserts a row at `index` (clamped to the array bounds) without re-rendering
+   * other rows. Returns the index the row was inserted at, or -1 if blocked.
+   */
+  insertRow(index: number, item: unknown): number {
+    // Guard: animating (pending reorder relies on current indices)
+    if (this._isAnimating || !Number.isFinite(index)) return -1;
 
-    rowEl.classList.add('ck-drag-over');
+    const targetIndex = Math.min(
+      Math.max(Math.floor(index), 0),
+      this._data.length
+    );
+    const historyBefore = this._historyCheckpoint();
+    this._insertRowAt(targetIndex, this._cloneValue(item));
+    this._commitChange(historyBefore);
 
-    if (event.dataTransfer) {
-      event.dataTransfer.dropEffect = 'move';
-    }
+    this._dispatchRowChanged(
+      targetIndex,
+      this._diffPaths(undefined, this._data[targetIndex])
+    );
+    this._dispatchDataChangedForMode();
+    return targetIndex;
   }
 
-  private _handleDragLeave(event: DragEvent): void {
-    const rowEl = (event.target as HTMLElement)?.closest(
-      '[data-row]'
-    ) as HTMLElement | null;
-    if (!rowEl) return;
+  /**
+   * Removes the row at `index`. Returns a clone of the removed row, or
+   * undefined if the index is invalid or the component is animating.
+   */
+  removeRow(index: number): unknown {
+    if (this._isAnimating || !this._isValidRowIndex(index)) return undefined;
 
-    rowEl.classList.remove('ck-drag-over');
-  }
+    const historyBefore = this._historyCheckpoint();
+    const removed = this._removeRowAt(index);
+    this._commitChange(historyBefore);
 
-  private _handleDrop(event: DragEvent): void {
-    event.preventDefault();
+    this._dispatchDataChangedForMode();
+    return this._cloneValue(removed);
+  }
 
-    const targetRowEl = (event.target as HTMLElement)?.closest(
-      '[data-row]'
-    ) as HTMLElement | null;
-    if (!targetRowEl) return;
+  /**
+   * Updates the row at `index`. Object rows are shallow-merged with `patch`
+   * (keeping their edit state); primitive rows are replaced.
+   * On a row being edited the patch also applies to the values the edit
+   * started from, so it is committed and survives Cancel.
+   * Returns true if the row was updated.
+   */
+  updateRow(index: number, patch: unknown): boolean {
+    if (this._isAnimating || !this._isValidRowIndex(index)) return false;
 
-    // Block if readonly
-    if (this.readonly) {
-      this._clearDragClasses();
-      return;
+    const historyBefore = this._historyCheckpoint();
+    const rowData = this._data[index];
+    const previousRow = this._cloneValue(rowData);
+    const patchValue = this._cloneValue(patch);
+    const editState = this._getEditState(rowData, index);
+    if (editState) {
+      const snapshot = editState.originalSnapshot;
+      editState.originalSnapshot =
+        this._isPlainObject(snapshot) && this._isPlainObject(patchValue)
+          ? { ...snapshot, ...this._cloneValue(patchValue) }
+          : this._cloneValue(patchValue);
     }
 
-    const fromIndex = this._dragSourceIndex;
-    const toIndex = Number(targetRowEl.getAttribute('data-row'));
-
-    // Validate indices
-    if (
-      fromIndex === null ||
-      !Number.isFinite(toIndex) ||
-      fromIndex === toIndex ||
-      fromIndex < 0 ||
-      fromIndex >= this._data.length ||
-      toIndex < 0 ||
-      toIndex >= this._data.length
-    ) {
-      this._clearDragClasses();
-      return;
+    if (this._isPlainObject(rowData) && this._isPlainObject(patchValue)) {
+      Object.assign(rowData, patchValue);
+    } else {
+      // Carry edit state over to the replacement value
+      this._data[index] = patchValue;
+      if (editState) {
+        this._setEditState(rowData, index, null);
+        this._setEditState(patchValue, index, editState);
+      }
     }
 
-    // Perform the reorder
-    this._reorderData(fromIndex, toIndex);
+    this._renderRowAt(index);
+    this._updateFormValueFromControls();
+    this._commitChange(historyBefore, index);
 
-    // Clear drag state
-    this._dragSourceIndex = null;
-    this._clearDragClasses();
+    this._dispatchRowChanged(
+      index,
+      this._diffPaths(previousRow, this._data[index])
+    );
+    this._dispatchDataChangedForMode();
+    return true;
   }
 
-  private _handleDragEnd(event: DragEvent): void {
-    const rowEl = event.target as HTMLElement;
-    if (rowEl) {
-      rowEl.classList.remove('ck-dragging');
-    }
-    this._dragSourceIndex = null;
-    this._clearDragClasses();
-  }
+  /**
+   * Removes all rows.
+   */
+  clear(): void {
+    // A pending animated reorder would operate on rows that no longer exist
+    this._clearAnimationTimer();
+
+    const historyBefore = this._historyCheckpoint();
+    this._data = [];
+    this._currentEditIndex = null;
+    this._primitiveEditState = [];
+    this._primitiveDeletedState = [];
 
-  private _clearDragClasses(): void {
     const rows = this._rowsHostEl?.querySelectorAll('[data-row]');
-    rows?.forEach(row => {
-      row.classList.remove('ck-dragging', 'ck-drag-over');
-    });
+    rows?.forEach(row => row.remove());
+    this._updateAddButton();
+    this._commitChange(historyBefore);
+
+    this._updateFormValueFromControls();
+    this._announceDataChange();
+    this._dispatchDataChangedForMode();
   }
 
-  private _reorderData(fromIndex: number, toIndex: number): void {
-    // Remove the item from its original position
-    const [movedItem] = this._data.splice(fromIndex, 1);
+  /**
+   * Removes all soft-deleted rows and returns clones of them in their
+   * original order.
+   */
+  purgeDeleted(): unknown[] {
+    if (this._isAnimating) return [];
+
+    const historyBefore = this._historyCheckpoint();
+    const purged: unknown[] = [];
+    for (let index = this._data.length - 1; index >= 0; index--) {
+      if (this._isRowDeleted(this._data[index], index)) {
+        purged.unshift(this._removeRowAt(index));
+      }
+    }
 
-    // Insert it at the new position
-    this._data.splice(toIndex, 0, movedItem);
+    if (purged.length > 0) {
+      this._commitChange(historyBefore);
+      this._dispatchDataChangedForMode();
+    }
+    return this._deepClone(purged);
+  }
 
-    // Update DOM without full re-render
-    this._updateRowIndicesAfterReorder(fromIndex, toIndex);
+  private _isValidRowIndex(index: number): boolean {
+    return Number.isInteger(index) && index >= 0 && index < this._data.length;
+  }
 
-    // Dispatch reorder event
-    this.dispatchEvent(
-      new CustomEvent('reorder', {
-        detail: {
-          fromIndex,
-          toIndex,
-          data: this._deepClone(this._data),
-        },
-        bubbles: true,
-        composed: true,
-      })
-    );
+  private _isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
 
-    // Dispatch datachanged event
-    this._dispatchDataChanged();
+  private _insertRowAt(index: number, rowData: unknown): void {
+    this._data.splice(index, 0, rowData);
 
-    // Announce the reorder for accessibility
-    const message = `Moved item from position ${fromIndex + 1} to ${toIndex + 1}`;
-    this._announceAction(message);
-  }
+    // Keep index-based state aligned with the data
+    this._spliceIndexedState(index, 0, 1);
+    if (this._currentEditIndex !== null && this._currentEditIndex >= index) {
+      this._currentEditIndex += 1;
+    }
 
-  private _updateRowIndicesAfterReorder(
-    fromIndex: number,
-    toIndex: number
-  ): void {
     const rowsHost = this._rowsHostEl;
-    if (!rowsHost) return;
-
-    const rows = Array.from(rowsHost.querySelectorAll('[data-row]'));
-    if (rows.length === 0) return;
+    const template = this._getDisplayTemplate();
+    if (rowsHost && template) {
+      const rows = Array.from(
+        rowsHost.querySelectorAll('[data-row]')
+      ) as HTMLElement[];
+      const rowEl = this._createRowElement(
+        index,
+        template,
+        this._getEditTemplate(),
+        this._parseClassTokens(this.getAttribute('row-class'))
+      );
+      rowsHost.insertBefore(rowEl, rows[index] ?? null);
+      this._renderRowAt(index);
+      this._updateRowIndicesFrom(index - 1);
+    }
 
-    const fromRow = rows[fromIndex] as HTMLElement;
-    const toRow = rows[toIndex] as HTMLElement;
+    this._updateFormValueFromControls();
+    this._announceDataChange();
+  }
 
-    if (!fromRow || !toRow) return;
+  private _removeRowAt(index: number): unknown {
+    const [removed] = this._data.splice(index, 1);
 
-    // Move the DOM element to its new position
-    if (fromIndex < toIndex) {
-      // Moving down: insert after toRow
-      toRow.parentNode?.insertBefore(fromRow, toRow.nextSibling);
-    } else {
-      // Moving up: insert before toRow
-      toRow.parentNode?.insertBefore(fromRow, toRow);
+    // Keep index-based state aligned with the data
+    this._spliceIndexedState(index, 1, 0);
+    if (this._currentEditIndex === index) {
+      this._setEditState(removed, index, null);
+      this._currentEditIndex = null;
+    } else if (
+      this._currentEditIndex !== null &&
+      this._currentEditIndex > index
+    ) {
+      this._currentEditIndex -= 1;
     }
 
-    // After moving DOM elements, re-query in new DOM order and update all indices
-    const updatedRows = Array.from(rowsHost.querySelectorAll('[data-row]'));
-    updatedRows.forEach((row, index) => {
-      this._updateRowIndexAndButtons(row as HTMLElement, index);
-    });
+    const rowEl = this._rowsHostEl?.querySelectorAll('[data-row]')[index];
+    if (rowEl) {
+      rowEl.remove();
+      this._updateRowIndicesFrom(index - 1);
+    }
+    this._updateAddButton();
 
-    // Keep form value in sync with new ordering
     this._updateFormValueFromControls();
+    this._announceDataChange();
+    return removed;
   }
 
-  private _updateRowIndexAndButtons(rowEl: HTMLElement, index: number): void {
-    rowEl.setAttribute('data-row', String(index));
-    rowEl.setAttribute('data-form-row-index', String(index));
+  /**
+   * Keeps the parallel arrays used for primitive rows aligned when rows are
+   * inserted or removed.
+   */
+  private _spliceIndexedState(
+    index: number,
+    deleteCount: number,
+    insertCount: number
+  ): void {
+    const inserted = new Array(insertCount);
+    if (this._primitiveEditState.length > index) {
+      this._primitiveEditState.splice(index, deleteCount, ...inserted);
+    }
+    if (this._primitiveDeletedState.length > index) {
+      this._primitiveDeletedState.splice(index, deleteCount, ...inserted);
+    }
+  }
 
-    const rowData = this._data[index];
-    const boundEls = this._boundElsCache.get(rowEl) || [];
+  /**
+   * Moves parallel-array state for primitive rows along with a reorder.
+   */
+  private _moveIndexedState(fromIndex: number, toIndex: number): void {
+    [this._primitiveEditState, this._primitiveDeletedState].forEach(
+      (state: unknown[]) => {
+        if (state.length === 0) return;
+        state.length = Math.max(state.length, this._data.length);
+        const [moved] = state.splice(fromIndex, 1);
+        state.splice(toIndex, 0, moved);
+      }
+    );
+  }
 
-    // Refresh form control name/id to reflect new index
-    this._setFormControlAttributes(boundEls, index);
-    this._applyFormSemanticsOptimized(rowEl, boundEls, rowData, index);
+  /**
+   * Re-renders a single row in place using the current templates.
+   */
+  private _renderRowAt(index: number): void {
+    const rowsHost = this._rowsHostEl;
+    const template = this._getDisplayTemplate();
+    if (!rowsHost || !template) return;
 
-    // Update all button aria-labels and disabled states
-    this._applyButtonSemantics(rowEl, index, rowData);
+    const existingRows = Array.from(
+      rowsHost.querySelectorAll('[data-row]')
+    ) as HTMLElement[];
+    if (!existingRows[index]) return;
+
+    this._renderRow(
+      this._data[index],
+      index,
+      rowsHost,
+      existingRows,
+      template,
+      this._getEditTemplate(),
+      this._parseClassTokens(this.getAttribute('row-class'))
+    );
+  }
+
+  /**
+   * Refreshes index-dependent attributes (data-row, names, labels) for all
+   * rows from `startIndex` onwards.
+   */
+  private _updateRowIndicesFrom(startIndex: number): void {
+    const rows = this._rowsHostEl?.querySelectorAll('[data-row]');
+    if (!rows) return;
+    for (let i = Math.max(startIndex, 0); i < rows.length; i++) {
+      this._updateRowIndexAndButtons(rows[i] as HTMLElement, i);
+    }
   }
 
   // Public move methods
@@ -1916,6 +5653,10 @@ export class CkEditableArray extends HTMLElement {
       return false;
     }
 
+    if (!this._dispatchBeforeRowEvent('beforereorder', index, index - 1)) {
+      return false;
+    }
+
     this._animatedReorderData(index, index - 1);
     return true;
   }
@@ -1940,6 +5681,10 @@ export class CkEditableArray extends HTMLElement {
       return false;
     }
 
+    if (!this._dispatchBeforeRowEvent('beforereorder', index, index + 1)) {
+      return false;
+    }
+
     this._animatedReorderData(index, index + 1);
     return true;
   }
@@ -2024,34 +5769,10 @@ export class CkEditableArray extends HTMLElement {
       fromRow.classList.remove('ck-animating');
       toRow.classList.remove('ck-animating');
 
-      // Perform the actual data reorder
-      const [movedItem] = this._data.splice(fromIndex, 1);
-      this._data.splice(toIndex, 0, movedItem);
-
-      // Re-render to update DOM order and indices
-      this.render();
-
-      // Clear animation flag
+      // Clear animation flag, then commit through the same path as an
+      // instant move so history, validity and row limits stay in step
       this._isAnimating = false;
-
-      // Dispatch events after animation
-      this.dispatchEvent(
-        new CustomEvent('reorder', {
-          detail: {
-            fromIndex,
-            toIndex,
-            data: this._deepClone(this._data),
-          },
-          bubbles: true,
-          composed: true,
-        })
-      );
-
-      this._dispatchDataChanged();
-
-      // Announce for accessibility
-      const message = `Moved item from position ${fromIndex + 1} to ${toIndex + 1}`;
-      this._announceAction(message);
+      this._reorderData(fromIndex, toIndex);
     }, CkEditableArray.ANIMATION_DURATION);
   }
 }
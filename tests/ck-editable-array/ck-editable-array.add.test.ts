@@ -0,0 +1,210 @@
+/// <reference lib="dom" />
+/* eslint-disable no-undef */
+import { CkEditableArray } from '../../src/components/ck-editable-array/ck-editable-array';
+
+// Define the custom element before running tests
+beforeAll(() => {
+  if (!customElements.get('ck-editable-array')) {
+    customElements.define('ck-editable-array', CkEditableArray);
+  }
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const attachTemplates = (element: CkEditableArray): void => {
+  const display = document.createElement('template');
+  display.setAttribute('slot', 'display');
+  display.innerHTML = `<span data-bind="name"></span>`;
+  element.appendChild(display);
+
+  const edit = document.createElement('template');
+  edit.setAttribute('slot', 'edit');
+  edit.innerHTML = `<input type="text" data-bind="name" />`;
+  element.appendChild(edit);
+};
+
+const getAddButton = (element: CkEditableArray): HTMLButtonElement =>
+  element.shadowRoot?.querySelector('[data-action="add"]') as HTMLButtonElement;
+
+const getRow = (element: CkEditableArray, index: number): HTMLElement =>
+  element.shadowRoot?.querySelector(`[data-row="${index}"]`) as HTMLElement;
+
+const clickRowAction = (
+  element: CkEditableArray,
+  index: number,
+  action: string
+): void => {
+  (
+    getRow(element, index).querySelector(
+      `[data-action="${action}"]`
+    ) as HTMLButtonElement
+  ).click();
+};
+
+describe('Add Button and Draft Rows', () => {
+  let element: CkEditableArray;
+
+  beforeEach(() => {
+    element = new CkEditableArray();
+    element.setAttribute('allow-add', '');
+    element.setAttribute('datachange-mode', 'change');
+    document.body.appendChild(element);
+    attachTemplates(element);
+    element.data = [{ name: 'A' }];
+    element.connectedCallback();
+  });
+
+  afterEach(() => {
+    if (element.parentNode) {
+      element.parentNode.removeChild(element);
+    }
+  });
+
+  describe('Add Button Rendering', () => {
+    test('should render an add button with default text and part', () => {
+      const button = getAddButton(element);
+      expect(button).toBeTruthy();
+      expect(button.textContent).toBe('Add');
+      expect(button.getAttribute('part')).toBe('button button-add add');
+      expect(button.closest('.toolbar')?.classList.contains('ck-hidden')).toBe(
+        false
+      );
+    });
+
+    test('should hide the toolbar when allow-add is not set', () => {
+      element.allowAdd = false;
+      expect(
+        getAddButton(element)
+          .closest('.toolbar')
+          ?.classList.contains('ck-hidden')
+      ).toBe(true);
+    });
+
+    test('should use button-add-text for the button label', () => {
+      element.setAttribute('button-add-text', 'New contact');
+      expect(getAddButton(element).textContent).toBe('New contact');
+    });
+
+    test('should disable the add button when readonly', () => {
+      element.readonly = true;
+      expect(getAddButton(element).disabled).toBe(true);
+    });
+  });
+
+  describe('Draft Mode', () => {
+    test('should append a new row in edit mode', () => {
+      getAddButton(element).click();
+
+      const row = getRow(element, 1);
+      expect(row).toBeTruthy();
+      expect(row.getAttribute('data-mode')).toBe('edit');
+      expect(row.hasAttribute('data-draft')).toBe(true);
+      expect(element.data).toEqual([{ name: 'A' }, {}]);
+    });
+
+    test('should build the new row from newItem value or factory', () => {
+      element.newItem = { name: 'Untitled' };
+      getAddButton(element).click();
+      expect(element.data[1]).toEqual({ name: 'Untitled' });
+
+      clickRowAction(element, 1, 'save');
+
+      element.newItem = (index: number) => ({ name: `Row ${index + 1}` });
+      getAddButton(element).click();
+      expect(element.data[2]).toEqual({ name: 'Row 3' });
+    });
+
+    test('should disable the add button while a row is being edited', () => {
+      getAddButton(element).click();
+      expect(getAddButton(element).disabled).toBe(true);
+
+      clickRowAction(element, 1, 'save');
+      expect(getAddButton(element).disabled).toBe(false);
+    });
+
+    test('should discard a never-saved row on cancel', () => {
+      getAddButton(element).click();
+      clickRowAction(element, 1, 'cancel');
+
+      expect(element.data).toEqual([{ name: 'A' }]);
+      expect(getRow(element, 1)).toBeNull();
+      expect(getAddButton(element).disabled).toBe(false);
+    });
+
+    test('should keep the row on save and restore snapshot on later cancel', () => {
+      element.newItem = { name: '' };
+      getAddButton(element).click();
+
+      const input = getRow(element, 1).querySelector(
+        '.edit-content input'
+      ) as HTMLInputElement;
+      input.value = 'B';
+      input.dispatchEvent(new Event('input', { bubbles: true }));
+      clickRowAction(element, 1, 'save');
+
+      expect(getRow(element, 1).hasAttribute('data-draft')).toBe(false);
+
+      // Once saved, cancel restores rather than discards
+      clickRowAction(element, 1, 'toggle');
+      input.value = 'changed';
+      input.dispatchEvent(new Event('input', { bubbles: true }));
+      clickRowAction(element, 1, 'cancel');
+
+      expect(element.data).toEqual([{ name: 'A' }, { name: 'B' }]);
+    });
+
+    test('should dispatch datachanged when a draft is saved', () => {
+      getAddButton(element).click();
+      const handler = jest.fn();
+      element.addEventListener('datachanged', handler);
+
+      clickRowAction(element, 1, 'save');
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0][0].detail.data).toHaveLength(2);
+    });
+
+    test('should not add a row while another row is being edited', () => {
+      clickRowAction(element, 0, 'toggle');
+      getAddButton(element).click();
+      expect(element.data).toHaveLength(1);
+    });
+  });
+
+  describe('Add Events', () => {
+    test('should dispatch beforeadd and afteradd with index and row', () => {
+      const before = jest.fn();
+      const after = jest.fn();
+      element.addEventListener('beforeadd', before);
+      element.addEventListener('afteradd', after);
+
+      getAddButton(element).click();
+
+      expect(before).toHaveBeenCalledTimes(1);
+      const beforeEvent = before.mock.calls[0][0] as CustomEvent;
+      expect(beforeEvent.cancelable).toBe(true);
+      expect(beforeEvent.detail.rowIndex).toBe(1);
+      expect(after).toHaveBeenCalledTimes(1);
+      expect(after.mock.calls[0][0].detail).toEqual({
+        rowIndex: 1,
+        rowData: {},
+      });
+    });
+
+    test('should not add a row when beforeadd is prevented', () => {
+      element.addEventListener('beforeadd', e => e.preventDefault());
+      getAddButton(element).click();
+      expect(element.data).toHaveLength(1);
+    });
+
+    test('should let beforeadd listeners replace the new row data', () => {
+      element.addEventListener('beforeadd', e => {
+        (e as CustomEvent).detail.rowData = { name: 'Seeded' };
+      });
+      getAddButton(element).click();
+      expect(element.data[1]).toEqual({ name: 'Seeded' });
+    });
+  });
+});
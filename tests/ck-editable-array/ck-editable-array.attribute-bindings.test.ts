@@ -0,0 +1,268 @@
+/// <reference lib="dom" />
+/* eslint-disable no-undef */
+import { CkEditableArray } from '../../src/components/ck-editable-array/ck-editable-array';
+
+// Define the custom element before running tests
+beforeAll(() => {
+  if (!customElements.get('ck-editable-array')) {
+    customElements.define('ck-editable-array', CkEditableArray);
+  }
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const setup = (
+  element: CkEditableArray,
+  displayHTML: string,
+  data: unknown[],
+  editHTML?: string
+): void => {
+  const display = document.createElement('template');
+  display.setAttribute('slot', 'display');
+  display.innerHTML = displayHTML;
+  element.appendChild(display);
+
+  if (editHTML) {
+    const edit = document.createElement('template');
+    edit.setAttribute('slot', 'edit');
+    edit.innerHTML = editHTML;
+    element.appendChild(edit);
+  }
+
+  element.data = data;
+  element.connectedCallback();
+};
+
+const query = <T extends Element = HTMLElement>(
+  element: CkEditableArray,
+  selector: string,
+  rowIndex = 0
+): T =>
+  element.shadowRoot?.querySelector(
+    `[data-row="${rowIndex}"] .display-content ${selector}`
+  ) as T;
+
+describe('Attribute, Class and Property Bindings', () => {
+  let element: CkEditableArray;
+
+  beforeEach(() => {
+    element = new CkEditableArray();
+    document.body.appendChild(element);
+  });
+
+  afterEach(() => {
+    if (element.parentNode) {
+      element.parentNode.removeChild(element);
+    }
+  });
+
+  describe('data-bind-attr', () => {
+    test('should bind attributes from row fields', () => {
+      setup(
+        element,
+        `<a data-bind-attr="href:url; title:name">
+           <img data-bind-attr="src:avatar, alt:name" />
+         </a>`,
+        [{ url: '/users/1', name: 'Ada', avatar: '/img/ada.png' }]
+      );
+
+      const link = query<HTMLAnchorElement>(element, 'a');
+      expect(link.getAttribute('href')).toBe('/users/1');
+      expect(link.getAttribute('title')).toBe('Ada');
+      const img = query<HTMLImageElement>(element, 'img');
+      expect(img.getAttribute('src')).toBe('/img/ada.png');
+      expect(img.getAttribute('alt')).toBe('Ada');
+    });
+
+    test('should remove attributes for null, undefined and false', () => {
+      setup(
+        element,
+        '<button data-bind-attr="disabled:locked; title:hint">x</button>',
+        [{ locked: true }]
+      );
+      const button = query(element, 'button');
+      expect(button.getAttribute('disabled')).toBe('');
+      expect(button.hasAttribute('title')).toBe(false);
+
+      element.updateRow(0, { locked: false });
+      expect(button.hasAttribute('disabled')).toBe(false);
+    });
+
+    test('should write booleans as text for aria attributes', () => {
+      setup(element, '<div data-bind-attr="aria-expanded:open"></div>', [
+        { open: true },
+      ]);
+      expect(query(element, 'div').getAttribute('aria-expanded')).toBe('true');
+    });
+
+    test('should drop URL values with script protocols', () => {
+      setup(
+        element,
+        `<a data-bind-attr="href:url"></a>
+         <img data-bind-attr="src:img" />`,
+        [{ url: ' JavaScript:alert(1)', img: 'data:text/html,<b>' }]
+      );
+      expect(query(element, 'a').hasAttribute('href')).toBe(false);
+      expect(query(element, 'img').hasAttribute('src')).toBe(false);
+    });
+
+    test.each([
+      ['a tab', 'java\tscript:alert(1)'],
+      ['a newline', 'java\nscript:alert(1)'],
+      ['a control character', '\u0001javascript:alert(1)'],
+      ['an entity-encoded tab', 'java&#x09;script:alert(1)'],
+      ['a decimal entity', 'java&#9;script:alert(1)'],
+      ['an encoded colon', 'javascript&colon;alert(1)'],
+    ])('should drop script URLs obfuscated with %s', (_, url) => {
+      setup(element, '<a data-bind-attr="href:url"></a>', [{ url }]);
+      expect(query(element, 'a').hasAttribute('href')).toBe(false);
+    });
+
+    test('should only bind http, https, mailto, tel and relative URLs', () => {
+      setup(
+        element,
+        `<a data-bind-attr="href:url"></a>
+         <form data-bind-attr="action:url"></form>
+         <video data-bind-attr="poster:url"></video>
+         <img data-bind-attr="srcset:set" />
+         <object data-bind-attr="data:url"></object>`,
+        [{ url: 'blob:x', set: '/a.png 1x, vbscript:x 2x' }]
+      );
+      expect(query(element, 'a').hasAttribute('href')).toBe(false);
+      expect(query(element, 'form').hasAttribute('action')).toBe(false);
+      expect(query(element, 'video').hasAttribute('poster')).toBe(false);
+      expect(query(element, 'img').hasAttribute('srcset')).toBe(false);
+      expect(query(element, 'object').hasAttribute('data')).toBe(false);
+
+      element.data = [
+        { url: 'https://example.com/a', set: '/a.png 1x, /b.png 2x' },
+      ];
+      expect(query(element, 'a').getAttribute('href')).toBe(
+        'https://example.com/a'
+      );
+      expect(query(element, 'img').getAttribute('srcset')).toBe(
+        '/a.png 1x, /b.png 2x'
+      );
+
+      element.data = [{ url: 'mailto:a@x.io' }];
+      expect(query(element, 'a').getAttribute('href')).toBe('mailto:a@x.io');
+      element.data = [{ url: 'docs/page:1' }];
+      expect(query(element, 'a').getAttribute('href')).toBe('docs/page:1');
+    });
+
+    test('should never bind event handler or srcdoc attributes', () => {
+      setup(
+        element,
+        '<iframe data-bind-attr="onload:code; srcdoc:code"></iframe>',
+        [{ code: 'alert(1)' }]
+      );
+      const frame = query(element, 'iframe');
+      expect(frame.hasAttribute('onload')).toBe(false);
+      expect(frame.hasAttribute('srcdoc')).toBe(false);
+    });
+
+    test('should update when an input in the row changes', () => {
+      setup(
+        element,
+        '<a data-bind-attr="href:url"></a>',
+        [{ url: '/a' }],
+        '<input type="text" data-bind="url" />'
+      );
+      const input = element.shadowRoot?.querySelector(
+        '.edit-content input'
+      ) as HTMLInputElement;
+      input.value = '/b';
+      input.dispatchEvent(new Event('input', { bubbles: true }));
+
+      expect(query(element, 'a').getAttribute('href')).toBe('/b');
+    });
+  });
+
+  describe('data-bind-class', () => {
+    test('should toggle classes by truthiness', () => {
+      setup(
+        element,
+        '<div class="card" data-bind-class="is-vip:vip; is-late:late"></div>',
+        [{ vip: true, late: 0 }]
+      );
+      const card = query(element, 'div');
+      expect(Array.from(card.classList)).toEqual(['card', 'is-vip']);
+
+      element.updateRow(0, { vip: false, late: 2 });
+      expect(Array.from(card.classList)).toEqual(['card', 'is-late']);
+    });
+
+    test('should use the value as the class without a class name', () => {
+      setup(element, '<span class="badge" data-bind-class="status"></span>', [
+        { status: 'open' },
+      ]);
+      const badge = query(element, 'span');
+      expect(badge.className).toBe('badge open');
+
+      element.updateRow(0, { status: 'closed urgent' });
+      expect(badge.className).toBe('badge closed urgent');
+
+      element.updateRow(0, { status: null });
+      expect(badge.className).toBe('badge');
+    });
+  });
+
+  describe('data-bind-prop', () => {
+    test('should set element properties to clones of the value', () => {
+      setup(element, '<div data-bind-prop="items:tags"></div>', [
+        { tags: ['a', 'b'] },
+      ]);
+      const el = query(element, 'div') as HTMLElement & { items: string[] };
+      expect(el.items).toEqual(['a', 'b']);
+
+      el.items.push('c');
+      expect(element.data[0]).toEqual({ tags: ['a', 'b'] });
+    });
+
+    test('should refuse HTML sinks and event handler properties', () => {
+      setup(
+        element,
+        `<div data-bind-prop="innerHTML:html; onclick:html; __proto__:html"></div>
+         <a data-bind-prop="href:url"></a>`,
+        [{ html: '<img src=x onerror=alert(1)>', url: 'javascript:alert(1)' }]
+      );
+      const div = query(element, 'div');
+      expect(div.innerHTML).toBe('');
+      expect(div.onclick).toBeNull();
+      expect(query(element, 'a').getAttribute('href')).toBeNull();
+    });
+  });
+
+  test('should combine with data-bind on the same element', () => {
+    setup(element, '<a data-bind="name" data-bind-attr="href:url"></a>', [
+      { name: 'Ada', url: '/ada' },
+    ]);
+    const link = query(element, 'a');
+    expect(link.textContent).toBe('Ada');
+    expect(link.getAttribute('href')).toBe('/ada');
+  });
+
+  test('should not clear the content of elements without data-bind', () => {
+    setup(element, '<a data-bind-attr="href:url">Profile</a>', [
+      { url: '/ada' },
+    ]);
+    expect(query(element, 'a').textContent).toBe('Profile');
+  });
+
+  test('should keep bindings in sync when keyed rows move', () => {
+    element.setAttribute('key-field', 'id');
+    setup(element, '<a data-bind-attr="href:url"></a>', [
+      { id: 1, url: '/1' },
+      { id: 2, url: '/2' },
+    ]);
+    element.data = [
+      { id: 2, url: '/2' },
+      { id: 1, url: '/1b' },
+    ];
+
+    expect(query(element, 'a', 0).getAttribute('href')).toBe('/2');
+    expect(query(element, 'a', 1).getAttribute('href')).toBe('/1b');
+  });
+});
@@ -0,0 +1,247 @@
+/// <reference lib="dom" />
+/* eslint-disable no-undef */
+import { CkEditableArray } from '../../src/components/ck-editable-array/ck-editable-array';
+
+// Define the custom element before running tests
+beforeAll(() => {
+  if (!customElements.get('ck-editable-array')) {
+    customElements.define('ck-editable-array', CkEditableArray);
+  }
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const getRows = (element: CkEditableArray): HTMLElement[] =>
+  Array.from(
+    element.shadowRoot?.querySelectorAll('[data-row]') || []
+  ) as HTMLElement[];
+
+const clickDelete = (element: CkEditableArray, index: number): void => {
+  (
+    getRows(element)[index].querySelector(
+      '[data-action="delete"]'
+    ) as HTMLButtonElement
+  ).click();
+};
+
+const createDataTransfer = (): unknown => {
+  const store: Record<string, string> = {};
+  return {
+    setData: (format: string, data: string) => {
+      store[format] = data;
+    },
+    getData: (format: string) => store[format] || '',
+    effectAllowed: 'none',
+    dropEffect: 'none',
+  };
+};
+
+const createDragEvent = (type: string, dataTransfer?: unknown): Event => {
+  const event = new Event(type, { bubbles: true, cancelable: true });
+  Object.defineProperty(event, 'dataTransfer', {
+    value: dataTransfer || createDataTransfer(),
+  });
+  return event;
+};
+
+const dragRow = (element: CkEditableArray, from: number, to: number): void => {
+  const rows = getRows(element);
+  const dragStart = createDragEvent('dragstart');
+  rows[from].dispatchEvent(dragStart);
+  rows[to].dispatchEvent(
+    createDragEvent('drop', (dragStart as DragEvent).dataTransfer)
+  );
+};
+
+describe('Cancelable Before Events', () => {
+  let element: CkEditableArray;
+  let originalMatchMedia: typeof window.matchMedia;
+
+  beforeEach(() => {
+    // Skip move animations so reorders complete synchronously
+    originalMatchMedia = window.matchMedia;
+    window.matchMedia = jest.fn().mockReturnValue({
+      matches: true,
+    }) as unknown as typeof window.matchMedia;
+
+    element = new CkEditableArray();
+    element.setAttribute('datachange-mode', 'change');
+    document.body.appendChild(element);
+    const display = document.createElement('template');
+    display.setAttribute('slot', 'display');
+    display.innerHTML = '<span data-bind="name"></span>';
+    element.appendChild(display);
+    element.data = [
+      { name: 'A', locked: true },
+      { name: 'B', locked: false },
+      { name: 'C', locked: false },
+    ];
+    element.connectedCallback();
+  });
+
+  afterEach(() => {
+    window.matchMedia = originalMatchMedia;
+    if (element.parentNode) {
+      element.parentNode.removeChild(element);
+    }
+  });
+
+  describe('beforedelete', () => {
+    test('should dispatch a cancelable event with row index and data', () => {
+      const handler = jest.fn();
+      element.addEventListener('beforedelete', handler);
+
+      clickDelete(element, 1);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      const event = handler.mock.calls[0][0] as CustomEvent;
+      expect(event.cancelable).toBe(true);
+      expect(event.bubbles).toBe(true);
+      expect(event.composed).toBe(true);
+      expect(event.detail).toEqual({
+        rowIndex: 1,
+        rowData: { name: 'B', locked: false },
+      });
+    });
+
+    test('should keep the row when prevented', () => {
+      element.addEventListener('beforedelete', e => {
+        if ((e as CustomEvent).detail.rowData.locked) e.preventDefault();
+      });
+      const changed = jest.fn();
+      element.addEventListener('datachanged', changed);
+
+      clickDelete(element, 0);
+      clickDelete(element, 1);
+
+      expect(element.data[0]).not.toHaveProperty('isDeleted');
+      expect(getRows(element)[0].classList.contains('ck-deleted')).toBe(false);
+      expect(element.data[1]).toHaveProperty('isDeleted', true);
+      expect(changed).toHaveBeenCalledTimes(1);
+    });
+
+    test('should block hard deletes when prevented', () => {
+      element.deleteMode = 'hard';
+      element.addEventListener('beforedelete', e => e.preventDefault());
+
+      clickDelete(element, 2);
+
+      expect(element.data).toHaveLength(3);
+    });
+
+    test('should pass a clone so listeners cannot mutate the row', () => {
+      element.addEventListener('beforedelete', e => {
+        (e as CustomEvent).detail.rowData.name = 'mutated';
+      });
+      clickDelete(element, 1);
+      expect(element.data[1]).toHaveProperty('name', 'B');
+    });
+  });
+
+  describe('beforerestore', () => {
+    test('should dispatch on restore instead of beforedelete', () => {
+      clickDelete(element, 1);
+      const before = jest.fn();
+      const restore = jest.fn();
+      element.addEventListener('beforedelete', before);
+      element.addEventListener('beforerestore', restore);
+
+      clickDelete(element, 1);
+
+      expect(before).not.toHaveBeenCalled();
+      expect(restore).toHaveBeenCalledTimes(1);
+      expect((restore.mock.calls[0][0] as CustomEvent).detail.rowIndex).toBe(1);
+      expect(element.data[1]).toHaveProperty('isDeleted', false);
+    });
+
+    test('should keep the row deleted when prevented', () => {
+      clickDelete(element, 1);
+      element.addEventListener('beforerestore', e => e.preventDefault());
+
+      clickDelete(element, 1);
+
+      expect(element.data[1]).toHaveProperty('isDeleted', true);
+      expect(getRows(element)[1].classList.contains('ck-deleted')).toBe(true);
+    });
+  });
+
+  describe('beforereorder', () => {
+    test('should include the target index for moveUp and moveDown', () => {
+      const handler = jest.fn();
+      element.addEventListener('beforereorder', handler);
+
+      element.moveDown(0);
+      element.moveUp(2);
+
+      expect(handler.mock.calls.map(c => (c[0] as CustomEvent).detail)).toEqual(
+        [
+          { rowIndex: 0, rowData: { name: 'A', locked: true }, targetIndex: 1 },
+          {
+            rowIndex: 2,
+            rowData: { name: 'C', locked: false },
+            targetIndex: 1,
+          },
+        ]
+      );
+    });
+
+    test('should block moveUp and moveDown when prevented', () => {
+      element.addEventListener('beforereorder', e => e.preventDefault());
+      const reorder = jest.fn();
+      element.addEventListener('reorder', reorder);
+
+      expect(element.moveDown(0)).toBe(false);
+      expect(element.moveUp(1)).toBe(false);
+
+      expect(reorder).not.toHaveBeenCalled();
+      expect(element.data.map(r => (r as { name: string }).name)).toEqual([
+        'A',
+        'B',
+        'C',
+      ]);
+    });
+
+    test('should not dispatch when the move is already blocked', () => {
+      const handler = jest.fn();
+      element.addEventListener('beforereorder', handler);
+
+      element.moveUp(0);
+      element.readonly = true;
+      element.moveDown(0);
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    test('should dispatch for drag and drop and block the drop when prevented', () => {
+      const handler = jest.fn((e: Event) => {
+        // Rows may not cross the locked first row
+        if ((e as CustomEvent).detail.targetIndex === 0) e.preventDefault();
+      });
+      element.addEventListener('beforereorder', handler);
+
+      dragRow(element, 2, 0);
+      expect(element.data.map(r => (r as { name: string }).name)).toEqual([
+        'A',
+        'B',
+        'C',
+      ]);
+      expect(
+        getRows(element).some(r => r.classList.contains('ck-drag-over'))
+      ).toBe(false);
+
+      dragRow(element, 2, 1);
+      expect(element.data.map(r => (r as { name: string }).name)).toEqual([
+        'A',
+        'C',
+        'B',
+      ]);
+      expect((handler.mock.calls[1][0] as CustomEvent).detail).toEqual({
+        rowIndex: 2,
+        rowData: { name: 'C', locked: false },
+        targetIndex: 1,
+      });
+    });
+  });
+});
@@ -0,0 +1,260 @@
+/// <reference lib="dom" />
+/* eslint-disable no-undef */
+import { CkEditableArray } from '../../src/components/ck-editable-array/ck-editable-array';
+
+// Define the custom element before running tests
+beforeAll(() => {
+  if (!customElements.get('ck-editable-array')) {
+    customElements.define('ck-editable-array', CkEditableArray);
+  }
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const setup = (
+  element: CkEditableArray,
+  editHTML: string,
+  data: unknown[]
+): void => {
+  const display = document.createElement('template');
+  display.setAttribute('slot', 'display');
+  display.innerHTML = '<span></span>';
+  element.appendChild(display);
+
+  const edit = document.createElement('template');
+  edit.setAttribute('slot', 'edit');
+  edit.innerHTML = editHTML;
+  element.appendChild(edit);
+
+  element.data = data;
+  element.connectedCallback();
+};
+
+const getControl = (
+  element: CkEditableArray,
+  bindPath: string
+): HTMLInputElement =>
+  element.shadowRoot?.querySelector(
+    `[data-row="0"] .edit-content [data-bind="${bindPath}"]`
+  ) as HTMLInputElement;
+
+const typeInto = (
+  element: CkEditableArray,
+  bindPath: string,
+  value: string
+): void => {
+  const control = getControl(element, bindPath);
+  control.value = value;
+  control.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+const clickAction = (element: CkEditableArray, action: string): void => {
+  (
+    element.shadowRoot?.querySelector(
+      `[data-row="0"] [data-action="${action}"]`
+    ) as HTMLButtonElement
+  ).click();
+};
+
+const firstRow = (element: CkEditableArray): Record<string, unknown> =>
+  element.data[0] as Record<string, unknown>;
+
+describe('Value Type Coercion', () => {
+  let element: CkEditableArray;
+
+  beforeEach(() => {
+    element = new CkEditableArray();
+    document.body.appendChild(element);
+  });
+
+  afterEach(() => {
+    if (element.parentNode) {
+      element.parentNode.removeChild(element);
+    }
+  });
+
+  describe('Input types', () => {
+    test('should write numbers from number inputs', () => {
+      setup(element, '<input type="number" data-bind="qty" />', [{ qty: 3 }]);
+      typeInto(element, 'qty', '4.5');
+      expect(firstRow(element).qty).toBe(4.5);
+    });
+
+    test('should write numbers from range inputs', () => {
+      setup(element, '<input type="range" data-bind="level" />', [
+        { level: 10 },
+      ]);
+      typeInto(element, 'level', '20');
+      expect(firstRow(element).level).toBe(20);
+    });
+
+    test('should write dates from date inputs', () => {
+      setup(element, '<input type="date" data-bind="due" />', [
+        { due: new Date('2024-01-31T00:00:00Z') },
+      ]);
+      expect(getControl(element, 'due').value).toBe('2024-01-31');
+
+      typeInto(element, 'due', '2024-03-05');
+
+      const due = firstRow(element).due;
+      expect(due).toBeInstanceOf(Date);
+      expect((due as Date).toISOString()).toBe('2024-03-05T00:00:00.000Z');
+    });
+
+    test('should keep date strings as strings', () => {
+      setup(element, '<input type="date" data-bind="due" />', [
+        { due: '2024-01-31' },
+      ]);
+      typeInto(element, 'due', '2024-03-05');
+      expect(firstRow(element).due).toBe('2024-03-05');
+    });
+
+    test('should keep the number type of text inputs bound to numbers', () => {
+      setup(element, '<input type="text" data-bind="qty" />', [{ qty: 3 }]);
+      typeInto(element, 'qty', '12');
+      expect(firstRow(element).qty).toBe(12);
+    });
+
+    test('should keep values that do not parse as entered', () => {
+      setup(element, '<input type="text" data-bind="qty" />', [{ qty: 3 }]);
+      clickAction(element, 'toggle');
+      typeInto(element, 'qty', '12abc');
+      expect(firstRow(element).qty).toBe('12abc');
+
+      // The snapshot type still applies once the value parses again
+      typeInto(element, 'qty', '13');
+      expect(firstRow(element).qty).toBe(13);
+    });
+
+    test('should keep text fields as strings', () => {
+      setup(element, '<input type="text" data-bind="code" />', [
+        { code: '007' },
+      ]);
+      typeInto(element, 'code', '008');
+      expect(firstRow(element).code).toBe('008');
+    });
+  });
+
+  describe('data-type hints', () => {
+    test('should coerce number and integer hints', () => {
+      setup(
+        element,
+        `<input type="text" data-bind="price" data-type="number" />
+         <input type="text" data-bind="count" data-type="integer" />`,
+        [{ price: '', count: '' }]
+      );
+      typeInto(element, 'price', '9.99');
+      typeInto(element, 'count', '7');
+      expect(firstRow(element)).toEqual({ price: 9.99, count: 7 });
+
+      typeInto(element, 'count', '7.5');
+      expect(firstRow(element).count).toBe('7.5');
+    });
+
+    test('should coerce boolean hints on selects', () => {
+      setup(
+        element,
+        `<select data-bind="active" data-type="boolean">
+           <option value="true">Yes</option>
+           <option value="false">No</option>
+         </select>`,
+        [{ active: true }]
+      );
+      const select = element.shadowRoot?.querySelector(
+        'select'
+      ) as HTMLSelectElement;
+      select.value = 'false';
+      select.dispatchEvent(new Event('change', { bubbles: true }));
+
+      expect(firstRow(element).active).toBe(false);
+    });
+
+    test('should parse dates from text inputs with a date hint', () => {
+      setup(element, '<input type="text" data-bind="at" data-type="date" />', [
+        { at: null },
+      ]);
+      typeInto(element, 'at', '2024-05-01T10:00:00Z');
+      expect((firstRow(element).at as Date).toISOString()).toBe(
+        '2024-05-01T10:00:00.000Z'
+      );
+    });
+
+    test('should parse and format JSON', () => {
+      setup(
+        element,
+        '<textarea data-bind="meta" data-type="json"></textarea>',
+        [{ meta: { a: 1 } }]
+      );
+      expect(getControl(element, 'meta').value).toBe('{"a":1}');
+
+      typeInto(element, 'meta', '{"a":2,"b":[1]}');
+      expect(firstRow(element).meta).toEqual({ a: 2, b: [1] });
+
+      typeInto(element, 'meta', '{"a":');
+      expect(firstRow(element).meta).toBe('{"a":');
+    });
+
+    test('should let a hint override the input type', () => {
+      setup(
+        element,
+        '<input type="number" data-bind="zip" data-type="string" />',
+        [{ zip: '01234' }]
+      );
+      typeInto(element, 'zip', '1234');
+      expect(firstRow(element).zip).toBe('1234');
+    });
+  });
+
+  describe('data-nullable', () => {
+    test('should write null for empty nullable inputs', () => {
+      setup(
+        element,
+        `<input type="number" data-bind="qty" data-nullable />
+         <input type="text" data-bind="note" data-nullable />`,
+        [{ qty: 3, note: 'x' }]
+      );
+      typeInto(element, 'qty', '');
+      typeInto(element, 'note', '');
+      expect(firstRow(element)).toEqual({ qty: null, note: null });
+    });
+
+    test('should keep empty strings without data-nullable', () => {
+      setup(element, '<input type="text" data-bind="note" />', [{ note: 'x' }]);
+      typeInto(element, 'note', '');
+      expect(firstRow(element).note).toBe('');
+    });
+
+    test('should write null for empty number fields without data-nullable', () => {
+      setup(
+        element,
+        `<input type="number" data-bind="qty" />
+         <input type="text" data-bind="price" />`,
+        [{ qty: 3, price: 9.5 }]
+      );
+      typeInto(element, 'qty', '');
+      typeInto(element, 'price', ' ');
+      expect(firstRow(element)).toEqual({ qty: null, price: null });
+    });
+
+    test('should write empty strings for number fields with data-keep-empty', () => {
+      setup(
+        element,
+        '<input type="number" data-bind="qty" data-keep-empty />',
+        [{ qty: 3 }]
+      );
+      typeInto(element, 'qty', '');
+      expect(firstRow(element).qty).toBe('');
+    });
+  });
+
+  test('should not count a re-typed number as a change', () => {
+    setup(element, '<input type="number" data-bind="qty" />', [{ qty: 3 }]);
+    clickAction(element, 'toggle');
+    typeInto(element, 'qty', '3');
+    clickAction(element, 'save');
+
+    expect(element.isDirty).toBe(false);
+  });
+});
@@ -0,0 +1,268 @@
+/// <reference lib="dom" />
+/* eslint-disable no-undef */
+import { CkEditableArray } from '../../src/components/ck-editable-array/ck-editable-array';
+
+// Define the custom element before running tests
+beforeAll(() => {
+  if (!customElements.get('ck-editable-array')) {
+    customElements.define('ck-editable-array', CkEditableArray);
+  }
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const setup = (element: CkEditableArray, data: unknown[]): jest.Mock => {
+  const setValidity = jest.fn();
+  (
+    element as unknown as { _internals: { setValidity: jest.Mock } }
+  )._internals.setValidity = setValidity;
+
+  const display = document.createElement('template');
+  display.setAttribute('slot', 'display');
+  display.innerHTML = '<span data-bind="email"></span>';
+  element.appendChild(display);
+
+  const edit = document.createElement('template');
+  edit.setAttribute('slot', 'edit');
+  edit.innerHTML = `
+    <input type="email" data-bind="email" data-msg-unique="Email already used" />
+    <span data-error-for="email"></span>
+    <input type="text" data-bind="code" />`;
+  element.appendChild(edit);
+
+  element.data = data;
+  element.connectedCallback();
+  return setValidity;
+};
+
+const getRow = (element: CkEditableArray, index: number): HTMLElement =>
+  element.shadowRoot?.querySelector(`[data-row="${index}"]`) as HTMLElement;
+
+const getInput = (
+  element: CkEditableArray,
+  index: number,
+  bindPath: string
+): HTMLInputElement =>
+  getRow(element, index).querySelector(
+    `.edit-content [data-bind="${bindPath}"]`
+  ) as HTMLInputElement;
+
+const clickAction = (
+  element: CkEditableArray,
+  index: number,
+  action: string
+): void => {
+  (
+    getRow(element, index).querySelector(
+      `[data-action="${action}"]`
+    ) as HTMLButtonElement
+  ).click();
+};
+
+const typeInto = (input: HTMLInputElement, value: string): void => {
+  input.value = value;
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+const invalidRows = (element: CkEditableArray): number[] =>
+  Array.from(element.shadowRoot?.querySelectorAll('[data-row]') || [])
+    .filter(row => row.classList.contains('ck-invalid'))
+    .map(row => Number(row.getAttribute('data-row')));
+
+describe('Collection Validation', () => {
+  let element: CkEditableArray;
+
+  beforeEach(() => {
+    element = new CkEditableArray();
+    document.body.appendChild(element);
+  });
+
+  afterEach(() => {
+    if (element.parentNode) {
+      element.parentNode.removeChild(element);
+    }
+  });
+
+  describe('unique-fields', () => {
+    test('should mark duplicate rows when data is assigned', () => {
+      element.setAttribute('unique-fields', 'email');
+      const setValidity = setup(element, [
+        { email: 'a@x.io' },
+        { email: 'b@x.io' },
+        { email: 'a@x.io' },
+      ]);
+
+      expect(invalidRows(element)).toEqual([0, 2]);
+      expect(getRow(element, 0).getAttribute('aria-invalid')).toBe('true');
+      expect(setValidity).toHaveBeenLastCalledWith(
+        { customError: true },
+        'Email already used',
+        getInput(element, 0, 'email')
+      );
+    });
+
+    test('should ignore empty values and deleted rows', () => {
+      element.setAttribute('unique-fields', 'email, code');
+      const setValidity = setup(element, [
+        { email: '', code: 'A' },
+        { email: '', code: 'B' },
+        { email: 'a@x.io', code: 'A', isDeleted: true },
+      ]);
+
+      expect(invalidRows(element)).toEqual([]);
+      expect(setValidity).toHaveBeenLastCalledWith({});
+    });
+
+    test('should block saving a row that duplicates another', () => {
+      element.setAttribute('unique-fields', 'email');
+      setup(element, [{ email: 'a@x.io' }, { email: 'b@x.io' }]);
+      clickAction(element, 1, 'toggle');
+      typeInto(getInput(element, 1, 'email'), 'a@x.io');
+      clickAction(element, 1, 'save');
+
+      expect(getRow(element, 1).getAttribute('data-mode')).toBe('edit');
+      expect(getInput(element, 1, 'email').validationMessage).toBe(
+        'Email already used'
+      );
+      expect(
+        getRow(element, 1).querySelector('[data-error-for="email"]')
+          ?.textContent
+      ).toBe('Email already used');
+      expect(invalidRows(element)).toEqual([0, 1]);
+    });
+
+    test('should clear the marks once the conflict is resolved', () => {
+      element.setAttribute('unique-fields', 'email');
+      const setValidity = setup(element, [
+        { email: 'a@x.io' },
+        { email: 'a@x.io' },
+      ]);
+      clickAction(element, 1, 'toggle');
+      typeInto(getInput(element, 1, 'email'), 'c@x.io');
+      clickAction(element, 1, 'save');
+
+      expect(getRow(element, 1).getAttribute('data-mode')).toBe('display');
+      expect(invalidRows(element)).toEqual([]);
+      expect(setValidity).toHaveBeenLastCalledWith({});
+    });
+
+    test('should re-evaluate when the attribute changes', () => {
+      setup(element, [{ code: 'A' }, { code: 'A' }]);
+      expect(invalidRows(element)).toEqual([]);
+
+      element.uniqueFields = ['code'];
+      expect(element.getAttribute('unique-fields')).toBe('code');
+      expect(invalidRows(element)).toEqual([0, 1]);
+
+      element.uniqueFields = [];
+      expect(invalidRows(element)).toEqual([]);
+    });
+
+    test('should re-check when a row is deleted and the delete undone', () => {
+      element.setAttribute('unique-fields', 'email');
+      setup(element, [{ email: 'a@x.io' }, { email: 'a@x.io' }]);
+      clickAction(element, 1, 'delete');
+      expect(invalidRows(element)).toEqual([]);
+
+      element.undo();
+      expect(invalidRows(element)).toEqual([0, 1]);
+    });
+
+    test('should move the marks with an animated reorder', () => {
+      jest.useFakeTimers();
+      element.setAttribute('unique-fields', 'email');
+      const setValidity = setup(element, [
+        { email: 'a@x.io' },
+        { email: 'a@x.io' },
+        { email: 'b@x.io' },
+      ]);
+
+      element.moveDown(1);
+      jest.runAllTimers();
+      jest.useRealTimers();
+
+      expect(element.data).toEqual([
+        { email: 'a@x.io' },
+        { email: 'b@x.io' },
+        { email: 'a@x.io' },
+      ]);
+      expect(invalidRows(element)).toEqual([0, 2]);
+      expect(setValidity).toHaveBeenLastCalledWith(
+        { customError: true },
+        'Email already used',
+        getInput(element, 0, 'email')
+      );
+    });
+  });
+
+  describe('collectionValidator', () => {
+    test('should report messages about the whole array', () => {
+      const setValidity = setup(element, [
+        { email: 'a@x.io', primary: false },
+        { email: 'b@x.io', primary: false },
+      ]);
+      element.collectionValidator = rows =>
+        (rows as { primary: boolean }[]).filter(row => row.primary).length === 1
+          ? null
+          : 'Choose exactly one primary address';
+
+      expect(invalidRows(element)).toEqual([]);
+      expect(setValidity).toHaveBeenLastCalledWith(
+        { customError: true },
+        'Choose exactly one primary address',
+        undefined
+      );
+
+      element.data = [
+        { email: 'a@x.io', primary: true },
+        { email: 'b@x.io', primary: false },
+      ];
+      expect(setValidity).toHaveBeenLastCalledWith({});
+    });
+
+    test('should mark the rows and controls of returned issues', () => {
+      const setValidity = setup(element, [
+        { email: 'a@x.io', code: 'X' },
+        { email: 'b@x.io', code: '' },
+      ]);
+      element.collectionValidator = rows =>
+        (rows as { code: string }[])
+          .map((row, index) => ({ row, index }))
+          .filter(({ row }) => !row.code)
+          .map(({ index }) => ({
+            index,
+            path: 'code',
+            message: 'Code needed',
+          }));
+
+      expect(invalidRows(element)).toEqual([1]);
+      expect(setValidity).toHaveBeenLastCalledWith(
+        { customError: true },
+        'Code needed',
+        getInput(element, 1, 'code')
+      );
+
+      clickAction(element, 1, 'toggle');
+      clickAction(element, 1, 'save');
+      expect(getInput(element, 1, 'code').validationMessage).toBe(
+        'Code needed'
+      );
+
+      typeInto(getInput(element, 1, 'code'), 'Y');
+      clickAction(element, 1, 'save');
+      expect(invalidRows(element)).toEqual([]);
+      expect(setValidity).toHaveBeenLastCalledWith({});
+    });
+
+    test('should keep marks on other rows when editing is cancelled', () => {
+      element.setAttribute('unique-fields', 'email');
+      setup(element, [{ email: 'a@x.io' }, { email: 'a@x.io' }]);
+      clickAction(element, 0, 'toggle');
+      clickAction(element, 0, 'cancel');
+
+      expect(invalidRows(element)).toEqual([0, 1]);
+    });
+  });
+});
@@ -0,0 +1,204 @@
+/// <reference lib="dom" />
+/* eslint-disable no-undef */
+import { CkEditableArray } from '../../src/components/ck-editable-array/ck-editable-array';
+
+// Define the custom element before running tests
+beforeAll(() => {
+  if (!customElements.get('ck-editable-array')) {
+    customElements.define('ck-editable-array', CkEditableArray);
+  }
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+interface Line {
+  qty: number;
+  price: number;
+}
+
+const setup = (
+  element: CkEditableArray,
+  displayHTML: string,
+  data: unknown[],
+  editHTML?: string
+): void => {
+  const display = document.createElement('template');
+  display.setAttribute('slot', 'display');
+  display.innerHTML = displayHTML;
+  element.appendChild(display);
+
+  if (editHTML) {
+    const edit = document.createElement('template');
+    edit.setAttribute('slot', 'edit');
+    edit.innerHTML = editHTML;
+    element.appendChild(edit);
+  }
+
+  element.data = data;
+  element.connectedCallback();
+};
+
+const texts = (element: CkEditableArray, selector: string) =>
+  Array.from(element.shadowRoot?.querySelectorAll(selector) || []).map(
+    el => el.textContent
+  );
+
+const typeInto = (
+  element: CkEditableArray,
+  bindPath: string,
+  value: string,
+  rowIndex = 0
+): void => {
+  const input = element.shadowRoot?.querySelector(
+    `[data-row="${rowIndex}"] .edit-content [data-bind="${bindPath}"]`
+  ) as HTMLInputElement;
+  input.value = value;
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+const LINES = [
+  { qty: 2, price: 5 },
+  { qty: 1, price: 10 },
+];
+
+describe('Computed Fields', () => {
+  let element: CkEditableArray;
+
+  beforeEach(() => {
+    element = new CkEditableArray();
+    element.computed = {
+      lineTotal: row => (row as Line).qty * (row as Line).price,
+    };
+    document.body.appendChild(element);
+  });
+
+  afterEach(() => {
+    if (element.parentNode) {
+      element.parentNode.removeChild(element);
+    }
+  });
+
+  test('should render computed values', () => {
+    setup(
+      element,
+      '<span class="total" data-bind="$computed.lineTotal"></span>',
+      LINES
+    );
+    expect(texts(element, '.display-content .total')).toEqual(['10', '10']);
+  });
+
+  test('should pass the index and all rows', () => {
+    element.computed = {
+      position: (_row, index, all) => `${index + 1}/${all.length}`,
+    };
+    setup(element, '<span data-bind="$computed.position"></span>', LINES);
+    expect(texts(element, '.display-content span')).toEqual(['1/2', '2/2']);
+  });
+
+  test('should update while typing', () => {
+    setup(
+      element,
+      '<span class="total" data-bind="$computed.lineTotal"></span>',
+      LINES,
+      `<input type="number" data-bind="qty" />
+       <output data-bind="$computed.lineTotal"></output>`
+    );
+    typeInto(element, 'qty', '3');
+
+    expect(texts(element, '[data-row="0"] .total')).toEqual(['15']);
+    expect(texts(element, '[data-row="0"] output')).toEqual(['15']);
+  });
+
+  test('should refresh values that depend on other rows', () => {
+    element.computed = {
+      share: (row, _index, all) => {
+        const total = (all as Line[]).reduce((sum, line) => sum + line.qty, 0);
+        return Math.round(((row as Line).qty / total) * 100);
+      },
+    };
+    setup(
+      element,
+      '<span class="share" data-bind="$computed.share"></span>',
+      LINES,
+      '<input type="number" data-bind="qty" />'
+    );
+    expect(texts(element, '.share')).toEqual(['67', '33']);
+
+    typeInto(element, 'qty', '3', 1);
+    expect(texts(element, '.share')).toEqual(['40', '60']);
+
+    element.updateRow(0, { qty: 6 });
+    expect(texts(element, '.share')).toEqual(['67', '33']);
+  });
+
+  test('should work with formatters and other bindings', () => {
+    element.setAttribute('lang', 'en-US');
+    element.computed = {
+      lineTotal: row => (row as Line).qty * (row as Line).price,
+      expensive: row => (row as Line).price > 8,
+    };
+    setup(
+      element,
+      `<span class="total" data-bind="$computed.lineTotal" data-format="currency:USD"></span>
+       <em data-if="$computed.expensive" data-bind-class="hot:$computed.expensive">!</em>`,
+      LINES
+    );
+
+    expect(texts(element, '.total')).toEqual(['$10.00', '$10.00']);
+    expect(texts(element, 'em.hot')).toEqual(['!']);
+  });
+
+  test('should never write computed values to the data or form value', () => {
+    const setFormValue = jest.fn();
+    (
+      element as unknown as { _internals: { setFormValue: jest.Mock } }
+    )._internals.setFormValue = setFormValue;
+    setup(
+      element,
+      '<span></span>',
+      LINES,
+      `<input type="number" data-bind="qty" />
+       <input type="text" data-bind="$computed.lineTotal" readonly />`
+    );
+
+    const computedInput = element.shadowRoot?.querySelector(
+      '[data-row="0"] [data-bind="$computed.lineTotal"]'
+    ) as HTMLInputElement;
+    expect(computedInput.value).toBe('10');
+    expect(computedInput.hasAttribute('name')).toBe(false);
+
+    computedInput.value = '99';
+    computedInput.dispatchEvent(new Event('change', { bubbles: true }));
+    typeInto(element, 'qty', '4');
+    element.shadowRoot
+      ?.querySelector('[data-row="0"] [data-bind="qty"]')
+      ?.dispatchEvent(new Event('change', { bubbles: true }));
+
+    expect(element.data[0]).toEqual({ qty: 4, price: 5 });
+    const fd = setFormValue.mock.calls[
+      setFormValue.mock.calls.length - 1
+    ][0] as FormData;
+    expect(Array.from(fd.keys())).toEqual(['items[0].qty', 'items[1].qty']);
+  });
+
+  test('should render nothing for functions that throw', () => {
+    element.computed = {
+      broken: () => {
+        throw new Error('boom');
+      },
+    };
+    setup(element, '<span data-bind="$computed.broken">x</span>', [{}]);
+    expect(texts(element, '.display-content span')).toEqual(['']);
+  });
+
+  test('should re-render when computed fields are replaced', () => {
+    setup(element, '<span data-bind="$computed.lineTotal"></span>', LINES);
+    element.computed = { lineTotal: () => 'n/a' };
+    expect(texts(element, '.display-content span')).toEqual(['n/a', 'n/a']);
+
+    element.computed = {};
+    expect(texts(element, '.display-content span')).toEqual(['', '']);
+  });
+});
@@ -0,0 +1,419 @@
+/// <reference lib="dom" />
+/* eslint-disable no-undef */
+import { CkEditableArray } from '../../src/components/ck-editable-array/ck-editable-array';
+
+// Define the custom element before running tests
+beforeAll(() => {
+  if (!customElements.get('ck-editable-array')) {
+    customElements.define('ck-editable-array', CkEditableArray);
+  }
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const attachDisplayTemplate = (
+  element: CkEditableArray,
+  innerHTML = '<span data-bind="name"></span>'
+): void => {
+  const display = document.createElement('template');
+  display.setAttribute('slot', 'display');
+  display.innerHTML = innerHTML;
+  element.appendChild(display);
+};
+
+const getRows = (element: CkEditableArray): HTMLElement[] =>
+  Array.from(
+    element.shadowRoot?.querySelectorAll('[data-row]') || []
+  ) as HTMLElement[];
+
+const clickDelete = (element: CkEditableArray, index: number): void => {
+  (
+    getRows(element)[index].querySelector(
+      '[data-action="delete"]'
+    ) as HTMLButtonElement
+  ).click();
+};
+
+describe('Delete Modes', () => {
+  let element: CkEditableArray;
+
+  beforeEach(() => {
+    element = new CkEditableArray();
+    element.setAttribute('datachange-mode', 'change');
+    document.body.appendChild(element);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    if (element.parentNode) {
+      element.parentNode.removeChild(element);
+    }
+  });
+
+  describe('delete-mode attribute', () => {
+    test('should default to soft and be observed', () => {
+      expect(element.deleteMode).toBe('soft');
+      expect(CkEditableArray.observedAttributes).toContain('delete-mode');
+    });
+
+    test('should reflect the deleteMode property to the attribute', () => {
+      element.deleteMode = 'hard';
+      expect(element.getAttribute('delete-mode')).toBe('hard');
+      expect(element.deleteMode).toBe('hard');
+    });
+  });
+
+  describe('Hard delete', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      element.setAttribute('delete-mode', 'hard');
+      attachDisplayTemplate(element);
+      element.data = [{ name: 'A' }, { name: 'B' }, { name: 'C' }];
+      element.connectedCallback();
+    });
+
+    test('should animate the row out before removing it', () => {
+      const rowB = getRows(element)[1];
+      clickDelete(element, 1);
+
+      expect(rowB.classList.contains('ck-removing')).toBe(true);
+      expect(element.data).toHaveLength(3);
+
+      jest.advanceTimersByTime(250);
+
+      expect(rowB.isConnected).toBe(false);
+      expect(element.data).toEqual([{ name: 'A' }, { name: 'C' }]);
+    });
+
+    test('should not remove another row when data is reassigned during the animation', () => {
+      clickDelete(element, 1);
+      element.data = [{ name: 'B' }, { name: 'A' }, { name: 'C' }];
+      jest.advanceTimersByTime(250);
+
+      expect(element.data).toEqual([
+        { name: 'B' },
+        { name: 'A' },
+        { name: 'C' },
+      ]);
+      expect(
+        getRows(element).some(r => r.classList.contains('ck-removing'))
+      ).toBe(false);
+    });
+
+    test('should remove the clicked row when primitive rows are equal', () => {
+      element.data = ['a', 'b', 'a'];
+      const lastRow = getRows(element)[2];
+      clickDelete(element, 2);
+      jest.advanceTimersByTime(250);
+
+      expect(element.data).toEqual(['a', 'b']);
+      expect(lastRow.isConnected).toBe(false);
+    });
+
+    test('should not remove an equal primitive from reassigned data', () => {
+      element.data = ['a', 'b'];
+      clickDelete(element, 0);
+      element.data = ['x', 'a'];
+      jest.advanceTimersByTime(250);
+
+      expect(element.data).toEqual(['x', 'a']);
+    });
+
+    test('should drop the pending delete when disconnected mid-animation', () => {
+      clickDelete(element, 1);
+      element.remove();
+      document.body.appendChild(element);
+      jest.advanceTimersByTime(250);
+
+      expect(element.data).toHaveLength(3);
+      expect(
+        getRows(element).some(r => r.classList.contains('ck-removing'))
+      ).toBe(false);
+
+      // Methods guarded by the animation run again
+      element.moveDown(0);
+      jest.advanceTimersByTime(250);
+      element.addRow({ name: 'D' });
+      expect(element.data).toEqual([
+        { name: 'B' },
+        { name: 'A' },
+        { name: 'C' },
+        { name: 'D' },
+      ]);
+    });
+
+    test('should update indices and labels of following rows', () => {
+      clickDelete(element, 0);
+      jest.advanceTimersByTime(250);
+
+      const rows = getRows(element);
+      expect(rows.map(r => r.getAttribute('data-row'))).toEqual(['0', '1']);
+      expect(
+        rows[1]
+          .querySelector('[data-action="delete"]')
+          ?.getAttribute('aria-label')
+      ).toBe('Delete item 2');
+    });
+
+    test('should dispatch rowremoved with the removed item and former index', () => {
+      const handler = jest.fn();
+      element.addEventListener('rowremoved', handler);
+
+      clickDelete(element, 1);
+      jest.advanceTimersByTime(250);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      const event = handler.mock.calls[0][0] as CustomEvent;
+      expect(event.bubbles).toBe(true);
+      expect(event.composed).toBe(true);
+      expect(event.detail).toEqual({ index: 1, row: { name: 'B' } });
+    });
+
+    test('should dispatch datachanged without the removed row', () => {
+      const handler = jest.fn();
+      element.addEventListener('datachanged', handler);
+
+      clickDelete(element, 2);
+      jest.advanceTimersByTime(250);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0][0].detail.data).toEqual([
+        { name: 'A' },
+        { name: 'B' },
+      ]);
+    });
+
+    test('should not write a deleted flag into the data', () => {
+      clickDelete(element, 0);
+      jest.advanceTimersByTime(250);
+      expect(element.data).toEqual([{ name: 'B' }, { name: 'C' }]);
+    });
+
+    test('should remove immediately when reduced motion is preferred', () => {
+      const originalMatchMedia = window.matchMedia;
+      window.matchMedia = jest.fn().mockReturnValue({
+        matches: true,
+      }) as unknown as typeof window.matchMedia;
+      try {
+        clickDelete(element, 0);
+        expect(element.data).toEqual([{ name: 'B' }, { name: 'C' }]);
+      } finally {
+        window.matchMedia = originalMatchMedia;
+      }
+    });
+
+    test('should restore a row that is already soft-deleted', () => {
+      element.data = [{ name: 'A', isDeleted: true }];
+      clickDelete(element, 0);
+
+      expect(element.data).toEqual([{ name: 'A', isDeleted: false }]);
+    });
+  });
+
+  describe('Soft delete for primitive rows', () => {
+    beforeEach(() => {
+      attachDisplayTemplate(element, '<span class="value"></span>');
+      element.data = ['a', 'b', 0];
+      element.connectedCallback();
+    });
+
+    test('should mark primitive rows as deleted without changing the data', () => {
+      clickDelete(element, 1);
+
+      const row = getRows(element)[1];
+      expect(row.classList.contains('ck-deleted')).toBe(true);
+      expect(row.querySelector('[data-action="delete"]')?.textContent).toBe(
+        'Restore'
+      );
+      expect(
+        (row.querySelector('input[data-deleted-flag]') as HTMLInputElement)
+          .checked
+      ).toBe(true);
+      expect(element.data).toEqual(['a', 'b', 0]);
+    });
+
+    test('should allow deleting falsy primitive values', () => {
+      clickDelete(element, 2);
+      expect(getRows(element)[2].classList.contains('ck-deleted')).toBe(true);
+    });
+
+    test('should restore a deleted primitive row', () => {
+      clickDelete(element, 0);
+      clickDelete(element, 0);
+
+      const row = getRows(element)[0];
+      expect(row.classList.contains('ck-deleted')).toBe(false);
+      expect(
+        (row.querySelector('[data-action="toggle"]') as HTMLButtonElement)
+          .disabled
+      ).toBe(false);
+    });
+
+    test('should keep deletion state with the row when rows shift', () => {
+      clickDelete(element, 1);
+
+      element.insertRow(0, 'z');
+      expect(
+        getRows(element).map(r => r.classList.contains('ck-deleted'))
+      ).toEqual([false, false, true, false]);
+
+      element.removeRow(0);
+      expect(
+        getRows(element).map(r => r.classList.contains('ck-deleted'))
+      ).toEqual([false, true, false]);
+    });
+
+    test('should move deletion state with a reorder', () => {
+      const originalMatchMedia = window.matchMedia;
+      window.matchMedia = jest.fn().mockReturnValue({
+        matches: true,
+      }) as unknown as typeof window.matchMedia;
+      try {
+        clickDelete(element, 0);
+        element.moveDown(0);
+
+        expect(
+          getRows(element).map(r => r.classList.contains('ck-deleted'))
+        ).toEqual([false, true, false]);
+      } finally {
+        window.matchMedia = originalMatchMedia;
+      }
+    });
+
+    test('should reset deletion state when data is reassigned', () => {
+      clickDelete(element, 0);
+      element.data = ['x', 'y'];
+      expect(
+        getRows(element).some(r => r.classList.contains('ck-deleted'))
+      ).toBe(false);
+    });
+  });
+
+  describe('deleted-field attribute', () => {
+    beforeEach(() => {
+      element.setAttribute('deleted-field', '_destroy');
+      attachDisplayTemplate(element);
+      element.data = [{ name: 'A' }, { name: 'B', _destroy: true }];
+      element.connectedCallback();
+    });
+
+    test('should default to isDeleted', () => {
+      element.removeAttribute('deleted-field');
+      expect(element.deletedField).toBe('isDeleted');
+    });
+
+    test('should write the configured flag on delete', () => {
+      clickDelete(element, 0);
+      expect(element.data[0]).toEqual({ name: 'A', _destroy: true });
+      expect(element.data[0]).not.toHaveProperty('isDeleted');
+    });
+
+    test('should read the configured flag when rendering', () => {
+      const rows = getRows(element);
+      expect(rows[0].classList.contains('ck-deleted')).toBe(false);
+      expect(rows[1].classList.contains('ck-deleted')).toBe(true);
+    });
+
+    test('should bind and name the hidden checkbox with the configured field', () => {
+      const checkbox = getRows(element)[1].querySelector(
+        'input[data-deleted-flag]'
+      ) as HTMLInputElement;
+      expect(checkbox.getAttribute('data-bind')).toBe('_destroy');
+      expect(checkbox.getAttribute('name')).toBe('items[1]._destroy');
+      expect(checkbox.checked).toBe(true);
+    });
+
+    test('should recreate rows when the attribute changes', () => {
+      element.setAttribute('deleted-field', 'markedForDeletion');
+      const checkbox = getRows(element)[0].querySelector(
+        'input[data-deleted-flag]'
+      ) as HTMLInputElement;
+      expect(checkbox.getAttribute('data-bind')).toBe('markedForDeletion');
+      expect(getRows(element)[1].classList.contains('ck-deleted')).toBe(false);
+    });
+  });
+
+  describe('purgeDeleted', () => {
+    beforeEach(() => {
+      attachDisplayTemplate(element);
+      element.data = [
+        { name: 'A', isDeleted: true },
+        { name: 'B' },
+        { name: 'C', isDeleted: true },
+      ];
+      element.connectedCallback();
+    });
+
+    test('should remove soft-deleted rows and return them in order', () => {
+      const purged = element.purgeDeleted();
+
+      expect(purged).toEqual([
+        { name: 'A', isDeleted: true },
+        { name: 'C', isDeleted: true },
+      ]);
+      expect(element.data).toEqual([{ name: 'B' }]);
+      expect(getRows(element)).toHaveLength(1);
+      expect(getRows(element)[0].getAttribute('data-row')).toBe('0');
+    });
+
+    test('should dispatch datachanged once', () => {
+      const handler = jest.fn();
+      element.addEventListener('datachanged', handler);
+
+      element.purgeDeleted();
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    test('should return an empty array when nothing is deleted', () => {
+      element.purgeDeleted();
+      const handler = jest.fn();
+      element.addEventListener('datachanged', handler);
+
+      expect(element.purgeDeleted()).toEqual([]);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    test('should purge internally deleted primitive rows', () => {
+      element.data = ['x', 'y', 'z'];
+      clickDelete(element, 1);
+
+      expect(element.purgeDeleted()).toEqual(['y']);
+      expect(element.data).toEqual(['x', 'z']);
+    });
+  });
+
+  describe('exclude-deleted attribute', () => {
+    test('should leave controls of deleted rows out of the form value', () => {
+      const setFormValue = jest.fn();
+      (
+        element as unknown as { _internals: { setFormValue: jest.Mock } }
+      )._internals.setFormValue = setFormValue;
+
+      element.setAttribute('exclude-deleted', '');
+      attachDisplayTemplate(element);
+      const edit = document.createElement('template');
+      edit.setAttribute('slot', 'edit');
+      edit.innerHTML = '<input type="text" data-bind="name" />';
+      element.appendChild(edit);
+      element.data = [{ name: 'A' }, { name: 'B', isDeleted: true }];
+      element.connectedCallback();
+
+      const fd = setFormValue.mock.calls[
+        setFormValue.mock.calls.length - 1
+      ][0] as FormData;
+      expect(fd.get('items[0].name')).toBe('A');
+      expect(fd.has('items[1].name')).toBe(false);
+      expect(fd.has('items[1].isDeleted')).toBe(false);
+
+      element.excludeDeleted = false;
+      const fdAll = setFormValue.mock.calls[
+        setFormValue.mock.calls.length - 1
+      ][0] as FormData;
+      expect(fdAll.get('items[1].name')).toBe('B');
+      expect(fdAll.get('items[1].isDeleted')).toBe('on');
+    });
+  });
+});
@@ -0,0 +1,245 @@
+/// <reference lib="dom" />
+/* eslint-disable no-undef */
+import { CkEditableArray } from '../../src/components/ck-editable-array/ck-editable-array';
+
+// Define the custom element before running tests
+beforeAll(() => {
+  if (!customElements.get('ck-editable-array')) {
+    customElements.define('ck-editable-array', CkEditableArray);
+  }
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const setup = (
+  element: CkEditableArray,
+  displayHTML: string,
+  data: unknown[],
+  editHTML?: string
+): void => {
+  const display = document.createElement('template');
+  display.setAttribute('slot', 'display');
+  display.innerHTML = displayHTML;
+  element.appendChild(display);
+
+  if (editHTML) {
+    const edit = document.createElement('template');
+    edit.setAttribute('slot', 'edit');
+    edit.innerHTML = editHTML;
+    element.appendChild(edit);
+  }
+
+  element.data = data;
+  element.connectedCallback();
+};
+
+const getDisplay = (element: CkEditableArray, rowIndex = 0): HTMLElement =>
+  element.shadowRoot?.querySelector(
+    `[data-row="${rowIndex}"] .display-content`
+  ) as HTMLElement;
+
+const texts = (root: ParentNode, selector: string): (string | null)[] =>
+  Array.from(root.querySelectorAll(selector)).map(el => el.textContent);
+
+describe('Template Directives', () => {
+  let element: CkEditableArray;
+
+  beforeEach(() => {
+    element = new CkEditableArray();
+    document.body.appendChild(element);
+  });
+
+  afterEach(() => {
+    if (element.parentNode) {
+      element.parentNode.removeChild(element);
+    }
+  });
+
+  describe('data-if / data-if-not', () => {
+    test('should render elements only when the condition holds', () => {
+      setup(
+        element,
+        `<span class="vip" data-if="vip">VIP</span>
+         <span class="regular" data-if-not="vip">Regular</span>`,
+        [{ vip: true }, { vip: false }]
+      );
+
+      expect(getDisplay(element, 0).querySelector('.vip')).not.toBeNull();
+      expect(getDisplay(element, 0).querySelector('.regular')).toBeNull();
+      expect(getDisplay(element, 1).querySelector('.vip')).toBeNull();
+      expect(getDisplay(element, 1).querySelector('.regular')).not.toBeNull();
+    });
+
+    test('should re-evaluate on every rebind and keep the position', () => {
+      setup(
+        element,
+        '<b>1</b><i data-if="note" data-bind="note"></i><b>2</b>',
+        [{ note: '' }]
+      );
+      expect(getDisplay(element).querySelector('i')).toBeNull();
+
+      element.updateRow(0, { note: 'hello' });
+      const display = getDisplay(element);
+      expect(texts(display, '*')).toEqual(['1', 'hello', '2']);
+
+      element.updateRow(0, { note: null });
+      expect(display.querySelector('i')).toBeNull();
+    });
+
+    test('should treat empty arrays as false', () => {
+      setup(element, '<p data-if-not="tags">No tags</p>', [{ tags: [] }]);
+      expect(getDisplay(element).querySelector('p')).not.toBeNull();
+
+      element.updateRow(0, { tags: ['a'] });
+      expect(getDisplay(element).querySelector('p')).toBeNull();
+    });
+
+    test('should leave out controls of hidden fragments from the form value', () => {
+      const setFormValue = jest.fn();
+      (
+        element as unknown as { _internals: { setFormValue: jest.Mock } }
+      )._internals.setFormValue = setFormValue;
+      setup(
+        element,
+        '<span></span>',
+        [{ company: false, vat: 'X1' }],
+        `<input type="checkbox" data-bind="company" />
+         <input type="text" data-bind="vat" data-if="company" />`
+      );
+
+      const fd = setFormValue.mock.calls[
+        setFormValue.mock.calls.length - 1
+      ][0] as FormData;
+      expect(fd.has('items[0].vat')).toBe(false);
+    });
+
+    test('should show fields when an input in the row changes', () => {
+      setup(
+        element,
+        '<span></span>',
+        [{ company: false, vat: '' }],
+        `<input type="checkbox" data-bind="company" />
+         <input type="text" data-bind="vat" data-if="company" />`
+      );
+      const row = element.shadowRoot?.querySelector(
+        '[data-row="0"]'
+      ) as HTMLElement;
+      const checkbox = row.querySelector(
+        '[data-bind="company"]'
+      ) as HTMLInputElement;
+      checkbox.checked = true;
+      checkbox.dispatchEvent(new Event('change', { bubbles: true }));
+
+      expect(
+        row.querySelector('.edit-content [data-bind="vat"]')
+      ).not.toBeNull();
+    });
+  });
+
+  describe('data-each', () => {
+    test('should render the nested template once per item', () => {
+      setup(
+        element,
+        `<ul data-each="tags">
+           <template><li class="chip" data-bind="."></li></template>
+         </ul>`,
+        [{ tags: ['a', 'b'] }, { tags: [] }]
+      );
+
+      expect(texts(getDisplay(element, 0), '.chip')).toEqual(['a', 'b']);
+      expect(texts(getDisplay(element, 1), '.chip')).toEqual([]);
+    });
+
+    test('should resolve bindings against object items', () => {
+      setup(
+        element,
+        `<div data-each="links">
+           <template>
+             <a data-bind="label" data-bind-attr="href:url"></a>
+             <em data-if="external">↗</em>
+           </template>
+         </div>`,
+        [
+          {
+            links: [
+              { label: 'Docs', url: '/docs' },
+              { label: 'Home', url: 'https://x.io', external: true },
+            ],
+          },
+        ]
+      );
+
+      const links = getDisplay(element).querySelectorAll('a');
+      expect(Array.from(links).map(a => a.getAttribute('href'))).toEqual([
+        '/docs',
+        'https://x.io',
+      ]);
+      expect(texts(getDisplay(element), 'a')).toEqual(['Docs', 'Home']);
+      expect(getDisplay(element).querySelectorAll('em')).toHaveLength(1);
+    });
+
+    test('should support nested data-each', () => {
+      setup(
+        element,
+        `<div data-each="groups">
+           <template>
+             <section data-each="items">
+               <template><span data-bind="."></span></template>
+             </section>
+           </template>
+         </div>`,
+        [{ groups: [{ items: [1, 2] }, { items: [3] }] }]
+      );
+
+      const sections = getDisplay(element).querySelectorAll('section');
+      expect(texts(sections[0], 'span')).toEqual(['1', '2']);
+      expect(texts(sections[1], 'span')).toEqual(['3']);
+    });
+
+    test('should re-render only when the items change', () => {
+      setup(
+        element,
+        `<ul data-each="tags"><template><li data-bind="."></li></template></ul>
+         <span data-bind="name"></span>`,
+        [{ name: 'A', tags: ['a'] }]
+      );
+      const first = getDisplay(element).querySelector('li');
+
+      element.updateRow(0, { name: 'B' });
+      expect(getDisplay(element).querySelector('li')).toBe(first);
+
+      element.updateRow(0, { tags: ['x', 'y', 'z'] });
+      expect(texts(getDisplay(element), 'li')).toEqual(['x', 'y', 'z']);
+    });
+
+    test('should sanitize the nested template content', () => {
+      setup(
+        element,
+        `<div data-each="items">
+           <template>
+             <img src="x" onerror="alert(1)" />
+             <a href="javascript:alert(1)">x</a>
+             <script>alert(1)</script>
+           </template>
+         </div>`,
+        [{ items: [1] }]
+      );
+
+      const display = getDisplay(element);
+      expect(display.querySelector('img')?.hasAttribute('onerror')).toBe(false);
+      expect(display.querySelector('a')?.hasAttribute('href')).toBe(false);
+      expect(display.querySelector('script')).toBeNull();
+    });
+
+    test('should render nothing for values that are not arrays', () => {
+      setup(
+        element,
+        '<ul data-each="tags"><template><li></li></template></ul>',
+        [{ tags: 'a,b' }]
+      );
+      expect(getDisplay(element).querySelectorAll('li')).toHaveLength(0);
+    });
+  });
+});
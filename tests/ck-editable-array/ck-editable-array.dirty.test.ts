@@ -0,0 +1,312 @@
+/// <reference lib="dom" />
+/* eslint-disable no-undef */
+import { CkEditableArray } from '../../src/components/ck-editable-array/ck-editable-array';
+
+// Define the custom element before running tests
+beforeAll(() => {
+  if (!customElements.get('ck-editable-array')) {
+    customElements.define('ck-editable-array', CkEditableArray);
+  }
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const attachTemplates = (element: CkEditableArray): void => {
+  const display = document.createElement('template');
+  display.setAttribute('slot', 'display');
+  display.innerHTML = `<span data-bind="name"></span>`;
+  element.appendChild(display);
+
+  const edit = document.createElement('template');
+  edit.setAttribute('slot', 'edit');
+  edit.innerHTML = `<input type="text" data-bind="name" />`;
+  element.appendChild(edit);
+};
+
+const getRows = (element: CkEditableArray): HTMLElement[] =>
+  Array.from(
+    element.shadowRoot?.querySelectorAll('[data-row]') || []
+  ) as HTMLElement[];
+
+const clickRowAction = (
+  element: CkEditableArray,
+  index: number,
+  action: string
+): void => {
+  (
+    getRows(element)[index].querySelector(
+      `[data-action="${action}"]`
+    ) as HTMLButtonElement
+  ).click();
+};
+
+const typeName = (
+  element: CkEditableArray,
+  index: number,
+  value: string
+): void => {
+  const input = getRows(element)[index].querySelector(
+    '.edit-content input'
+  ) as HTMLInputElement;
+  input.value = value;
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+const dirtyFlags = (element: CkEditableArray): boolean[] =>
+  getRows(element).map(row => row.hasAttribute('data-dirty'));
+
+describe('Dirty Tracking', () => {
+  let element: CkEditableArray;
+  let states: Set<string>;
+  let originalMatchMedia: typeof window.matchMedia;
+
+  beforeEach(() => {
+    // Skip move animations so reorders complete synchronously
+    originalMatchMedia = window.matchMedia;
+    window.matchMedia = jest.fn().mockReturnValue({
+      matches: true,
+    }) as unknown as typeof window.matchMedia;
+
+    element = new CkEditableArray();
+    // jsdom has no CustomStateSet; a Set stands in for it
+    states = new Set<string>();
+    (element as unknown as { _internals: { states: Set<string> } })._internals =
+      Object.assign(
+        (element as unknown as { _internals: ElementInternals })._internals,
+        { states }
+      );
+    element.setAttribute('key-field', 'id');
+    document.body.appendChild(element);
+    attachTemplates(element);
+    element.data = [
+      { id: 1, name: 'A' },
+      { id: 2, name: 'B' },
+      { id: 3, name: 'C' },
+    ];
+    element.connectedCallback();
+  });
+
+  afterEach(() => {
+    window.matchMedia = originalMatchMedia;
+    if (element.parentNode) {
+      element.parentNode.removeChild(element);
+    }
+  });
+
+  describe('isDirty', () => {
+    test('should be clean after the initial data load', () => {
+      expect(element.isDirty).toBe(false);
+      expect(states.has('dirty')).toBe(false);
+      expect(dirtyFlags(element)).toEqual([false, false, false]);
+    });
+
+    test('should become dirty after a saved edit', () => {
+      clickRowAction(element, 1, 'toggle');
+      typeName(element, 1, 'B2');
+      // Unsaved input does not count
+      expect(element.isDirty).toBe(false);
+
+      clickRowAction(element, 1, 'save');
+
+      expect(element.isDirty).toBe(true);
+      expect(states.has('dirty')).toBe(true);
+      expect(dirtyFlags(element)).toEqual([false, true, false]);
+    });
+
+    test('should become clean again when the change is reverted', () => {
+      element.updateRow(0, { name: 'A2' });
+      element.updateRow(0, { name: 'A' });
+
+      expect(element.isDirty).toBe(false);
+      expect(states.has('dirty')).toBe(false);
+    });
+
+    test('should re-check only the changed row on single-row changes', () => {
+      const computeChanges = jest.spyOn(
+        element as unknown as { _computeChanges: () => unknown },
+        '_computeChanges'
+      );
+
+      element.updateRow(1, { name: 'B2' });
+      clickRowAction(element, 2, 'delete');
+      expect(element.isDirty).toBe(true);
+      expect(dirtyFlags(element)).toEqual([false, true, true]);
+
+      element.updateRow(1, { name: 'B' });
+      clickRowAction(element, 2, 'delete');
+      expect(element.isDirty).toBe(false);
+      expect(states.has('dirty')).toBe(false);
+      expect(computeChanges).not.toHaveBeenCalled();
+
+      // A changed key may match another baseline row
+      element.updateRow(0, { id: 9 });
+      expect(computeChanges).toHaveBeenCalledTimes(1);
+      expect(element.getChanges().added).toEqual([{ id: 9, name: 'A' }]);
+    });
+
+    test('should not treat a restored row as modified', () => {
+      clickRowAction(element, 0, 'delete');
+      clickRowAction(element, 0, 'delete');
+
+      expect(element.data[0]).toEqual({ id: 1, name: 'A', isDeleted: false });
+      expect(element.isDirty).toBe(false);
+    });
+  });
+
+  describe('getChanges', () => {
+    test('should report added, modified, deleted and moved rows', () => {
+      element.updateRow(0, { name: 'A2' });
+      clickRowAction(element, 1, 'delete');
+      element.addRow({ name: 'New' });
+      element.moveUp(2);
+
+      expect(element.getChanges()).toEqual({
+        added: [{ name: 'New' }],
+        modified: [{ id: 1, name: 'A2' }],
+        deleted: [{ id: 2, name: 'B', isDeleted: true }],
+        moved: [{ key: '3', fromIndex: 2, toIndex: 1 }],
+      });
+    });
+
+    test('should report hard-deleted rows from the initial data', () => {
+      element.removeRow(2);
+      expect(element.getChanges().deleted).toEqual([{ id: 3, name: 'C' }]);
+      expect(element.isDirty).toBe(true);
+    });
+
+    test('should only report the rows that actually moved', () => {
+      element.data = [
+        { id: 2, name: 'B' },
+        { id: 3, name: 'C' },
+        { id: 1, name: 'A' },
+      ];
+
+      expect(element.getChanges().moved).toEqual([
+        { key: '1', fromIndex: 0, toIndex: 2 },
+      ]);
+      expect(dirtyFlags(element)).toEqual([false, false, true]);
+    });
+
+    test('should ignore rows that were added and then deleted', () => {
+      element.addRow({ id: 4, name: 'D' });
+      clickRowAction(element, 3, 'delete');
+
+      expect(element.getChanges().added).toEqual([]);
+      expect(element.isDirty).toBe(false);
+    });
+
+    test('should return clones', () => {
+      element.updateRow(0, { name: 'A2' });
+      const changes = element.getChanges();
+      (changes.modified[0] as { name: string }).name = 'mutated';
+
+      expect(element.data[0]).toEqual({ id: 1, name: 'A2' });
+    });
+
+    test('should compare by position without a key field', () => {
+      element.removeAttribute('key-field');
+      element.data = [{ name: 'x' }, { name: 'y' }];
+      element.markPristine();
+
+      element.updateRow(1, { name: 'y2' });
+      element.addRow({ name: 'z' });
+
+      expect(element.getChanges()).toEqual({
+        added: [{ name: 'z' }],
+        modified: [{ name: 'y2' }],
+        deleted: [],
+        moved: [],
+      });
+    });
+
+    test('should report primitive soft deletes', () => {
+      element.removeAttribute('key-field');
+      element.data = ['a', 'b'];
+      element.markPristine();
+      clickRowAction(element, 1, 'delete');
+
+      expect(element.getChanges().deleted).toEqual(['b']);
+    });
+  });
+
+  describe('data-dirty on rows', () => {
+    test('should mark a draft row and keep other markers aligned', () => {
+      element.updateRow(2, { name: 'C2' });
+      element.allowAdd = true;
+      (
+        element.shadowRoot?.querySelector(
+          '[data-action="add"]'
+        ) as HTMLButtonElement
+      ).click();
+
+      expect(dirtyFlags(element)).toEqual([false, false, true, true]);
+
+      clickRowAction(element, 3, 'cancel');
+      expect(dirtyFlags(element)).toEqual([false, false, true]);
+    });
+
+    test('should update markers for controls edited outside edit mode', () => {
+      const inline = new CkEditableArray();
+      document.body.appendChild(inline);
+      const display = document.createElement('template');
+      display.setAttribute('slot', 'display');
+      display.innerHTML = '<input type="text" data-bind="name" />';
+      inline.appendChild(display);
+      inline.data = [{ name: 'A' }];
+      inline.connectedCallback();
+
+      const input = getRows(inline)[0].querySelector(
+        '.display-content input'
+      ) as HTMLInputElement;
+      input.value = 'A2';
+      input.dispatchEvent(new Event('input', { bubbles: true }));
+
+      expect(dirtyFlags(inline)).toEqual([true]);
+      inline.remove();
+    });
+  });
+
+  describe('markPristine', () => {
+    test('should re-baseline dirty tracking', () => {
+      element.updateRow(0, { name: 'A2' });
+      element.markPristine();
+
+      expect(element.isDirty).toBe(false);
+      expect(states.has('dirty')).toBe(false);
+      expect(dirtyFlags(element)).toEqual([false, false, false]);
+      expect(element.getChanges().modified).toEqual([]);
+    });
+
+    test('should become the form reset target', () => {
+      element.updateRow(0, { name: 'A2' });
+      element.markPristine();
+      element.updateRow(0, { name: 'A3' });
+
+      element.formResetCallback();
+
+      expect(element.data[0]).toEqual({ id: 1, name: 'A2' });
+      expect(element.isDirty).toBe(false);
+    });
+
+    test('should exclude an in-progress edit from the baseline', () => {
+      clickRowAction(element, 0, 'toggle');
+      typeName(element, 0, 'unsaved');
+      element.markPristine();
+      clickRowAction(element, 0, 'save');
+
+      expect(element.getChanges().modified).toEqual([
+        { id: 1, name: 'unsaved' },
+      ]);
+    });
+  });
+
+  test('should reflect undo in the dirty state', () => {
+    element.updateRow(0, { name: 'A2' });
+    element.undo();
+
+    expect(element.isDirty).toBe(false);
+    expect(dirtyFlags(element)).toEqual([false, false, false]);
+  });
+});
@@ -0,0 +1,272 @@
+/// <reference lib="dom" />
+/* eslint-disable no-undef */
+import { CkEditableArray } from '../../src/components/ck-editable-array/ck-editable-array';
+
+// Define the custom element before running tests
+beforeAll(() => {
+  if (!customElements.get('ck-editable-array')) {
+    customElements.define('ck-editable-array', CkEditableArray);
+  }
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const attachTemplates = (element: CkEditableArray): void => {
+  const display = document.createElement('template');
+  display.setAttribute('slot', 'display');
+  display.innerHTML = `
+    <span data-bind="name" part="name"></span>
+    <span data-bind="address.city"></span>
+    <span data-bind="address"></span>
+  `;
+  element.appendChild(display);
+
+  const edit = document.createElement('template');
+  edit.setAttribute('slot', 'edit');
+  edit.innerHTML = `
+    <input type="text" data-bind="name" />
+    <input type="text" data-bind="email" />
+    <input type="text" data-bind="address.city" />
+  `;
+  element.appendChild(edit);
+};
+
+const getRow = (element: CkEditableArray, index: number): HTMLElement =>
+  element.shadowRoot?.querySelector(`[data-row="${index}"]`) as HTMLElement;
+
+const clickRowAction = (
+  element: CkEditableArray,
+  index: number,
+  action: string
+): void => {
+  (
+    getRow(element, index).querySelector(
+      `[data-action="${action}"]`
+    ) as HTMLButtonElement
+  ).click();
+};
+
+const getInput = (
+  element: CkEditableArray,
+  index: number,
+  bindPath: string
+): HTMLInputElement =>
+  getRow(element, index).querySelector(
+    `.edit-content [data-bind="${bindPath}"]`
+  ) as HTMLInputElement;
+
+const typeInto = (input: HTMLInputElement, value: string): void => {
+  input.value = value;
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+// Bind paths of the dirty elements in one part of a row
+const dirtyPaths = (
+  element: CkEditableArray,
+  index: number,
+  content: 'display' | 'edit'
+): (string | null)[] =>
+  Array.from(
+    getRow(element, index).querySelectorAll(
+      `.${content}-content [data-bind][data-dirty]`
+    )
+  ).map(el => el.getAttribute('data-bind'));
+
+describe('Field-Level Dirty Markers', () => {
+  let element: CkEditableArray;
+
+  beforeEach(() => {
+    element = new CkEditableArray();
+    element.setAttribute('key-field', 'id');
+    document.body.appendChild(element);
+    attachTemplates(element);
+    element.data = [
+      { id: 1, name: 'A', email: 'a@x.io', address: { city: 'Oslo' } },
+      { id: 2, name: 'B', email: 'b@x.io', address: { city: 'Rome' } },
+    ];
+    element.connectedCallback();
+  });
+
+  afterEach(() => {
+    if (element.parentNode) {
+      element.parentNode.removeChild(element);
+    }
+  });
+
+  describe('In edit mode', () => {
+    test('should mark only the fields that differ from the edit snapshot', () => {
+      clickRowAction(element, 0, 'toggle');
+      expect(dirtyPaths(element, 0, 'edit')).toEqual([]);
+
+      typeInto(getInput(element, 0, 'email'), 'new@x.io');
+
+      expect(dirtyPaths(element, 0, 'edit')).toEqual(['email']);
+      const email = getInput(element, 0, 'email');
+      expect(email.getAttribute('part')).toBe('field-dirty');
+    });
+
+    test('should clear the marker when the value is typed back', () => {
+      clickRowAction(element, 0, 'toggle');
+      typeInto(getInput(element, 0, 'name'), 'A2');
+      typeInto(getInput(element, 0, 'name'), 'A');
+
+      expect(dirtyPaths(element, 0, 'edit')).toEqual([]);
+      expect(getInput(element, 0, 'name').hasAttribute('part')).toBe(false);
+    });
+
+    test('should mark bindings to a parent of a changed nested path', () => {
+      clickRowAction(element, 0, 'toggle');
+      typeInto(getInput(element, 0, 'address.city'), 'Bergen');
+
+      expect(dirtyPaths(element, 0, 'display')).toEqual([
+        'address.city',
+        'address',
+      ]);
+    });
+
+    test('should keep existing part tokens', () => {
+      clickRowAction(element, 0, 'toggle');
+      typeInto(getInput(element, 0, 'name'), 'A2');
+
+      const name = getRow(element, 0).querySelector(
+        '.display-content [data-bind="name"]'
+      ) as HTMLElement;
+      expect(name.getAttribute('part')).toBe('name field-dirty');
+
+      typeInto(getInput(element, 0, 'name'), 'A');
+      expect(name.getAttribute('part')).toBe('name');
+    });
+
+    test('should clear markers on cancel', () => {
+      clickRowAction(element, 0, 'toggle');
+      typeInto(getInput(element, 0, 'name'), 'A2');
+      clickRowAction(element, 0, 'cancel');
+
+      expect(dirtyPaths(element, 0, 'display')).toEqual([]);
+      expect(dirtyPaths(element, 0, 'edit')).toEqual([]);
+    });
+  });
+
+  describe('Against the initial data', () => {
+    test('should keep markers on saved changes', () => {
+      clickRowAction(element, 1, 'toggle');
+      typeInto(getInput(element, 1, 'name'), 'B2');
+      clickRowAction(element, 1, 'save');
+
+      expect(dirtyPaths(element, 1, 'display')).toEqual(['name']);
+    });
+
+    test('should compare a re-opened row with its last saved values', () => {
+      element.updateRow(1, { name: 'B2' });
+      clickRowAction(element, 1, 'toggle');
+
+      expect(dirtyPaths(element, 1, 'edit')).toEqual([]);
+    });
+
+    test('should follow keyed rows when they move', () => {
+      element.data = [element.data[1], element.data[0]];
+      expect(dirtyPaths(element, 0, 'display')).toEqual([]);
+
+      element.updateRow(0, { name: 'B2' });
+      expect(dirtyPaths(element, 0, 'display')).toEqual(['name']);
+      expect(dirtyPaths(element, 1, 'display')).toEqual([]);
+    });
+
+    test('should mark all populated fields of added rows', () => {
+      element.addRow({ id: 3, name: 'C' });
+      expect(dirtyPaths(element, 2, 'display')).toEqual(['name']);
+    });
+
+    test('should clear markers on markPristine', () => {
+      element.updateRow(0, { name: 'A2' });
+      element.markPristine();
+      expect(dirtyPaths(element, 0, 'display')).toEqual([]);
+    });
+
+    test('should not mark fields of soft-deleted rows', () => {
+      clickRowAction(element, 0, 'delete');
+      expect(dirtyPaths(element, 0, 'display')).toEqual([]);
+      expect(
+        getRow(element, 0)
+          .querySelector('input[data-deleted-flag]')
+          ?.hasAttribute('data-dirty')
+      ).toBe(false);
+    });
+  });
+
+  describe('changedPaths in rowchanged', () => {
+    let handler: jest.Mock;
+
+    beforeEach(() => {
+      handler = jest.fn();
+      element.addEventListener('rowchanged', handler);
+    });
+
+    test('should report the bind path of an input change', () => {
+      clickRowAction(element, 0, 'toggle');
+      typeInto(getInput(element, 0, 'address.city'), 'Bergen');
+
+      expect(handler.mock.calls[0][0].detail.changedPaths).toEqual([
+        'address.city',
+      ]);
+    });
+
+    test('should report the paths changed by updateRow', () => {
+      element.updateRow(1, {
+        name: 'B2',
+        email: 'b@x.io',
+        address: { city: 'Milan' },
+      });
+
+      expect(handler.mock.calls[0][0].detail.changedPaths).toEqual([
+        'name',
+        'address.city',
+      ]);
+    });
+
+    test('should report bracket bind paths in dotted notation', () => {
+      const other = new CkEditableArray();
+      document.body.appendChild(other);
+      const display = document.createElement('template');
+      display.setAttribute('slot', 'display');
+      display.innerHTML = '<span data-bind="addresses[0].city"></span>';
+      other.appendChild(display);
+      const edit = document.createElement('template');
+      edit.setAttribute('slot', 'edit');
+      edit.innerHTML = '<input type="text" data-bind="addresses[0].city" />';
+      other.appendChild(edit);
+      other.data = [{ addresses: [{ city: 'Oslo' }] }];
+      other.connectedCallback();
+      other.addEventListener('rowchanged', handler);
+
+      clickRowAction(other, 0, 'toggle');
+      typeInto(getInput(other, 0, 'addresses[0].city'), 'Bergen');
+      other.updateRow(0, { addresses: [{ city: 'Milan' }] });
+
+      expect(handler.mock.calls.map(c => c[0].detail.changedPaths)).toEqual([
+        ['addresses.0.city'],
+        ['addresses.0.city'],
+      ]);
+      other.remove();
+    });
+
+    test('should report the deleted flag on delete and restore', () => {
+      clickRowAction(element, 1, 'delete');
+      clickRowAction(element, 1, 'delete');
+
+      expect(handler.mock.calls.map(c => c[0].detail.changedPaths)).toEqual([
+        ['isDeleted'],
+        ['isDeleted'],
+      ]);
+    });
+
+    test('should report "." for primitive rows', () => {
+      element.data = ['a', 'b'];
+      element.updateRow(0, 'z');
+
+      expect(handler.mock.calls[0][0].detail.changedPaths).toEqual(['.']);
+    });
+  });
+});
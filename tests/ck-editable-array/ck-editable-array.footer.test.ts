@@ -0,0 +1,204 @@
+/// <reference lib="dom" />
+/* eslint-disable no-undef */
+import { CkEditableArray } from '../../src/components/ck-editable-array/ck-editable-array';
+
+// Define the custom element before running tests
+beforeAll(() => {
+  if (!customElements.get('ck-editable-array')) {
+    customElements.define('ck-editable-array', CkEditableArray);
+  }
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const setup = (
+  element: CkEditableArray,
+  footerHTML: string | null,
+  data: unknown[],
+  footerAttrs = ''
+): void => {
+  const display = document.createElement('template');
+  display.setAttribute('slot', 'display');
+  display.innerHTML = '<span data-bind="amount"></span>';
+  element.appendChild(display);
+
+  const edit = document.createElement('template');
+  edit.setAttribute('slot', 'edit');
+  edit.innerHTML = '<input type="number" data-bind="amount" />';
+  element.appendChild(edit);
+
+  if (footerHTML !== null) {
+    const wrapper = document.createElement('div');
+    wrapper.innerHTML = `<template slot="footer" ${footerAttrs}>${footerHTML}</template>`;
+    element.appendChild(wrapper.firstElementChild as HTMLTemplateElement);
+  }
+
+  element.data = data;
+  element.connectedCallback();
+};
+
+const getFooter = (element: CkEditableArray): HTMLElement =>
+  element.shadowRoot?.querySelector('[part="footer"]') as HTMLElement;
+
+const footerText = (element: CkEditableArray, selector: string) =>
+  getFooter(element).querySelector(selector)?.textContent;
+
+const TOTALS = `
+  <span class="count" data-bind="$count"></span>
+  <span class="sum" data-bind="$sum.amount"></span>
+  <span class="avg" data-bind="$avg.amount"></span>
+  <span class="min" data-bind="$min.amount"></span>
+  <span class="max" data-bind="$max.amount"></span>
+  <span class="deleted" data-bind="$countDeleted"></span>`;
+
+const ROWS = [{ amount: 10 }, { amount: 30 }, { amount: 20 }];
+
+describe('Aggregate Footer', () => {
+  let element: CkEditableArray;
+
+  beforeEach(() => {
+    element = new CkEditableArray();
+    document.body.appendChild(element);
+  });
+
+  afterEach(() => {
+    if (element.parentNode) {
+      element.parentNode.removeChild(element);
+    }
+  });
+
+  test('should render the footer after the rows', () => {
+    setup(element, TOTALS, ROWS);
+    const footer = getFooter(element);
+    expect(footer.classList.contains('ck-hidden')).toBe(false);
+    expect(footer.previousElementSibling?.getAttribute('part')).toBe('rows');
+  });
+
+  test('should stay hidden without a footer template', () => {
+    setup(element, null, ROWS);
+    const footer = getFooter(element);
+    expect(footer.classList.contains('ck-hidden')).toBe(true);
+    expect(footer.childNodes).toHaveLength(0);
+  });
+
+  test('should bind counts and aggregates', () => {
+    setup(element, TOTALS, ROWS);
+    expect(footerText(element, '.count')).toBe('3');
+    expect(footerText(element, '.sum')).toBe('60');
+    expect(footerText(element, '.avg')).toBe('20');
+    expect(footerText(element, '.min')).toBe('10');
+    expect(footerText(element, '.max')).toBe('30');
+    expect(footerText(element, '.deleted')).toBe('0');
+  });
+
+  test('should ignore values that are not numbers', () => {
+    setup(element, TOTALS, [
+      { amount: 5 },
+      { amount: 'n/a' },
+      { amount: null },
+      {},
+    ]);
+    expect(footerText(element, '.count')).toBe('4');
+    expect(footerText(element, '.sum')).toBe('5');
+    expect(footerText(element, '.avg')).toBe('5');
+  });
+
+  test('should render empty values for empty data', () => {
+    setup(element, TOTALS, []);
+    expect(footerText(element, '.count')).toBe('0');
+    expect(footerText(element, '.sum')).toBe('0');
+    expect(footerText(element, '.avg')).toBe('');
+    expect(footerText(element, '.min')).toBe('');
+  });
+
+  test('should update while typing in a row', () => {
+    setup(element, TOTALS, ROWS);
+    (
+      element.shadowRoot?.querySelector(
+        '[data-row="0"] [data-action="toggle"]'
+      ) as HTMLButtonElement
+    ).click();
+    const input = element.shadowRoot?.querySelector(
+      '[data-row="0"] .edit-content input'
+    ) as HTMLInputElement;
+    input.value = '40';
+    input.dispatchEvent(new Event('input', { bubbles: true }));
+
+    expect(footerText(element, '.sum')).toBe('90');
+    expect(footerText(element, '.max')).toBe('40');
+  });
+
+  test('should update on mutations, data changes and undo', () => {
+    setup(element, TOTALS, ROWS);
+
+    element.insertRow(3, { amount: 100 });
+    expect(footerText(element, '.sum')).toBe('160');
+
+    element.removeRow(0);
+    expect(footerText(element, '.count')).toBe('3');
+
+    element.undo();
+    expect(footerText(element, '.count')).toBe('4');
+
+    element.data = [{ amount: 1 }];
+    expect(footerText(element, '.sum')).toBe('1');
+  });
+
+  test('should leave out soft-deleted rows by default', () => {
+    setup(element, TOTALS, ROWS);
+    (
+      element.shadowRoot?.querySelector(
+        '[data-row="1"] [data-action="delete"]'
+      ) as HTMLButtonElement
+    ).click();
+
+    expect(footerText(element, '.count')).toBe('2');
+    expect(footerText(element, '.sum')).toBe('30');
+    expect(footerText(element, '.max')).toBe('20');
+    expect(footerText(element, '.deleted')).toBe('1');
+  });
+
+  test('should include soft-deleted rows with data-include-deleted', () => {
+    setup(
+      element,
+      TOTALS,
+      [{ amount: 10 }, { amount: 30, isDeleted: true }],
+      'data-include-deleted'
+    );
+    expect(footerText(element, '.count')).toBe('2');
+    expect(footerText(element, '.sum')).toBe('40');
+    expect(footerText(element, '.deleted')).toBe('1');
+  });
+
+  test('should aggregate primitive rows with bare aggregates', () => {
+    setup(element, '<span class="sum" data-bind="$sum"></span>', [1, 2, 4]);
+    expect(footerText(element, '.sum')).toBe('7');
+  });
+
+  test('should aggregate nested fields', () => {
+    setup(
+      element,
+      '<span class="net" data-bind="$sum.price.net" data-format="number:2"></span>',
+      [{ price: { net: 1.5 } }, { price: { net: 2 } }]
+    );
+    expect(footerText(element, '.net')).toBe('3.50');
+  });
+
+  test('should support other bindings in the footer', () => {
+    setup(
+      element,
+      `<p data-if-not="$count">No items</p>
+       <meter data-bind-attr="value:$sum.amount"></meter>`,
+      []
+    );
+    expect(footerText(element, 'p')).toBe('No items');
+
+    element.insertRow(0, { amount: 7 });
+    expect(getFooter(element).querySelector('p')).toBeNull();
+    expect(
+      getFooter(element).querySelector('meter')?.getAttribute('value')
+    ).toBe('7');
+  });
+});
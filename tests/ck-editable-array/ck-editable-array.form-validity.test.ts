@@ -0,0 +1,231 @@
+/// <reference lib="dom" />
+/* eslint-disable no-undef */
+import { CkEditableArray } from '../../src/components/ck-editable-array/ck-editable-array';
+
+// Define the custom element before running tests
+beforeAll(() => {
+  if (!customElements.get('ck-editable-array')) {
+    customElements.define('ck-editable-array', CkEditableArray);
+  }
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const setup = (element: CkEditableArray, data: unknown[]): void => {
+  const display = document.createElement('template');
+  display.setAttribute('slot', 'display');
+  display.innerHTML = '<span data-bind="email"></span>';
+  element.appendChild(display);
+
+  const edit = document.createElement('template');
+  edit.setAttribute('slot', 'edit');
+  edit.innerHTML = `
+    <input type="email" data-bind="email" required
+           data-msg-required="Email is required" />
+    <span data-error-for="email"></span>`;
+  element.appendChild(edit);
+
+  element.data = data;
+  element.connectedCallback();
+};
+
+const getRow = (element: CkEditableArray, index: number): HTMLElement =>
+  element.shadowRoot?.querySelector(`[data-row="${index}"]`) as HTMLElement;
+
+const getInput = (element: CkEditableArray, index: number): HTMLInputElement =>
+  getRow(element, index).querySelector(
+    '.edit-content [data-bind="email"]'
+  ) as HTMLInputElement;
+
+const clickAction = (
+  element: CkEditableArray,
+  index: number,
+  action: string
+): void => {
+  (
+    getRow(element, index).querySelector(
+      `[data-action="${action}"]`
+    ) as HTMLButtonElement
+  ).click();
+};
+
+describe('Component Validity', () => {
+  let element: CkEditableArray;
+
+  beforeEach(() => {
+    element = new CkEditableArray();
+    document.body.appendChild(element);
+  });
+
+  afterEach(() => {
+    if (element.parentNode) {
+      element.parentNode.removeChild(element);
+    }
+  });
+
+  describe('Validity members', () => {
+    test('should be valid by default', () => {
+      setup(element, [{ email: 'a@x.io' }]);
+
+      expect(element.validity.valid).toBe(true);
+      expect(element.validationMessage).toBe('');
+      expect(element.willValidate).toBe(true);
+      expect(element.checkValidity()).toBe(true);
+      expect(element.reportValidity()).toBe(true);
+    });
+
+    test('should expose row count problems', () => {
+      element.setAttribute('min-rows', '1');
+      setup(element, []);
+
+      expect(element.validity.valid).toBe(false);
+      expect(element.validity.valueMissing).toBe(true);
+      expect(element.validationMessage).toBe('At least 1 row is required');
+    });
+
+    test('should fire invalid from checkValidity when invalid', () => {
+      element.setAttribute('max-rows', '1');
+      setup(element, [{ email: 'a@x.io' }, { email: 'b@x.io' }]);
+      const onInvalid = jest.fn();
+      element.addEventListener('invalid', onInvalid);
+
+      expect(element.checkValidity()).toBe(false);
+      expect(onInvalid).toHaveBeenCalledTimes(1);
+    });
+
+    test('should not validate while readonly', () => {
+      element.setAttribute('min-rows', '1');
+      element.setAttribute('readonly', '');
+      setup(element, []);
+
+      expect(element.willValidate).toBe(false);
+      expect(element.checkValidity()).toBe(true);
+    });
+
+    test('should expose failed saves of the edited row', () => {
+      setup(element, [{ email: 'a@x.io' }]);
+      clickAction(element, 0, 'toggle');
+      const input = getInput(element, 0);
+      input.value = '';
+      input.dispatchEvent(new Event('input', { bubbles: true }));
+      clickAction(element, 0, 'save');
+
+      expect(element.validity.customError).toBe(true);
+      expect(element.validationMessage).toBe('Row has invalid fields');
+
+      input.value = 'b@x.io';
+      input.dispatchEvent(new Event('input', { bubbles: true }));
+      expect(element.validity.valid).toBe(true);
+    });
+  });
+
+  describe('validateAll', () => {
+    test('should validate rows that were never opened', () => {
+      setup(element, [{ email: 'a@x.io' }, { email: '' }]);
+      expect(element.validity.valid).toBe(true);
+
+      expect(element.validateAll()).toBe(false);
+
+      const row = getRow(element, 1);
+      expect(row.getAttribute('data-mode')).toBe('display');
+      expect(row.classList.contains('ck-invalid')).toBe(true);
+      expect(row.getAttribute('aria-invalid')).toBe('true');
+      expect(row.querySelector('[data-error-for="email"]')?.textContent).toBe(
+        'Email is required'
+      );
+      expect(getRow(element, 0).classList.contains('ck-invalid')).toBe(false);
+      expect(element.validity.customError).toBe(true);
+      expect(element.validationMessage).toBe('Item 2 has invalid fields');
+    });
+
+    test('should skip deleted rows', () => {
+      setup(element, [{ email: 'a@x.io' }, { email: '', isDeleted: true }]);
+      expect(element.validateAll()).toBe(true);
+      expect(getRow(element, 1).classList.contains('ck-invalid')).toBe(false);
+    });
+
+    test('should clear marks once the row data is fixed', () => {
+      setup(element, [{ email: '' }]);
+      element.validateAll();
+
+      element.updateRow(0, { email: 'a@x.io' });
+
+      expect(getRow(element, 0).classList.contains('ck-invalid')).toBe(false);
+      expect(
+        getRow(element, 0).querySelector('[data-error-for="email"]')
+          ?.textContent
+      ).toBe('');
+      expect(element.validity.valid).toBe(true);
+    });
+
+    test('should clear marks when the row is corrected in edit mode', () => {
+      setup(element, [{ email: '' }]);
+      element.validateAll();
+      clickAction(element, 0, 'toggle');
+      const input = getInput(element, 0);
+      input.value = 'a@x.io';
+      input.dispatchEvent(new Event('input', { bubbles: true }));
+
+      expect(getRow(element, 0).classList.contains('ck-invalid')).toBe(false);
+      expect(element.validity.valid).toBe(true);
+    });
+
+    test('should keep an invalid row marked when its edit is cancelled', () => {
+      setup(element, [{ email: '' }]);
+      element.validateAll();
+      clickAction(element, 0, 'toggle');
+      clickAction(element, 0, 'cancel');
+
+      expect(getRow(element, 0).classList.contains('ck-invalid')).toBe(true);
+      expect(element.validity.valid).toBe(false);
+    });
+  });
+
+  describe('reportValidity', () => {
+    test('should focus the first invalid row', () => {
+      setup(element, [{ email: 'a@x.io' }, { email: '' }]);
+      element.validateAll();
+
+      expect(element.reportValidity()).toBe(false);
+      expect(element.shadowRoot?.activeElement).toBe(getRow(element, 1));
+    });
+
+    test('should not focus when the invalid event is cancelled', () => {
+      setup(element, [{ email: '' }]);
+      element.validateAll();
+      element.addEventListener('invalid', event => event.preventDefault());
+
+      expect(element.reportValidity()).toBe(false);
+      expect(element.shadowRoot?.activeElement).toBeNull();
+    });
+  });
+
+  describe('validitychange', () => {
+    test('should fire when the validity or message changes', () => {
+      element.setAttribute('min-rows', '2');
+      setup(element, [{ email: 'a@x.io' }]);
+      const onChange = jest.fn();
+      element.addEventListener('validitychange', onChange);
+
+      element.addRow({ email: 'b@x.io' });
+      expect(onChange).toHaveBeenCalledTimes(1);
+      expect(onChange.mock.calls[0][0].detail).toEqual({
+        valid: true,
+        validationMessage: '',
+      });
+
+      // Changes that keep the validity do not fire
+      element.updateRow(0, { email: 'c@x.io' });
+      expect(onChange).toHaveBeenCalledTimes(1);
+
+      element.removeRow(0);
+      expect(onChange).toHaveBeenCalledTimes(2);
+      expect(onChange.mock.calls[1][0].detail).toEqual({
+        valid: false,
+        validationMessage: 'At least 2 rows are required',
+      });
+    });
+  });
+});
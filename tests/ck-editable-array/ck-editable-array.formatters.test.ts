@@ -0,0 +1,293 @@
+/// <reference lib="dom" />
+/* eslint-disable no-undef */
+import { CkEditableArray } from '../../src/components/ck-editable-array/ck-editable-array';
+
+// Define the custom element before running tests
+beforeAll(() => {
+  if (!customElements.get('ck-editable-array')) {
+    customElements.define('ck-editable-array', CkEditableArray);
+  }
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const setup = (
+  element: CkEditableArray,
+  displayHTML: string,
+  data: unknown[],
+  editHTML?: string
+): void => {
+  const display = document.createElement('template');
+  display.setAttribute('slot', 'display');
+  display.innerHTML = displayHTML;
+  element.appendChild(display);
+
+  if (editHTML) {
+    const edit = document.createElement('template');
+    edit.setAttribute('slot', 'edit');
+    edit.innerHTML = editHTML;
+    element.appendChild(edit);
+  }
+
+  element.data = data;
+  element.connectedCallback();
+};
+
+const displayText = (element: CkEditableArray, bindPath: string): string =>
+  element.shadowRoot?.querySelector(
+    `[data-row="0"] .display-content [data-bind="${bindPath}"]`
+  )?.textContent || '';
+
+const getInput = (
+  element: CkEditableArray,
+  bindPath: string
+): HTMLInputElement =>
+  element.shadowRoot?.querySelector(
+    `[data-row="0"] .edit-content [data-bind="${bindPath}"]`
+  ) as HTMLInputElement;
+
+const typeInto = (input: HTMLInputElement, value: string): void => {
+  input.value = value;
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+describe('Formatter Registry', () => {
+  let element: CkEditableArray;
+
+  beforeEach(() => {
+    element = new CkEditableArray();
+    element.setAttribute('lang', 'en-US');
+    document.body.appendChild(element);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    if (element.parentNode) {
+      element.parentNode.removeChild(element);
+    }
+  });
+
+  describe('Built-in formatters', () => {
+    test('should format numbers with optional fraction digits', () => {
+      setup(
+        element,
+        `<span data-bind="a" data-format="number"></span>
+         <span data-bind="b" data-format="number:2"></span>`,
+        [{ a: 1234567.891, b: 3 }]
+      );
+      expect(displayText(element, 'a')).toBe('1,234,567.891');
+      expect(displayText(element, 'b')).toBe('3.00');
+    });
+
+    test('should format currency and percent', () => {
+      setup(
+        element,
+        `<span data-bind="price" data-format="currency:EUR"></span>
+         <span data-bind="rate" data-format="percent"></span>`,
+        [{ price: 1234.5, rate: 0.25 }]
+      );
+      expect(displayText(element, 'price')).toBe('€1,234.50');
+      expect(displayText(element, 'rate')).toBe('25%');
+    });
+
+    test('should format dates and date-times', () => {
+      setup(
+        element,
+        `<span data-bind="day" data-format="date:long"></span>
+         <span data-bind="day" data-format="date"></span>`,
+        [{ day: new Date(2024, 2, 5) }]
+      );
+      const spans = element.shadowRoot?.querySelectorAll(
+        '.display-content [data-bind="day"]'
+      );
+      expect(spans?.[0].textContent).toBe('March 5, 2024');
+      expect(spans?.[1].textContent).toBe('Mar 5, 2024');
+    });
+
+    test('should format date strings and leave invalid dates as-is', () => {
+      setup(
+        element,
+        `<span data-bind="a" data-format="datetime:short"></span>
+         <span data-bind="b" data-format="date"></span>`,
+        [{ a: new Date(2024, 0, 2, 15, 4).toISOString(), b: 'soon' }]
+      );
+      expect(displayText(element, 'a')).toBe('1/2/24, 3:04 PM');
+      expect(displayText(element, 'b')).toBe('soon');
+    });
+
+    test('should format relative times', () => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date('2024-06-10T12:00:00Z'));
+      setup(
+        element,
+        `<span data-bind="a" data-format="relative"></span>
+         <span data-bind="b" data-format="relative"></span>`,
+        [{ a: '2024-06-07T12:00:00Z', b: '2024-06-10T14:00:00Z' }]
+      );
+      expect(displayText(element, 'a')).toBe('3 days ago');
+      expect(displayText(element, 'b')).toBe('in 2 hours');
+    });
+
+    test('should format booleans with default and custom labels', () => {
+      setup(
+        element,
+        `<span data-bind="a" data-format="boolean"></span>
+         <span data-bind="b" data-format="boolean:On|Off"></span>`,
+        [{ a: true, b: false }]
+      );
+      expect(displayText(element, 'a')).toBe('Yes');
+      expect(displayText(element, 'b')).toBe('Off');
+    });
+
+    test('should use the locale from the nearest lang attribute', () => {
+      element.removeAttribute('lang');
+      const wrapper = document.createElement('div');
+      wrapper.setAttribute('lang', 'de-DE');
+      wrapper.appendChild(element);
+      document.body.appendChild(wrapper);
+      setup(element, '<span data-bind="a" data-format="number:2"></span>', [
+        { a: 1234.5 },
+      ]);
+
+      expect(displayText(element, 'a')).toBe('1.234,50');
+      wrapper.remove();
+    });
+
+    test('should render empty values as empty text', () => {
+      setup(element, '<span data-bind="a" data-format="currency:EUR"></span>', [
+        { a: null },
+      ]);
+      expect(displayText(element, 'a')).toBe('');
+    });
+  });
+
+  describe('Parsing edited values', () => {
+    test('should show formatted values in inputs and parse them back', () => {
+      setup(
+        element,
+        '<span></span>',
+        [{ price: 1234.5 }],
+        '<input type="text" data-bind="price" data-format="currency:EUR" />'
+      );
+      const input = getInput(element, 'price');
+      expect(input.value).toBe('€1,234.50');
+
+      typeInto(input, '€2,000.25');
+
+      expect(element.data[0]).toEqual({ price: 2000.25 });
+      // The input keeps what the user typed
+      expect(input.value).toBe('€2,000.25');
+    });
+
+    test('should parse percentages and locale numbers', () => {
+      element.setAttribute('lang', 'de-DE');
+      setup(
+        element,
+        '<span></span>',
+        [{ rate: 0.1, qty: 1 }],
+        `<input type="text" data-bind="rate" data-format="percent" />
+         <input type="text" data-bind="qty" data-format="number" />`
+      );
+      typeInto(getInput(element, 'rate'), '12,5 %');
+      typeInto(getInput(element, 'qty'), '1.500,75');
+
+      expect(element.data[0]).toEqual({ rate: 0.125, qty: 1500.75 });
+    });
+
+    test('should keep text that does not parse', () => {
+      setup(
+        element,
+        '<span></span>',
+        [{ qty: 1 }],
+        '<input type="text" data-bind="qty" data-format="number" />'
+      );
+      typeInto(getInput(element, 'qty'), 'many');
+      expect(element.data[0]).toEqual({ qty: 'many' });
+    });
+
+    test('should parse boolean labels', () => {
+      setup(
+        element,
+        '<span></span>',
+        [{ ok: false }],
+        '<input type="text" data-bind="ok" data-format="boolean:On|Off" />'
+      );
+      typeInto(getInput(element, 'ok'), 'on');
+      expect(element.data[0]).toEqual({ ok: true });
+    });
+
+    test('should ignore data-format on number and date inputs', () => {
+      setup(
+        element,
+        '<span></span>',
+        [{ price: 1234.5, due: '2024-01-31' }],
+        `<input type="number" data-bind="price" data-format="currency:EUR" />
+         <input type="date" data-bind="due" data-format="date" />`
+      );
+      const price = getInput(element, 'price');
+      expect(price.value).toBe('1234.5');
+      expect(getInput(element, 'due').value).toBe('2024-01-31');
+
+      typeInto(price, '99.5');
+      expect(element.data[0]).toEqual({ price: 99.5, due: '2024-01-31' });
+    });
+
+    test('should update formatted display elements while typing', () => {
+      setup(
+        element,
+        '<span data-bind="price" data-format="currency:EUR"></span>',
+        [{ price: 1 }],
+        '<input type="text" data-bind="price" data-format="number" />'
+      );
+      typeInto(getInput(element, 'price'), '42');
+      expect(displayText(element, 'price')).toBe('€42.00');
+    });
+  });
+
+  describe('registerFormatter', () => {
+    test('should register custom formatters with arguments', () => {
+      CkEditableArray.registerFormatter('upper', {
+        format: (value, arg) => `${String(value).toUpperCase()}${arg || ''}`,
+        parse: text => text.toLowerCase(),
+      });
+      setup(
+        element,
+        '<span data-bind="name" data-format="upper:!"></span>',
+        [{ name: 'ada' }],
+        '<input type="text" data-bind="name" data-format="upper" />'
+      );
+
+      expect(displayText(element, 'name')).toBe('ADA!');
+      typeInto(getInput(element, 'name'), 'GRACE');
+      expect(element.data[0]).toEqual({ name: 'grace' });
+    });
+
+    test('should replace built-in formatters', () => {
+      CkEditableArray.registerFormatter('boolean', {
+        format: value => (value ? '✓' : '✗'),
+      });
+      setup(element, '<span data-bind="ok" data-format="boolean"></span>', [
+        { ok: true },
+      ]);
+      expect(displayText(element, 'ok')).toBe('✓');
+    });
+
+    test('should fall back to plain text for unknown or failing formatters', () => {
+      CkEditableArray.registerFormatter('broken', {
+        format: () => {
+          throw new Error('boom');
+        },
+      });
+      setup(
+        element,
+        `<span data-bind="a" data-format="missing"></span>
+         <span data-bind="b" data-format="broken"></span>`,
+        [{ a: 1, b: 2 }]
+      );
+      expect(displayText(element, 'a')).toBe('1');
+      expect(displayText(element, 'b')).toBe('2');
+    });
+  });
+});
@@ -0,0 +1,158 @@
+/// <reference lib="dom" />
+import { CkEditableArray } from '../../src/components/ck-editable-array/ck-editable-array';
+
+// Define the custom element before running tests
+beforeAll(() => {
+  if (!customElements.get('ck-editable-array')) {
+    customElements.define('ck-editable-array', CkEditableArray);
+  }
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const setup = (
+  element: CkEditableArray,
+  data: unknown[],
+  headerHTML?: string
+): void => {
+  const display = document.createElement('template');
+  display.setAttribute('slot', 'display');
+  display.innerHTML = '<span data-bind="amount"></span>';
+  element.appendChild(display);
+
+  if (headerHTML !== undefined) {
+    const header = document.createElement('template');
+    header.setAttribute('slot', 'header');
+    header.innerHTML = headerHTML;
+    element.appendChild(header);
+  }
+
+  element.data = data;
+  element.connectedCallback();
+};
+
+const query = (element: CkEditableArray, selector: string): HTMLElement =>
+  element.shadowRoot?.querySelector(selector) as HTMLElement;
+
+const accessibleName = (element: CkEditableArray, selector: string) => {
+  const el = query(element, selector);
+  const labelledBy = el.getAttribute('aria-labelledby');
+  return labelledBy
+    ? query(element, `#${labelledBy}`).textContent?.trim()
+    : el.getAttribute('aria-label');
+};
+
+describe('Header and Caption', () => {
+  let element: CkEditableArray;
+
+  beforeEach(() => {
+    element = new CkEditableArray();
+    element.setAttribute('name', 'invoice');
+    document.body.appendChild(element);
+  });
+
+  afterEach(() => {
+    if (element.parentNode) {
+      element.parentNode.removeChild(element);
+    }
+  });
+
+  test('should keep the greeting and default names without a header', () => {
+    setup(element, []);
+    expect(query(element, 'h1').textContent).toBe('Hello, invoice!');
+    expect(query(element, '[part="header"]').classList).toContain('ck-hidden');
+    expect(accessibleName(element, '[role="region"]')).toBe(
+      'Editable array display'
+    );
+    expect(accessibleName(element, '[role="list"]')).toBe('Array items');
+  });
+
+  describe('caption', () => {
+    test('should replace the greeting and name the region and list', () => {
+      element.setAttribute('caption', 'Invoice lines');
+      setup(element, []);
+
+      expect(query(element, 'h1').textContent).toBe('Invoice lines');
+      expect(accessibleName(element, '[role="region"]')).toBe('Invoice lines');
+      expect(accessibleName(element, '[role="list"]')).toBe('Invoice lines');
+    });
+
+    test('should follow attribute changes', () => {
+      setup(element, []);
+      element.setAttribute('caption', 'Lines');
+      expect(query(element, 'h1').textContent).toBe('Lines');
+
+      element.removeAttribute('caption');
+      expect(query(element, 'h1').textContent).toBe('Hello, invoice!');
+      expect(accessibleName(element, '[role="list"]')).toBe('Array items');
+    });
+
+    test('should hide the heading when empty', () => {
+      element.setAttribute('caption', '');
+      setup(element, []);
+      expect(query(element, 'h1').classList).toContain('ck-hidden');
+    });
+  });
+
+  test('should use aria-label for the region and list', () => {
+    element.setAttribute('caption', 'Invoice lines');
+    element.setAttribute('aria-label', 'Lines of invoice 42');
+    setup(element, []);
+
+    expect(query(element, '[role="region"]').getAttribute('aria-label')).toBe(
+      'Lines of invoice 42'
+    );
+    expect(query(element, '[role="list"]').getAttribute('aria-label')).toBe(
+      'Lines of invoice 42'
+    );
+    expect(
+      query(element, '[role="list"]').hasAttribute('aria-labelledby')
+    ).toBe(false);
+  });
+
+  describe('header template', () => {
+    const HEADER =
+      '<h2><span class="name" data-bind="name"></span> (<span class="count" data-bind="$count"></span>)</h2>';
+
+    test('should replace the greeting', () => {
+      setup(element, [{ amount: 1 }, { amount: 2 }], HEADER);
+
+      const header = query(element, '[part="header"]');
+      expect(header.classList).not.toContain('ck-hidden');
+      expect(header.textContent).toBe('invoice (2)');
+      expect(query(element, 'h1').classList).toContain('ck-hidden');
+    });
+
+    test('should name the region and list', () => {
+      setup(element, [{ amount: 1 }], HEADER);
+      expect(accessibleName(element, '[role="region"]')).toBe('invoice (1)');
+      expect(accessibleName(element, '[role="list"]')).toBe('invoice (1)');
+    });
+
+    test('should update on name changes and data mutations', () => {
+      setup(element, [{ amount: 1 }], HEADER);
+
+      element.setAttribute('name', 'order');
+      element.addRow({ amount: 3 });
+
+      expect(query(element, '[part="header"]').textContent).toBe('order (2)');
+    });
+
+    test('should share aggregates with the footer', () => {
+      const footer = document.createElement('template');
+      footer.setAttribute('slot', 'footer');
+      footer.innerHTML = '<span data-bind="$max.amount"></span>';
+      element.appendChild(footer);
+      setup(
+        element,
+        [{ amount: 1 }, { amount: 2 }],
+        '<span data-bind="$sum.amount"></span>'
+      );
+
+      expect(query(element, '[part="header"]').textContent).toBe('3');
+      expect(query(element, '[part="footer"]').textContent).toBe('2');
+    });
+  });
+});
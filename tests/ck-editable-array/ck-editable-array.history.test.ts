@@ -0,0 +1,379 @@
+/// <reference lib="dom" />
+/* eslint-disable no-undef */
+import { CkEditableArray } from '../../src/components/ck-editable-array/ck-editable-array';
+
+// Define the custom element before running tests
+beforeAll(() => {
+  if (!customElements.get('ck-editable-array')) {
+    customElements.define('ck-editable-array', CkEditableArray);
+  }
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const attachTemplates = (element: CkEditableArray): void => {
+  const display = document.createElement('template');
+  display.setAttribute('slot', 'display');
+  display.innerHTML = `<span data-bind="name"></span>`;
+  element.appendChild(display);
+
+  const edit = document.createElement('template');
+  edit.setAttribute('slot', 'edit');
+  edit.innerHTML = `<input type="text" data-bind="name" />`;
+  element.appendChild(edit);
+};
+
+const getRow = (element: CkEditableArray, index: number): HTMLElement =>
+  element.shadowRoot?.querySelector(`[data-row="${index}"]`) as HTMLElement;
+
+const clickRowAction = (
+  element: CkEditableArray,
+  index: number,
+  action: string
+): void => {
+  (
+    getRow(element, index).querySelector(
+      `[data-action="${action}"]`
+    ) as HTMLButtonElement
+  ).click();
+};
+
+const editName = (
+  element: CkEditableArray,
+  index: number,
+  value: string
+): void => {
+  clickRowAction(element, index, 'toggle');
+  const input = getRow(element, index).querySelector(
+    '.edit-content input'
+  ) as HTMLInputElement;
+  input.value = value;
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+  clickRowAction(element, index, 'save');
+};
+
+const names = (element: CkEditableArray): unknown[] =>
+  element.data.map(row =>
+    typeof row === 'object' && row !== null
+      ? (row as { name: string }).name
+      : row
+  );
+
+const pressKey = (
+  target: Element,
+  key: string,
+  init: KeyboardEventInit = {}
+): KeyboardEvent => {
+  const event = new KeyboardEvent('keydown', {
+    key,
+    bubbles: true,
+    composed: true,
+    cancelable: true,
+    ...init,
+  });
+  target.dispatchEvent(event);
+  return event;
+};
+
+describe('Undo / Redo History', () => {
+  let element: CkEditableArray;
+  let originalMatchMedia: typeof window.matchMedia;
+
+  beforeEach(() => {
+    // Skip move/delete animations so changes complete synchronously
+    originalMatchMedia = window.matchMedia;
+    window.matchMedia = jest.fn().mockReturnValue({
+      matches: true,
+    }) as unknown as typeof window.matchMedia;
+
+    element = new CkEditableArray();
+    element.setAttribute('datachange-mode', 'change');
+    document.body.appendChild(element);
+    attachTemplates(element);
+    element.data = [{ name: 'A' }, { name: 'B' }, { name: 'C' }];
+    element.connectedCallback();
+  });
+
+  afterEach(() => {
+    window.matchMedia = originalMatchMedia;
+    if (element.parentNode) {
+      element.parentNode.removeChild(element);
+    }
+  });
+
+  describe('Initial State', () => {
+    test('should start with nothing to undo or redo', () => {
+      expect(element.canUndo).toBe(false);
+      expect(element.canRedo).toBe(false);
+      expect(element.undo()).toBe(false);
+      expect(element.redo()).toBe(false);
+    });
+
+    test('should default history-limit to 50', () => {
+      expect(element.historyLimit).toBe(50);
+      expect(CkEditableArray.observedAttributes).toContain('history-limit');
+    });
+  });
+
+  describe('Recorded Changes', () => {
+    test('should undo and redo a save', () => {
+      editName(element, 1, 'B2');
+      expect(element.canUndo).toBe(true);
+
+      expect(element.undo()).toBe(true);
+      expect(names(element)).toEqual(['A', 'B', 'C']);
+      expect(
+        getRow(element, 1).querySelector('.display-content span')?.textContent
+      ).toBe('B');
+
+      expect(element.redo()).toBe(true);
+      expect(names(element)).toEqual(['A', 'B2', 'C']);
+    });
+
+    test('should not record a save without changes', () => {
+      clickRowAction(element, 0, 'toggle');
+      clickRowAction(element, 0, 'save');
+      expect(element.canUndo).toBe(false);
+    });
+
+    test('should undo a saved draft row', () => {
+      element.allowAdd = true;
+      (
+        element.shadowRoot?.querySelector(
+          '[data-action="add"]'
+        ) as HTMLButtonElement
+      ).click();
+      clickRowAction(element, 3, 'save');
+      expect(element.data).toHaveLength(4);
+
+      element.undo();
+      expect(element.data).toHaveLength(3);
+    });
+
+    test('should undo soft delete and restore', () => {
+      clickRowAction(element, 0, 'delete');
+      clickRowAction(element, 0, 'delete');
+
+      element.undo();
+      expect(element.data[0]).toEqual({ name: 'A', isDeleted: true });
+      expect(getRow(element, 0).classList.contains('ck-deleted')).toBe(true);
+
+      element.undo();
+      expect(element.data[0]).toEqual({ name: 'A' });
+      expect(getRow(element, 0).classList.contains('ck-deleted')).toBe(false);
+    });
+
+    test('should undo soft delete of primitive rows', () => {
+      element.data = ['x', 'y'];
+      clickRowAction(element, 1, 'delete');
+
+      element.undo();
+      expect(getRow(element, 1).classList.contains('ck-deleted')).toBe(false);
+      element.redo();
+      expect(getRow(element, 1).classList.contains('ck-deleted')).toBe(true);
+    });
+
+    test('should undo a hard delete', () => {
+      element.deleteMode = 'hard';
+      clickRowAction(element, 1, 'delete');
+      expect(names(element)).toEqual(['A', 'C']);
+
+      element.undo();
+      expect(names(element)).toEqual(['A', 'B', 'C']);
+    });
+
+    test('should undo a reorder', () => {
+      element.moveDown(0);
+      expect(names(element)).toEqual(['B', 'A', 'C']);
+
+      element.undo();
+      expect(names(element)).toEqual(['A', 'B', 'C']);
+    });
+
+    test('should undo an animated reorder', () => {
+      jest.useFakeTimers();
+      window.matchMedia = jest.fn().mockReturnValue({
+        matches: false,
+      }) as unknown as typeof window.matchMedia;
+
+      element.moveDown(0);
+      expect(element.canUndo).toBe(false);
+      jest.runAllTimers();
+      jest.useRealTimers();
+
+      expect(names(element)).toEqual(['B', 'A', 'C']);
+      expect(element.canUndo).toBe(true);
+
+      element.undo();
+      expect(names(element)).toEqual(['A', 'B', 'C']);
+      expect(
+        getRow(element, 0).querySelector('.display-content span')?.textContent
+      ).toBe('A');
+    });
+
+    test('should undo data assignments but not the initial load', () => {
+      element.data = [{ name: 'X' }];
+      element.undo();
+
+      expect(names(element)).toEqual(['A', 'B', 'C']);
+      expect(element.canUndo).toBe(false);
+    });
+
+    test('should undo row mutation methods', () => {
+      element.addRow({ name: 'D' });
+      element.removeRow(0);
+      element.updateRow(0, { name: 'B2' });
+      element.clear();
+
+      element.undo();
+      expect(names(element)).toEqual(['B2', 'C', 'D']);
+      element.undo();
+      expect(names(element)).toEqual(['B', 'C', 'D']);
+      element.undo();
+      expect(names(element)).toEqual(['A', 'B', 'C', 'D']);
+      element.undo();
+      expect(names(element)).toEqual(['A', 'B', 'C']);
+    });
+
+    test('should clear the redo stack on a new change', () => {
+      editName(element, 0, 'A2');
+      element.undo();
+      expect(element.canRedo).toBe(true);
+
+      element.moveDown(0);
+      expect(element.canRedo).toBe(false);
+    });
+
+    test('should dispatch datachanged when undoing', () => {
+      editName(element, 0, 'A2');
+      const handler = jest.fn();
+      element.addEventListener('datachanged', handler);
+
+      element.undo();
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0][0].detail.data[0]).toEqual({ name: 'A' });
+    });
+  });
+
+  describe('Guards', () => {
+    test('should not undo while a row is being edited', () => {
+      element.moveDown(0);
+      clickRowAction(element, 0, 'toggle');
+
+      expect(element.undo()).toBe(false);
+      expect(names(element)).toEqual(['B', 'A', 'C']);
+    });
+
+    test('should record edits made around an open edit as committed values', () => {
+      clickRowAction(element, 1, 'toggle');
+      const input = getRow(element, 1).querySelector(
+        '.edit-content input'
+      ) as HTMLInputElement;
+      input.value = 'unsaved';
+      input.dispatchEvent(new Event('input', { bubbles: true }));
+      element.updateRow(0, { name: 'A2' });
+      clickRowAction(element, 1, 'cancel');
+
+      element.undo();
+      expect(names(element)).toEqual(['A', 'B', 'C']);
+    });
+
+    test('should not undo when readonly', () => {
+      element.moveDown(0);
+      element.readonly = true;
+      expect(element.undo()).toBe(false);
+    });
+  });
+
+  describe('history-limit', () => {
+    test('should drop the oldest entries beyond the limit', () => {
+      element.historyLimit = 2;
+      element.updateRow(0, { name: 'A1' });
+      element.updateRow(0, { name: 'A2' });
+      element.updateRow(0, { name: 'A3' });
+
+      expect(element.undo()).toBe(true);
+      expect(element.undo()).toBe(true);
+      expect(element.undo()).toBe(false);
+      expect(names(element)).toEqual(['A1', 'B', 'C']);
+    });
+
+    test('should trim existing history when lowered', () => {
+      element.updateRow(0, { name: 'A1' });
+      element.updateRow(0, { name: 'A2' });
+      element.setAttribute('history-limit', '1');
+
+      element.undo();
+      expect(element.canUndo).toBe(false);
+    });
+
+    test('should disable history when set to 0', () => {
+      element.historyLimit = 0;
+      element.updateRow(0, { name: 'A1' });
+      expect(element.canUndo).toBe(false);
+    });
+  });
+
+  describe('historychange event', () => {
+    test('should report canUndo and canRedo', () => {
+      const handler = jest.fn();
+      element.addEventListener('historychange', handler);
+
+      element.moveDown(0);
+      element.undo();
+
+      expect(handler.mock.calls.map(c => c[0].detail)).toEqual([
+        { canUndo: true, canRedo: false },
+        { canUndo: false, canRedo: true },
+      ]);
+      const event = handler.mock.calls[0][0] as CustomEvent;
+      expect(event.bubbles).toBe(true);
+      expect(event.composed).toBe(true);
+    });
+  });
+
+  describe('Keyboard Shortcuts', () => {
+    test('should undo with Ctrl+Z and redo with Ctrl+Shift+Z', () => {
+      element.moveDown(0);
+      const row = getRow(element, 0);
+
+      const undoEvent = pressKey(row, 'z', { ctrlKey: true });
+      expect(undoEvent.defaultPrevented).toBe(true);
+      expect(names(element)).toEqual(['A', 'B', 'C']);
+
+      pressKey(getRow(element, 0), 'Z', { ctrlKey: true, shiftKey: true });
+      expect(names(element)).toEqual(['B', 'A', 'C']);
+    });
+
+    test('should support Cmd+Z', () => {
+      element.moveDown(0);
+      pressKey(getRow(element, 0), 'z', { metaKey: true });
+      expect(names(element)).toEqual(['A', 'B', 'C']);
+    });
+
+    test('should leave native undo to text inputs', () => {
+      editName(element, 0, 'A2');
+      clickRowAction(element, 1, 'toggle');
+      const input = getRow(element, 1).querySelector(
+        '.edit-content input'
+      ) as HTMLInputElement;
+
+      const event = pressKey(input, 'z', { ctrlKey: true });
+
+      expect(event.defaultPrevented).toBe(false);
+      expect(names(element)).toEqual(['A2', 'B', 'C']);
+    });
+
+    test('should not react to shortcuts after disconnect', () => {
+      element.moveDown(0);
+      const row = getRow(element, 0);
+      element.remove();
+
+      pressKey(row, 'z', { ctrlKey: true });
+      expect(names(element)).toEqual(['B', 'A', 'C']);
+    });
+  });
+});
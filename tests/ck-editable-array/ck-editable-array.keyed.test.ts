@@ -0,0 +1,191 @@
+/// <reference lib="dom" />
+/* eslint-disable no-undef */
+import { CkEditableArray } from '../../src/components/ck-editable-array/ck-editable-array';
+
+// Define the custom element before running tests
+beforeAll(() => {
+  if (!customElements.get('ck-editable-array')) {
+    customElements.define('ck-editable-array', CkEditableArray);
+  }
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const attachTemplates = (element: CkEditableArray): void => {
+  const display = document.createElement('template');
+  display.setAttribute('slot', 'display');
+  display.innerHTML = `<span data-bind="name"></span>`;
+  element.appendChild(display);
+
+  const edit = document.createElement('template');
+  edit.setAttribute('slot', 'edit');
+  edit.innerHTML = `<input type="text" data-bind="name" />`;
+  element.appendChild(edit);
+};
+
+const getRows = (element: CkEditableArray): HTMLElement[] =>
+  Array.from(
+    element.shadowRoot?.querySelectorAll('[data-row]') || []
+  ) as HTMLElement[];
+
+const getRowText = (element: CkEditableArray): string[] =>
+  getRows(element).map(
+    row => row.querySelector('.display-content [data-bind]')?.textContent || ''
+  );
+
+describe('Keyed Rendering (key-field)', () => {
+  let element: CkEditableArray;
+
+  beforeEach(() => {
+    element = new CkEditableArray();
+    element.setAttribute('key-field', 'id');
+    document.body.appendChild(element);
+    attachTemplates(element);
+    element.data = [
+      { id: 1, name: 'A' },
+      { id: 2, name: 'B' },
+      { id: 3, name: 'C' },
+    ];
+    element.connectedCallback();
+  });
+
+  afterEach(() => {
+    if (element.parentNode) {
+      element.parentNode.removeChild(element);
+    }
+  });
+
+  test('should expose keyField property synced with the attribute', () => {
+    expect(element.keyField).toBe('id');
+    element.keyField = '';
+    expect(element.hasAttribute('key-field')).toBe(false);
+    expect(CkEditableArray.observedAttributes).toContain('key-field');
+  });
+
+  test('should set data-key on each row', () => {
+    expect(getRows(element).map(r => r.getAttribute('data-key'))).toEqual([
+      '1',
+      '2',
+      '3',
+    ]);
+  });
+
+  test('should move existing row elements when data is reordered', () => {
+    const [rowA, rowB, rowC] = getRows(element);
+
+    element.data = [
+      { id: 3, name: 'C' },
+      { id: 1, name: 'A' },
+      { id: 2, name: 'B' },
+    ];
+
+    const rows = getRows(element);
+    expect(rows[0]).toBe(rowC);
+    expect(rows[1]).toBe(rowA);
+    expect(rows[2]).toBe(rowB);
+    expect(rows.map(r => r.getAttribute('data-row'))).toEqual(['0', '1', '2']);
+    expect(getRowText(element)).toEqual(['C', 'A', 'B']);
+  });
+
+  test('should refresh form control names of moved rows', () => {
+    const rowC = getRows(element)[2];
+
+    element.data = [
+      { id: 3, name: 'C' },
+      { id: 1, name: 'A' },
+    ];
+
+    const input = rowC.querySelector('.edit-content input') as HTMLInputElement;
+    expect(input.getAttribute('name')).toBe('items[0].name');
+    expect(input.id).toBe('items__0__name');
+  });
+
+  test('should create rows for new keys and remove rows for missing keys', () => {
+    const [rowA, , rowC] = getRows(element);
+
+    element.data = [
+      { id: 1, name: 'A' },
+      { id: 4, name: 'D' },
+      { id: 3, name: 'C' },
+    ];
+
+    const rows = getRows(element);
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toBe(rowA);
+    expect(rows[2]).toBe(rowC);
+    expect(getRowText(element)).toEqual(['A', 'D', 'C']);
+  });
+
+  test('should preserve edit mode and unsaved input for the same key', () => {
+    const rowB = getRows(element)[1];
+    (rowB.querySelector('[data-action="toggle"]') as HTMLButtonElement).click();
+    const input = rowB.querySelector('.edit-content input') as HTMLInputElement;
+    input.value = 'B (unsaved)';
+    input.dispatchEvent(new Event('input', { bubbles: true }));
+
+    element.data = [
+      { id: 0, name: 'New' },
+      { id: 1, name: 'A' },
+      { id: 2, name: 'B (server)' },
+      { id: 3, name: 'C' },
+    ];
+
+    const rows = getRows(element);
+    expect(rows[2]).toBe(rowB);
+    expect(rowB.getAttribute('data-mode')).toBe('edit');
+    expect(input.value).toBe('B (unsaved)');
+
+    // Other rows cannot enter edit mode while row 2 is being edited
+    (
+      rows[0].querySelector('[data-action="toggle"]') as HTMLButtonElement
+    ).click();
+    expect(rows[0].getAttribute('data-mode')).toBe('display');
+
+    // Cancel reverts to the most recently assigned value
+    (rowB.querySelector('[data-action="cancel"]') as HTMLButtonElement).click();
+    expect(element.data[2]).toEqual({ id: 2, name: 'B (server)' });
+  });
+
+  test('should keep focus on a moved row', () => {
+    const rowA = getRows(element)[0];
+    rowA.focus();
+
+    element.data = [
+      { id: 2, name: 'B' },
+      { id: 3, name: 'C' },
+      { id: 1, name: 'A' },
+    ];
+
+    expect(element.shadowRoot?.activeElement).toBe(rowA);
+  });
+
+  test('should end edit mode when the edited key is removed', () => {
+    const rowB = getRows(element)[1];
+    (rowB.querySelector('[data-action="toggle"]') as HTMLButtonElement).click();
+
+    element.data = [
+      { id: 1, name: 'A' },
+      { id: 3, name: 'C' },
+    ];
+
+    expect(
+      getRows(element).every(r => r.getAttribute('data-mode') === 'display')
+    ).toBe(true);
+  });
+
+  test('should rebind by position when key-field is not set', () => {
+    element.removeAttribute('key-field');
+    const rows = getRows(element);
+
+    element.data = [
+      { id: 3, name: 'C' },
+      { id: 1, name: 'A' },
+      { id: 2, name: 'B' },
+    ];
+
+    expect(getRows(element)[0]).toBe(rows[0]);
+    expect(getRowText(element)).toEqual(['C', 'A', 'B']);
+  });
+});
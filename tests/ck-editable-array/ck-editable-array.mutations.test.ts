@@ -0,0 +1,301 @@
+/// <reference lib="dom" />
+/* eslint-disable no-undef */
+import { CkEditableArray } from '../../src/components/ck-editable-array/ck-editable-array';
+
+// Define the custom element before running tests
+beforeAll(() => {
+  if (!customElements.get('ck-editable-array')) {
+    customElements.define('ck-editable-array', CkEditableArray);
+  }
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const attachTemplates = (element: CkEditableArray, bindPath: string): void => {
+  const display = document.createElement('template');
+  display.setAttribute('slot', 'display');
+  display.innerHTML = `<span data-bind="${bindPath}"></span>`;
+  element.appendChild(display);
+
+  const edit = document.createElement('template');
+  edit.setAttribute('slot', 'edit');
+  edit.innerHTML = `<input type="text" data-bind="${bindPath}" />`;
+  element.appendChild(edit);
+};
+
+const getRows = (element: CkEditableArray): HTMLElement[] =>
+  Array.from(
+    element.shadowRoot?.querySelectorAll('[data-row]') || []
+  ) as HTMLElement[];
+
+const getRowText = (element: CkEditableArray): string[] =>
+  getRows(element).map(
+    row => row.querySelector('.display-content [data-bind]')?.textContent || ''
+  );
+
+describe('Row Mutation API', () => {
+  let element: CkEditableArray;
+
+  beforeEach(() => {
+    element = new CkEditableArray();
+    element.setAttribute('datachange-mode', 'change');
+    document.body.appendChild(element);
+    attachTemplates(element, 'name');
+    element.data = [{ name: 'A' }, { name: 'B' }, { name: 'C' }];
+    element.connectedCallback();
+  });
+
+  afterEach(() => {
+    if (element.parentNode) {
+      element.parentNode.removeChild(element);
+    }
+  });
+
+  describe('addRow / insertRow', () => {
+    test('should append a row by default and return its index', () => {
+      const index = element.addRow({ name: 'D' });
+
+      expect(index).toBe(3);
+      expect(element.data).toEqual([
+        { name: 'A' },
+        { name: 'B' },
+        { name: 'C' },
+        { name: 'D' },
+      ]);
+      expect(getRowText(element)).toEqual(['A', 'B', 'C', 'D']);
+    });
+
+    test('should insert at the given index and reuse existing row elements', () => {
+      const before = getRows(element);
+
+      element.insertRow(1, { name: 'X' });
+
+      const after = getRows(element);
+      expect(getRowText(element)).toEqual(['A', 'X', 'B', 'C']);
+      expect(after[0]).toBe(before[0]);
+      expect(after[2]).toBe(before[1]);
+      expect(after[3]).toBe(before[2]);
+      expect(after.map(r => r.getAttribute('data-row'))).toEqual([
+        '0',
+        '1',
+        '2',
+        '3',
+      ]);
+    });
+
+    test('should refresh names of shifted rows', () => {
+      element.addRow({ name: 'X' }, 0);
+
+      const input = getRows(element)[1].querySelector(
+        '.edit-content input'
+      ) as HTMLInputElement;
+      expect(input.getAttribute('name')).toBe('items[1].name');
+    });
+
+    test('should clamp out-of-range indices', () => {
+      expect(element.insertRow(99, { name: 'Z' })).toBe(3);
+      expect(element.insertRow(-5, { name: 'Y' })).toBe(0);
+      expect(getRowText(element)).toEqual(['Y', 'A', 'B', 'C', 'Z']);
+    });
+
+    test('should clone the inserted item', () => {
+      const item = { name: 'D' };
+      element.addRow(item);
+      item.name = 'mutated';
+
+      expect(element.data[3]).toEqual({ name: 'D' });
+    });
+
+    test('should dispatch rowchanged and datachanged', () => {
+      const rowHandler = jest.fn();
+      const dataHandler = jest.fn();
+      element.addEventListener('rowchanged', rowHandler);
+      element.addEventListener('datachanged', dataHandler);
+
+      element.addRow({ name: 'D' }, 1);
+
+      expect(rowHandler).toHaveBeenCalledTimes(1);
+      expect(rowHandler.mock.calls[0][0].detail).toEqual({
+        index: 1,
+        row: { name: 'D' },
+        changedPaths: ['name'],
+      });
+      expect(dataHandler).toHaveBeenCalledTimes(1);
+    });
+
+    test('should keep the row being edited in edit mode', () => {
+      const toggle = getRows(element)[1].querySelector(
+        '[data-action="toggle"]'
+      ) as HTMLButtonElement;
+      toggle.click();
+      const input = getRows(element)[1].querySelector(
+        '.edit-content input'
+      ) as HTMLInputElement;
+      input.value = 'B-edited';
+      input.dispatchEvent(new Event('input', { bubbles: true }));
+
+      element.addRow({ name: 'X' }, 0);
+
+      const editingRow = getRows(element)[2];
+      expect(editingRow.getAttribute('data-mode')).toBe('edit');
+      expect(input.value).toBe('B-edited');
+
+      // Cancel still restores the original snapshot
+      (
+        editingRow.querySelector('[data-action="cancel"]') as HTMLButtonElement
+      ).click();
+      expect(element.data[2]).toEqual({ name: 'B' });
+    });
+  });
+
+  describe('removeRow', () => {
+    test('should remove the row and return a clone of it', () => {
+      const removed = element.removeRow(1);
+
+      expect(removed).toEqual({ name: 'B' });
+      expect(getRowText(element)).toEqual(['A', 'C']);
+      expect(getRows(element)[1].getAttribute('data-row')).toBe('1');
+    });
+
+    test('should return undefined for invalid indices', () => {
+      expect(element.removeRow(5)).toBeUndefined();
+      expect(element.removeRow(-1)).toBeUndefined();
+      expect(element.removeRow(1.5)).toBeUndefined();
+      expect(element.data).toHaveLength(3);
+    });
+
+    test('should exit edit mode when the edited row is removed', () => {
+      (
+        getRows(element)[1].querySelector(
+          '[data-action="toggle"]'
+        ) as HTMLButtonElement
+      ).click();
+
+      element.removeRow(1);
+
+      // Another row can now enter edit mode
+      const toggle = getRows(element)[0].querySelector(
+        '[data-action="toggle"]'
+      ) as HTMLButtonElement;
+      toggle.click();
+      expect(getRows(element)[0].getAttribute('data-mode')).toBe('edit');
+    });
+
+    test('should dispatch datachanged', () => {
+      const handler = jest.fn();
+      element.addEventListener('datachanged', handler);
+
+      element.removeRow(0);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0][0].detail.data).toEqual([
+        { name: 'B' },
+        { name: 'C' },
+      ]);
+    });
+  });
+
+  describe('updateRow', () => {
+    test('should merge object patches and re-render only that row', () => {
+      const before = getRows(element);
+
+      expect(element.updateRow(1, { name: 'B2', extra: true })).toBe(true);
+
+      expect(element.data[1]).toEqual({ name: 'B2', extra: true });
+      expect(getRowText(element)).toEqual(['A', 'B2', 'C']);
+      expect(getRows(element)).toEqual(before);
+    });
+
+    test('should replace primitive rows', () => {
+      element.data = ['a', 'b'];
+      element.updateRow(0, 'z');
+      expect(element.data).toEqual(['z', 'b']);
+    });
+
+    test('should return false for invalid indices', () => {
+      expect(element.updateRow(3, { name: 'X' })).toBe(false);
+    });
+
+    test('should commit patches to a row being edited', () => {
+      const row = getRows(element)[1];
+      (
+        row.querySelector('[data-action="toggle"]') as HTMLButtonElement
+      ).click();
+      const input = row.querySelector(
+        '.edit-content input'
+      ) as HTMLInputElement;
+      input.value = 'typed';
+      input.dispatchEvent(new Event('input', { bubbles: true }));
+
+      element.updateRow(1, { m: 2 });
+      expect(element.data[1]).toEqual({ name: 'typed', m: 2 });
+      expect(element.canUndo).toBe(true);
+
+      (
+        row.querySelector('[data-action="cancel"]') as HTMLButtonElement
+      ).click();
+      expect(element.data[1]).toEqual({ name: 'B', m: 2 });
+    });
+
+    test('should dispatch rowchanged with the updated row', () => {
+      const handler = jest.fn();
+      element.addEventListener('rowchanged', handler);
+
+      element.updateRow(2, { name: 'C2' });
+
+      expect(handler.mock.calls[0][0].detail).toEqual({
+        index: 2,
+        row: { name: 'C2' },
+        changedPaths: ['name'],
+      });
+    });
+  });
+
+  describe('clear', () => {
+    test('should remove all rows and dispatch datachanged', () => {
+      const handler = jest.fn();
+      element.addEventListener('datachanged', handler);
+
+      element.clear();
+
+      expect(element.data).toEqual([]);
+      expect(getRows(element)).toHaveLength(0);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('datachange-mode', () => {
+    test('should debounce datachanged in debounced mode', () => {
+      jest.useFakeTimers();
+      try {
+        element.setAttribute('datachange-mode', 'debounced');
+        const handler = jest.fn();
+        element.addEventListener('datachanged', handler);
+
+        element.addRow({ name: 'D' });
+        element.removeRow(0);
+        expect(handler).not.toHaveBeenCalled();
+
+        jest.advanceTimersByTime(300);
+        expect(handler).toHaveBeenCalledTimes(1);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('before connection', () => {
+    test('should mutate data and render once connected', () => {
+      const detached = new CkEditableArray();
+      attachTemplates(detached, 'name');
+      detached.addRow({ name: 'first' });
+      detached.addRow({ name: 'second' });
+
+      document.body.appendChild(detached);
+      expect(getRowText(detached)).toEqual(['first', 'second']);
+      detached.remove();
+    });
+  });
+});
@@ -0,0 +1,260 @@
+/// <reference lib="dom" />
+/* eslint-disable no-undef */
+import { CkEditableArray } from '../../src/components/ck-editable-array/ck-editable-array';
+
+// Define the custom element before running tests
+beforeAll(() => {
+  if (!customElements.get('ck-editable-array')) {
+    customElements.define('ck-editable-array', CkEditableArray);
+  }
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const LINES_TEMPLATE = `
+  <ck-editable-array data-bind="lines">
+    <template slot="display"><span class="sku" data-bind="sku"></span></template>
+    <template slot="edit"><input type="text" data-bind="sku" /></template>
+  </ck-editable-array>`;
+
+const setup = (
+  element: CkEditableArray,
+  data: unknown[],
+  displayHTML = `<span class="customer" data-bind="customer"></span>${LINES_TEMPLATE}`,
+  editHTML?: string
+): void => {
+  const display = document.createElement('template');
+  display.setAttribute('slot', 'display');
+  display.innerHTML = displayHTML;
+  element.appendChild(display);
+
+  if (editHTML) {
+    const edit = document.createElement('template');
+    edit.setAttribute('slot', 'edit');
+    edit.innerHTML = editHTML;
+    element.appendChild(edit);
+  }
+
+  element.data = data;
+  element.connectedCallback();
+};
+
+const getNested = (
+  element: CkEditableArray,
+  rowIndex = 0,
+  area = 'display'
+): CkEditableArray =>
+  element.shadowRoot?.querySelector(
+    `[data-row="${rowIndex}"] .${area}-content ck-editable-array`
+  ) as CkEditableArray;
+
+const nestedRow = (nested: CkEditableArray, rowIndex = 0): HTMLElement =>
+  nested.shadowRoot?.querySelector(`[data-row="${rowIndex}"]`) as HTMLElement;
+
+const editNestedSku = (
+  nested: CkEditableArray,
+  rowIndex: number,
+  value: string
+): void => {
+  const row = nestedRow(nested, rowIndex);
+  (row.querySelector('[data-action="toggle"]') as HTMLButtonElement).click();
+  const input = row.querySelector(
+    '.edit-content [data-bind="sku"]'
+  ) as HTMLInputElement;
+  input.value = value;
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+  (row.querySelector('[data-action="save"]') as HTMLButtonElement).click();
+};
+
+const ORDERS = [
+  { customer: 'Ada', lines: [{ sku: 'A-1' }, { sku: 'A-2' }] },
+  { customer: 'Bob', lines: [{ sku: 'B-1' }] },
+];
+
+describe('Nested Editable Arrays', () => {
+  let element: CkEditableArray;
+
+  beforeEach(() => {
+    element = new CkEditableArray();
+    element.setAttribute('name', 'orders');
+    document.body.appendChild(element);
+  });
+
+  afterEach(() => {
+    if (element.parentNode) {
+      element.parentNode.removeChild(element);
+    }
+  });
+
+  test('should upgrade nested arrays and give them the row array', () => {
+    setup(element, ORDERS);
+
+    const nested = getNested(element, 0);
+    expect(nested).toBeInstanceOf(CkEditableArray);
+    expect(nested.data).toEqual([{ sku: 'A-1' }, { sku: 'A-2' }]);
+    expect(getNested(element, 1).data).toEqual([{ sku: 'B-1' }]);
+
+    const skus = nested.shadowRoot?.querySelectorAll('.display-content .sku');
+    expect(Array.from(skus || []).map(el => el.textContent)).toEqual([
+      'A-1',
+      'A-2',
+    ]);
+  });
+
+  test('should not share data between the row and the nested array', () => {
+    setup(element, ORDERS);
+    const lines = getNested(element).data as { sku: string }[];
+    lines[0].sku = 'changed';
+
+    expect((element.data[0] as { lines: { sku: string }[] }).lines[0].sku).toBe(
+      'A-1'
+    );
+  });
+
+  test('should treat missing arrays as empty', () => {
+    setup(element, [{ customer: 'Eve' }]);
+    expect(getNested(element).data).toEqual([]);
+  });
+
+  test('should name nested controls with the row path', () => {
+    setup(element, ORDERS);
+
+    expect(getNested(element, 1).getAttribute('name')).toBe('orders[1].lines');
+    const input = nestedRow(getNested(element, 1)).querySelector(
+      '.edit-content input'
+    ) as HTMLInputElement;
+    expect(input.name).toBe('orders[1].lines[0].sku');
+  });
+
+  test('should write nested changes back into the row', () => {
+    setup(element, ORDERS);
+    const rowChanged = jest.fn();
+    element.addEventListener('rowchanged', rowChanged);
+
+    editNestedSku(getNested(element, 0), 1, 'A-9');
+
+    expect(element.data[0]).toEqual({
+      customer: 'Ada',
+      lines: [{ sku: 'A-1' }, { sku: 'A-9' }],
+    });
+    expect(rowChanged).toHaveBeenCalledTimes(1);
+    expect(rowChanged.mock.calls[0][0].detail).toMatchObject({
+      index: 0,
+      changedPaths: ['lines'],
+    });
+    expect(element.isDirty).toBe(true);
+  });
+
+  test('should dispatch only its own data and row events', () => {
+    element.setAttribute('datachange-mode', 'change');
+    setup(element, ORDERS);
+    const dataChanged = jest.fn();
+    element.addEventListener('datachanged', dataChanged);
+
+    editNestedSku(getNested(element, 1), 0, 'B-2');
+
+    // The save inside the nested array reaches listeners once, as a
+    // change of the parent's data
+    expect(dataChanged).toHaveBeenCalledTimes(1);
+    const detail = dataChanged.mock.calls[0][0].detail;
+    expect(detail.data[1].lines).toEqual([{ sku: 'B-2' }]);
+  });
+
+  test('should keep display and edit copies in sync', () => {
+    setup(element, ORDERS, LINES_TEMPLATE, LINES_TEMPLATE);
+    const display = getNested(element, 0, 'display');
+    const edit = getNested(element, 0, 'edit');
+
+    editNestedSku(edit, 0, 'A-5');
+
+    expect(display.data).toEqual([{ sku: 'A-5' }, { sku: 'A-2' }]);
+  });
+
+  test('should keep an in-progress nested edit on unrelated rebinds', () => {
+    setup(element, ORDERS);
+    const nested = getNested(element, 0);
+    const row = nestedRow(nested, 0);
+    (row.querySelector('[data-action="toggle"]') as HTMLButtonElement).click();
+
+    element.updateRow(0, { customer: 'Ada L.' });
+
+    expect(row.classList.contains('ck-hidden')).toBe(false);
+    expect(
+      row.querySelector('.edit-content')?.classList.contains('ck-hidden')
+    ).toBe(false);
+  });
+
+  test('should restore nested arrays when the parent row is cancelled', () => {
+    setup(
+      element,
+      ORDERS,
+      '<span data-bind="customer"></span>',
+      `<input type="text" data-bind="customer" />${LINES_TEMPLATE}`
+    );
+    const parentRow = element.shadowRoot?.querySelector(
+      '[data-row="0"]'
+    ) as HTMLElement;
+    (
+      parentRow.querySelector('[data-action="toggle"]') as HTMLButtonElement
+    ).click();
+
+    const nested = getNested(element, 0, 'edit');
+    editNestedSku(nested, 0, 'A-7');
+    expect((element.data[0] as { lines: { sku: string }[] }).lines[0].sku).toBe(
+      'A-7'
+    );
+
+    (
+      parentRow.querySelector('[data-action="cancel"]') as HTMLButtonElement
+    ).click();
+
+    expect(element.data[0]).toEqual(ORDERS[0]);
+    expect(nested.data).toEqual(ORDERS[0].lines);
+  });
+
+  test('should leave undo shortcuts in a nested array to that array', () => {
+    setup(element, ORDERS);
+    element.updateRow(1, { customer: 'Bea' });
+    editNestedSku(getNested(element, 0), 0, 'A-9');
+
+    const pressUndo = (): void => {
+      nestedRow(getNested(element, 0)).dispatchEvent(
+        new KeyboardEvent('keydown', {
+          key: 'z',
+          ctrlKey: true,
+          bubbles: true,
+          composed: true,
+          cancelable: true,
+        })
+      );
+    };
+
+    pressUndo();
+    expect(element.data).toEqual([
+      ORDERS[0],
+      { ...ORDERS[1], customer: 'Bea' },
+    ]);
+
+    // Nothing left to undo in the nested array
+    pressUndo();
+    expect((element.data[1] as { customer: string }).customer).toBe('Bea');
+  });
+
+  test('should include nested controls in the form value', () => {
+    const setFormValue = jest.fn();
+    (
+      element as unknown as { _internals: { setFormValue: jest.Mock } }
+    )._internals.setFormValue = setFormValue;
+    setup(element, ORDERS, LINES_TEMPLATE, LINES_TEMPLATE);
+
+    editNestedSku(getNested(element, 1, 'display'), 0, 'B-3');
+
+    const fd = setFormValue.mock.calls[
+      setFormValue.mock.calls.length - 1
+    ][0] as FormData;
+    expect(fd.getAll('orders[1].lines[0].sku')).toEqual(['B-3']);
+    expect(fd.getAll('orders[0].lines[1].sku')).toEqual(['A-2']);
+  });
+});
@@ -0,0 +1,172 @@
+/// <reference lib="dom" />
+/* eslint-disable no-undef */
+import { CkEditableArray } from '../../src/components/ck-editable-array/ck-editable-array';
+
+// Define the custom element before running tests
+beforeAll(() => {
+  if (!customElements.get('ck-editable-array')) {
+    customElements.define('ck-editable-array', CkEditableArray);
+  }
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const setup = (
+  element: CkEditableArray,
+  editHTML: string,
+  data: unknown[],
+  displayHTML = '<span></span>'
+): void => {
+  const display = document.createElement('template');
+  display.setAttribute('slot', 'display');
+  display.innerHTML = displayHTML;
+  element.appendChild(display);
+
+  const edit = document.createElement('template');
+  edit.setAttribute('slot', 'edit');
+  edit.innerHTML = editHTML;
+  element.appendChild(edit);
+
+  element.data = data;
+  element.connectedCallback();
+};
+
+const getInput = (element: CkEditableArray, bindPath: string) =>
+  element.shadowRoot?.querySelector(
+    `[data-row="0"] .edit-content [data-bind="${bindPath}"]`
+  ) as HTMLInputElement;
+
+const typeInto = (
+  element: CkEditableArray,
+  bindPath: string,
+  value: string
+): void => {
+  const input = getInput(element, bindPath);
+  input.value = value;
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+describe('Array Index Paths', () => {
+  let element: CkEditableArray;
+
+  beforeEach(() => {
+    element = new CkEditableArray();
+    document.body.appendChild(element);
+  });
+
+  afterEach(() => {
+    if (element.parentNode) {
+      element.parentNode.removeChild(element);
+    }
+  });
+
+  describe('Reading', () => {
+    test('should resolve bracket and numeric segments', () => {
+      setup(
+        element,
+        `<input type="text" data-bind="addresses[1].city" />
+         <input type="text" data-bind="phones.0" />`,
+        [{ addresses: [{ city: 'Oslo' }, { city: 'Rome' }], phones: ['555'] }],
+        '<span data-bind="addresses[0].city"></span>'
+      );
+
+      expect(getInput(element, 'addresses[1].city').value).toBe('Rome');
+      expect(getInput(element, 'phones.0').value).toBe('555');
+      expect(
+        element.shadowRoot?.querySelector('.display-content span')?.textContent
+      ).toBe('Oslo');
+    });
+
+    test('should render empty values for missing indices', () => {
+      setup(element, '<input type="text" data-bind="phones[3]" />', [
+        { phones: ['555'] },
+      ]);
+      expect(getInput(element, 'phones[3]').value).toBe('');
+    });
+  });
+
+  describe('Writing', () => {
+    test('should write into existing arrays', () => {
+      setup(element, '<input type="text" data-bind="addresses[1].city" />', [
+        { addresses: [{ city: 'Oslo' }, { city: 'Rome' }] },
+      ]);
+      typeInto(element, 'addresses[1].city', 'Paris');
+
+      expect(element.data[0]).toEqual({
+        addresses: [{ city: 'Oslo' }, { city: 'Paris' }],
+      });
+    });
+
+    test('should create arrays for missing numeric segments', () => {
+      setup(
+        element,
+        `<input type="text" data-bind="phones.0" />
+         <input type="text" data-bind="addresses[0].city" />`,
+        [{}]
+      );
+      typeInto(element, 'phones.0', '555');
+      typeInto(element, 'addresses[0].city', 'Oslo');
+
+      const row = element.data[0] as Record<string, unknown>;
+      expect(Array.isArray(row.phones)).toBe(true);
+      expect(Array.isArray(row.addresses)).toBe(true);
+      expect(row).toEqual({ phones: ['555'], addresses: [{ city: 'Oslo' }] });
+    });
+
+    test('should keep rejecting prototype keys', () => {
+      setup(
+        element,
+        `<input type="text" data-bind="__proto__[0].polluted" />
+         <input type="text" data-bind="list[constructor].x" />`,
+        [{ list: [] }]
+      );
+      typeInto(element, '__proto__[0].polluted', 'yes');
+      typeInto(element, 'list[constructor].x', 'yes');
+
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+      expect(element.data[0]).toEqual({ list: [] });
+    });
+  });
+
+  describe('Names and ids', () => {
+    test('should write array segments in brackets', () => {
+      setup(
+        element,
+        `<input type="text" data-bind="addresses[0].city" />
+         <input type="text" data-bind="phones.1" />`,
+        [{ addresses: [{ city: 'Oslo' }], phones: ['1', '2'] }]
+      );
+
+      const city = getInput(element, 'addresses[0].city');
+      expect(city.name).toBe('items[0].addresses[0].city');
+      expect(city.id).toBe('items__0__addresses_0_city');
+      const phone = getInput(element, 'phones.1');
+      expect(phone.name).toBe('items[0].phones[1]');
+      expect(phone.id).toBe('items__0__phones_1');
+    });
+  });
+
+  test('should mark fields dirty by index path', () => {
+    setup(
+      element,
+      `<input type="text" data-bind="phones[0]" />
+       <input type="text" data-bind="phones[1]" />`,
+      [{ phones: ['1', '2'] }]
+    );
+    (
+      element.shadowRoot?.querySelector(
+        '[data-row="0"] [data-action="toggle"]'
+      ) as HTMLButtonElement
+    ).click();
+    typeInto(element, 'phones[1]', '3');
+
+    expect(getInput(element, 'phones[0]').hasAttribute('data-dirty')).toBe(
+      false
+    );
+    expect(getInput(element, 'phones[1]').hasAttribute('data-dirty')).toBe(
+      true
+    );
+  });
+});
@@ -0,0 +1,172 @@
+/// <reference lib="dom" />
+/* eslint-disable no-undef */
+import { CkEditableArray } from '../../src/components/ck-editable-array/ck-editable-array';
+
+// Define the custom element before running tests
+beforeAll(() => {
+  if (!customElements.get('ck-editable-array')) {
+    customElements.define('ck-editable-array', CkEditableArray);
+  }
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const setup = (
+  element: CkEditableArray,
+  data: unknown[],
+  bindPath = '.'
+): void => {
+  const display = document.createElement('template');
+  display.setAttribute('slot', 'display');
+  display.innerHTML = `<span class="value" data-bind="${bindPath}"></span>`;
+  element.appendChild(display);
+
+  const edit = document.createElement('template');
+  edit.setAttribute('slot', 'edit');
+  edit.innerHTML = `<input type="text" data-bind="${bindPath}" />`;
+  element.appendChild(edit);
+
+  element.data = data;
+  element.connectedCallback();
+};
+
+const getRow = (element: CkEditableArray, rowIndex = 0): HTMLElement =>
+  element.shadowRoot?.querySelector(`[data-row="${rowIndex}"]`) as HTMLElement;
+
+const getInput = (element: CkEditableArray, rowIndex = 0) =>
+  getRow(element, rowIndex).querySelector(
+    '.edit-content input'
+  ) as HTMLInputElement;
+
+const displayText = (element: CkEditableArray, rowIndex = 0) =>
+  getRow(element, rowIndex).querySelector('.display-content .value')
+    ?.textContent;
+
+const clickAction = (
+  element: CkEditableArray,
+  action: string,
+  rowIndex = 0
+): void => {
+  (
+    getRow(element, rowIndex).querySelector(
+      `[data-action="${action}"]`
+    ) as HTMLButtonElement
+  ).click();
+};
+
+const typeInto = (
+  element: CkEditableArray,
+  value: string,
+  rowIndex = 0
+): void => {
+  const input = getInput(element, rowIndex);
+  input.value = value;
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+describe('Primitive Rows', () => {
+  let element: CkEditableArray;
+
+  beforeEach(() => {
+    element = new CkEditableArray();
+    element.setAttribute('name', 'tags');
+    document.body.appendChild(element);
+  });
+
+  afterEach(() => {
+    if (element.parentNode) {
+      element.parentNode.removeChild(element);
+    }
+  });
+
+  test('should bind the row value with "."', () => {
+    setup(element, ['red', 'green']);
+
+    expect(displayText(element, 0)).toBe('red');
+    expect(displayText(element, 1)).toBe('green');
+    expect(getInput(element, 1).value).toBe('green');
+  });
+
+  test('should bind the row value with "$value"', () => {
+    setup(element, ['red'], '$value');
+    expect(displayText(element)).toBe('red');
+
+    clickAction(element, 'toggle');
+    typeInto(element, 'blue');
+    expect(element.data).toEqual(['blue']);
+  });
+
+  test('should write edits back to the array', () => {
+    setup(element, ['red', 'green']);
+    const rowChanged = jest.fn();
+    element.addEventListener('rowchanged', rowChanged);
+
+    clickAction(element, 'toggle', 1);
+    typeInto(element, 'teal', 1);
+
+    expect(element.data).toEqual(['red', 'teal']);
+    expect(displayText(element, 1)).toBe('teal');
+    expect(rowChanged.mock.calls[0][0].detail).toEqual({
+      index: 1,
+      row: 'teal',
+      changedPaths: ['.'],
+    });
+  });
+
+  test('should keep numbers as numbers', () => {
+    setup(element, [1, 2]);
+    clickAction(element, 'toggle');
+    typeInto(element, '10');
+    expect(element.data).toEqual([10, 2]);
+  });
+
+  test('should name controls after the row index', () => {
+    setup(element, ['red', 'green']);
+    expect(getInput(element, 1).name).toBe('tags[1]');
+    expect(getInput(element, 1).id).toBe('tags__1');
+  });
+
+  test('should restore the value on cancel', () => {
+    setup(element, ['red']);
+    clickAction(element, 'toggle');
+    typeInto(element, 'blue');
+    clickAction(element, 'cancel');
+
+    expect(element.data).toEqual(['red']);
+    expect(displayText(element)).toBe('red');
+    expect(element.isDirty).toBe(false);
+  });
+
+  test('should commit the value on save and track dirty state', () => {
+    setup(element, ['red']);
+    clickAction(element, 'toggle');
+    typeInto(element, 'blue');
+    expect(getInput(element).hasAttribute('data-dirty')).toBe(true);
+    clickAction(element, 'save');
+
+    expect(element.data).toEqual(['blue']);
+    expect(element.isDirty).toBe(true);
+    expect(element.getChanges().modified).toEqual(['blue']);
+  });
+
+  test('should track soft deletes without changing the values', () => {
+    setup(element, ['red', 'green']);
+    clickAction(element, 'delete', 0);
+
+    expect(element.data).toEqual(['red', 'green']);
+    expect(getRow(element, 0).classList.contains('ck-deleted')).toBe(true);
+    expect(element.getChanges().deleted).toEqual(['red']);
+
+    clickAction(element, 'delete', 0);
+    expect(getRow(element, 0).classList.contains('ck-deleted')).toBe(false);
+  });
+
+  test('should not replace object rows through a self binding', () => {
+    setup(element, [{ color: 'red' }]);
+    clickAction(element, 'toggle');
+    typeInto(element, 'blue');
+    expect(element.data).toEqual([{ color: 'red' }]);
+  });
+});
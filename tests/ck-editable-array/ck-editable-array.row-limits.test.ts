@@ -0,0 +1,225 @@
+/// <reference lib="dom" />
+/* eslint-disable no-undef */
+import { CkEditableArray } from '../../src/components/ck-editable-array/ck-editable-array';
+
+// Define the custom element before running tests
+beforeAll(() => {
+  if (!customElements.get('ck-editable-array')) {
+    customElements.define('ck-editable-array', CkEditableArray);
+  }
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const setup = (element: CkEditableArray, data: unknown[]): jest.Mock => {
+  const setValidity = jest.fn();
+  (
+    element as unknown as { _internals: { setValidity: jest.Mock } }
+  )._internals.setValidity = setValidity;
+
+  const display = document.createElement('template');
+  display.setAttribute('slot', 'display');
+  display.innerHTML = '<span data-bind="name"></span>';
+  element.appendChild(display);
+
+  const edit = document.createElement('template');
+  edit.setAttribute('slot', 'edit');
+  edit.innerHTML = '<input type="text" data-bind="name" />';
+  element.appendChild(edit);
+
+  element.data = data;
+  element.connectedCallback();
+  return setValidity;
+};
+
+const getButton = (
+  element: CkEditableArray,
+  action: string,
+  rowIndex?: number
+): HTMLButtonElement =>
+  element.shadowRoot?.querySelector(
+    rowIndex === undefined
+      ? `[data-action="${action}"]`
+      : `[data-row="${rowIndex}"] [data-action="${action}"]`
+  ) as HTMLButtonElement;
+
+const rows = (names: string[]): { name: string }[] =>
+  names.map(name => ({ name }));
+
+describe('Row Count Limits', () => {
+  let element: CkEditableArray;
+
+  beforeEach(() => {
+    element = new CkEditableArray();
+    element.setAttribute('allow-add', '');
+    document.body.appendChild(element);
+  });
+
+  afterEach(() => {
+    if (element.parentNode) {
+      element.parentNode.removeChild(element);
+    }
+  });
+
+  describe('Actions', () => {
+    test('should disable the add button at max-rows', () => {
+      element.setAttribute('max-rows', '2');
+      setup(element, rows(['A', 'B']));
+      expect(getButton(element, 'add').disabled).toBe(true);
+
+      getButton(element, 'delete', 1).click();
+      expect(getButton(element, 'add').disabled).toBe(false);
+    });
+
+    test('should disable restore while the array is at max-rows', () => {
+      element.setAttribute('max-rows', '1');
+      setup(element, [{ name: 'A' }, { name: 'B', isDeleted: true }]);
+      expect(getButton(element, 'delete', 1).disabled).toBe(true);
+
+      getButton(element, 'delete', 0).click();
+      expect(getButton(element, 'delete', 1).disabled).toBe(false);
+
+      getButton(element, 'delete', 1).click();
+      expect((element.data[1] as { isDeleted: boolean }).isDeleted).toBe(false);
+      expect(getButton(element, 'delete', 0).disabled).toBe(true);
+    });
+
+    test('should disable delete at min-rows', () => {
+      element.setAttribute('min-rows', '1');
+      setup(element, rows(['A', 'B']));
+      expect(getButton(element, 'delete', 0).disabled).toBe(false);
+
+      getButton(element, 'delete', 0).click();
+      expect(getButton(element, 'delete', 1).disabled).toBe(true);
+
+      // Clicking anyway does nothing
+      getButton(element, 'delete', 1).disabled = false;
+      getButton(element, 'delete', 1).click();
+      expect((element.data[1] as { isDeleted?: boolean }).isDeleted).not.toBe(
+        true
+      );
+    });
+
+    test('should re-enable buttons when a limit is removed', () => {
+      element.setAttribute('min-rows', '1');
+      element.setAttribute('max-rows', '1');
+      setup(element, rows(['A']));
+      expect(getButton(element, 'delete', 0).disabled).toBe(true);
+      expect(getButton(element, 'add').disabled).toBe(true);
+
+      element.minRows = null;
+      element.maxRows = null;
+      expect(getButton(element, 'delete', 0).disabled).toBe(false);
+      expect(getButton(element, 'add').disabled).toBe(false);
+    });
+
+    test('should keep the limits on rows moved with animation', () => {
+      jest.useFakeTimers();
+      element.setAttribute('max-rows', '1');
+      const setValidity = setup(element, [
+        { name: 'A' },
+        { name: 'B', isDeleted: true },
+      ]);
+
+      element.moveDown(0);
+      jest.runAllTimers();
+      jest.useRealTimers();
+
+      expect((element.data[0] as { isDeleted: boolean }).isDeleted).toBe(true);
+      expect(getButton(element, 'delete', 0).disabled).toBe(true);
+      expect(getButton(element, 'delete', 1).disabled).toBe(false);
+      expect(getButton(element, 'add').disabled).toBe(true);
+      expect(setValidity).toHaveBeenLastCalledWith({});
+    });
+
+    test('should leave the row methods unrestricted', () => {
+      element.setAttribute('max-rows', '1');
+      setup(element, rows(['A']));
+
+      expect(element.addRow({ name: 'B' })).toBe(1);
+      expect(element.data).toHaveLength(2);
+    });
+  });
+
+  describe('Form validity', () => {
+    test('should report valueMissing when min-rows is set and there are no rows', () => {
+      element.setAttribute('min-rows', '1');
+      const setValidity = setup(element, []);
+
+      expect(setValidity).toHaveBeenLastCalledWith(
+        { valueMissing: true },
+        'At least 1 row is required',
+        getButton(element, 'add')
+      );
+    });
+
+    test('should report rangeUnderflow and rangeOverflow', () => {
+      element.setAttribute('min-rows', '2');
+      element.setAttribute('max-rows', '3');
+      const setValidity = setup(element, rows(['A']));
+      expect(setValidity).toHaveBeenLastCalledWith(
+        { rangeUnderflow: true },
+        'At least 2 rows are required',
+        getButton(element, 'add')
+      );
+
+      element.data = rows(['A', 'B', 'C', 'D']);
+      expect(setValidity).toHaveBeenLastCalledWith(
+        { rangeOverflow: true },
+        'No more than 3 rows are allowed',
+        undefined
+      );
+
+      element.data = rows(['A', 'B']);
+      expect(setValidity).toHaveBeenLastCalledWith({});
+    });
+
+    test('should not count deleted rows', () => {
+      element.setAttribute('min-rows', '2');
+      const setValidity = setup(element, [
+        { name: 'A' },
+        { name: 'B', isDeleted: true },
+      ]);
+      expect(setValidity).toHaveBeenLastCalledWith(
+        { rangeUnderflow: true },
+        'At least 2 rows are required',
+        getButton(element, 'add')
+      );
+
+      getButton(element, 'delete', 1).click();
+      expect(setValidity).toHaveBeenLastCalledWith({});
+    });
+
+    test('should re-evaluate when a limit changes', () => {
+      const setValidity = setup(element, rows(['A', 'B']));
+      element.maxRows = 1;
+      expect(element.getAttribute('max-rows')).toBe('1');
+      expect(setValidity).toHaveBeenLastCalledWith(
+        { rangeOverflow: true },
+        'No more than 1 row is allowed',
+        undefined
+      );
+    });
+
+    test('should combine with collection issues', () => {
+      element.setAttribute('min-rows', '3');
+      element.setAttribute('unique-fields', 'name');
+      const setValidity = setup(element, rows(['A', 'A']));
+
+      expect(setValidity).toHaveBeenLastCalledWith(
+        { rangeUnderflow: true, customError: true },
+        'At least 3 rows are required',
+        getButton(element, 'add')
+      );
+    });
+
+    test('should ignore limits that are not non-negative numbers', () => {
+      element.setAttribute('min-rows', 'many');
+      element.setAttribute('max-rows', '-1');
+      expect(element.minRows).toBeNull();
+      expect(element.maxRows).toBeNull();
+    });
+  });
+});
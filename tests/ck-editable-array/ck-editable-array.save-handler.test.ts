@@ -0,0 +1,361 @@
+/// <reference lib="dom" />
+/* eslint-disable no-undef */
+import { CkEditableArray } from '../../src/components/ck-editable-array/ck-editable-array';
+
+// Define the custom element before running tests
+beforeAll(() => {
+  if (!customElements.get('ck-editable-array')) {
+    customElements.define('ck-editable-array', CkEditableArray);
+  }
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const attachTemplates = (element: CkEditableArray): void => {
+  const display = document.createElement('template');
+  display.setAttribute('slot', 'display');
+  display.innerHTML = `<span data-bind="name"></span>`;
+  element.appendChild(display);
+
+  const edit = document.createElement('template');
+  edit.setAttribute('slot', 'edit');
+  edit.innerHTML = `
+    <input type="text" data-bind="name" />
+    <input type="email" data-bind="email" />
+  `;
+  element.appendChild(edit);
+};
+
+const getRow = (element: CkEditableArray, index: number): HTMLElement =>
+  element.shadowRoot?.querySelector(`[data-row="${index}"]`) as HTMLElement;
+
+const clickRowAction = (
+  element: CkEditableArray,
+  index: number,
+  action: string
+): void => {
+  (
+    getRow(element, index).querySelector(
+      `[data-action="${action}"]`
+    ) as HTMLButtonElement
+  ).click();
+};
+
+const getInput = (
+  element: CkEditableArray,
+  index: number,
+  bindPath: string
+): HTMLInputElement =>
+  getRow(element, index).querySelector(
+    `.edit-content [data-bind="${bindPath}"]`
+  ) as HTMLInputElement;
+
+const typeInto = (input: HTMLInputElement, value: string): void => {
+  input.value = value;
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+// Resolves pending promise callbacks (the save handler's continuation)
+const flushPromises = (): Promise<void> =>
+  new Promise(resolve => setTimeout(resolve, 0));
+
+interface Deferred {
+  promise: Promise<unknown>;
+  resolve: (value?: unknown) => void;
+  reject: (reason?: unknown) => void;
+}
+
+const createDeferred = (): Deferred => {
+  const deferred = {} as Deferred;
+  deferred.promise = new Promise((resolve, reject) => {
+    deferred.resolve = resolve;
+    deferred.reject = reject;
+  });
+  return deferred;
+};
+
+describe('Async Save Handler', () => {
+  let element: CkEditableArray;
+  let deferred: Deferred;
+  let handler: jest.Mock;
+
+  beforeEach(() => {
+    element = new CkEditableArray();
+    element.setAttribute('datachange-mode', 'save');
+    document.body.appendChild(element);
+    attachTemplates(element);
+    element.data = [
+      { id: 1, name: 'A', email: 'a@example.com' },
+      { id: 2, name: 'B', email: 'b@example.com' },
+    ];
+    element.connectedCallback();
+
+    deferred = createDeferred();
+    handler = jest.fn(() => deferred.promise);
+    element.saveHandler = handler;
+  });
+
+  afterEach(() => {
+    if (element.parentNode) {
+      element.parentNode.removeChild(element);
+    }
+  });
+
+  describe('Pending State', () => {
+    test('should call the handler with a clone of the row and its index', () => {
+      clickRowAction(element, 1, 'toggle');
+      typeInto(getInput(element, 1, 'name'), 'B2');
+      clickRowAction(element, 1, 'save');
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0]).toEqual([
+        { id: 2, name: 'B2', email: 'b@example.com' },
+        1,
+      ]);
+      expect(handler.mock.calls[0][0]).not.toBe(element.data[1]);
+    });
+
+    test('should put the row into the saving state', () => {
+      clickRowAction(element, 0, 'toggle');
+      clickRowAction(element, 0, 'save');
+
+      const row = getRow(element, 0);
+      expect(row.getAttribute('data-mode')).toBe('saving');
+      expect(row.getAttribute('aria-busy')).toBe('true');
+      expect(
+        Array.from(row.querySelectorAll('button[data-action]')).every(
+          b => (b as HTMLButtonElement).disabled
+        )
+      ).toBe(true);
+      // Edit content stays visible while saving
+      expect(
+        row.querySelector('.edit-content')?.classList.contains('ck-hidden')
+      ).toBe(false);
+    });
+
+    test('should ignore cancel and repeated saves while saving', () => {
+      clickRowAction(element, 0, 'toggle');
+      clickRowAction(element, 0, 'save');
+
+      const row = getRow(element, 0);
+      (
+        row.querySelector('[data-action="save"]') as HTMLButtonElement
+      ).disabled = false;
+      (
+        row.querySelector('[data-action="cancel"]') as HTMLButtonElement
+      ).disabled = false;
+      clickRowAction(element, 0, 'save');
+      clickRowAction(element, 0, 'cancel');
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(row.getAttribute('data-mode')).toBe('saving');
+    });
+
+    test('should not call the handler when beforesave is prevented', () => {
+      element.addEventListener('beforesave', e => e.preventDefault());
+      clickRowAction(element, 0, 'toggle');
+      clickRowAction(element, 0, 'save');
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    test('should not call the handler when the row is invalid', () => {
+      clickRowAction(element, 0, 'toggle');
+      typeInto(getInput(element, 0, 'email'), 'not-an-email');
+      clickRowAction(element, 0, 'save');
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(getRow(element, 0).getAttribute('data-mode')).toBe('edit');
+    });
+  });
+
+  describe('Success', () => {
+    test('should leave edit mode when the handler resolves', async () => {
+      const changed = jest.fn();
+      element.addEventListener('datachanged', changed);
+      clickRowAction(element, 0, 'toggle');
+      typeInto(getInput(element, 0, 'name'), 'A2');
+      clickRowAction(element, 0, 'save');
+      expect(changed).not.toHaveBeenCalled();
+
+      deferred.resolve();
+      await flushPromises();
+
+      const row = getRow(element, 0);
+      expect(row.getAttribute('data-mode')).toBe('display');
+      expect(row.hasAttribute('aria-busy')).toBe(false);
+      expect(
+        (row.querySelector('[data-action="toggle"]') as HTMLButtonElement)
+          .disabled
+      ).toBe(false);
+      expect(element.data[0]).toEqual({
+        id: 1,
+        name: 'A2',
+        email: 'a@example.com',
+      });
+      expect(changed).toHaveBeenCalledTimes(1);
+    });
+
+    test('should apply the row returned by the handler', async () => {
+      const rowChanged = jest.fn();
+      element.addEventListener('rowchanged', rowChanged);
+      clickRowAction(element, 1, 'toggle');
+      clickRowAction(element, 1, 'save');
+
+      const serverRow = { id: 2, name: 'B (server)', email: 'b@example.com' };
+      deferred.resolve(serverRow);
+      await flushPromises();
+
+      expect(element.data[1]).toEqual(serverRow);
+      expect(
+        getRow(element, 1).querySelector('.display-content [data-bind="name"]')
+          ?.textContent
+      ).toBe('B (server)');
+      expect(
+        rowChanged.mock.calls[rowChanged.mock.calls.length - 1][0].detail
+      ).toEqual({
+        index: 1,
+        row: serverRow,
+        changedPaths: ['name'],
+      });
+
+      // Later cancels restore the server row, not the pre-save row
+      clickRowAction(element, 1, 'toggle');
+      typeInto(getInput(element, 1, 'name'), 'changed');
+      clickRowAction(element, 1, 'cancel');
+      expect(element.data[1]).toEqual(serverRow);
+    });
+
+    test('should commit draft rows once the handler resolves', async () => {
+      element.allowAdd = true;
+      (
+        element.shadowRoot?.querySelector(
+          '[data-action="add"]'
+        ) as HTMLButtonElement
+      ).click();
+      clickRowAction(element, 2, 'save');
+
+      deferred.resolve({ id: 3, name: 'C', email: '' });
+      await flushPromises();
+
+      const row = getRow(element, 2);
+      expect(row.hasAttribute('data-draft')).toBe(false);
+      expect(row.getAttribute('data-mode')).toBe('display');
+      expect(element.data[2]).toEqual({ id: 3, name: 'C', email: '' });
+    });
+  });
+
+  describe('Failure', () => {
+    test('should keep the row in edit mode when the handler rejects', async () => {
+      const saveError = jest.fn();
+      element.addEventListener('saveerror', saveError);
+      clickRowAction(element, 0, 'toggle');
+      typeInto(getInput(element, 0, 'name'), 'A2');
+      clickRowAction(element, 0, 'save');
+
+      const error = new Error('Network down');
+      deferred.reject(error);
+      await flushPromises();
+
+      const row = getRow(element, 0);
+      expect(row.getAttribute('data-mode')).toBe('edit');
+      expect(row.hasAttribute('aria-busy')).toBe(false);
+      expect(row.classList.contains('ck-invalid')).toBe(true);
+      expect(
+        (row.querySelector('[data-action="save"]') as HTMLButtonElement)
+          .disabled
+      ).toBe(false);
+      expect(
+        (row.querySelector('[data-action="cancel"]') as HTMLButtonElement)
+          .disabled
+      ).toBe(false);
+      expect(getInput(element, 0, 'name').value).toBe('A2');
+      expect(saveError).toHaveBeenCalledTimes(1);
+      expect(saveError.mock.calls[0][0].detail).toEqual({
+        rowIndex: 0,
+        rowData: { id: 1, name: 'A2', email: 'a@example.com' },
+        error,
+      });
+    });
+
+    test('should map field errors onto the matching controls', async () => {
+      clickRowAction(element, 0, 'toggle');
+      clickRowAction(element, 0, 'save');
+
+      deferred.reject({
+        errors: {
+          email: 'Email already taken',
+          name: ['Too short.', 'Must be unique.'],
+        },
+      });
+      await flushPromises();
+
+      const email = getInput(element, 0, 'email');
+      const name = getInput(element, 0, 'name');
+      expect(email.validity.customError).toBe(true);
+      expect(email.validationMessage).toBe('Email already taken');
+      expect(name.validationMessage).toBe('Too short. Must be unique.');
+    });
+
+    test('should clear a field error when the field is edited', async () => {
+      clickRowAction(element, 0, 'toggle');
+      clickRowAction(element, 0, 'save');
+      deferred.reject({ errors: { email: 'Email already taken' } });
+      await flushPromises();
+
+      const email = getInput(element, 0, 'email');
+      typeInto(email, 'other@example.com');
+
+      expect(email.validity.customError).toBe(false);
+    });
+
+    test('should allow retrying after a rejected save', async () => {
+      clickRowAction(element, 0, 'toggle');
+      clickRowAction(element, 0, 'save');
+      deferred.reject({ errors: { email: 'Email already taken' } });
+      await flushPromises();
+
+      deferred = createDeferred();
+      clickRowAction(element, 0, 'save');
+      expect(handler).toHaveBeenCalledTimes(2);
+
+      deferred.resolve();
+      await flushPromises();
+      expect(getRow(element, 0).getAttribute('data-mode')).toBe('display');
+      expect(getRow(element, 0).classList.contains('ck-invalid')).toBe(false);
+    });
+
+    test('should handle synchronous throws like rejections', async () => {
+      element.saveHandler = () => {
+        throw new Error('boom');
+      };
+      clickRowAction(element, 0, 'toggle');
+      clickRowAction(element, 0, 'save');
+      await flushPromises();
+
+      expect(getRow(element, 0).getAttribute('data-mode')).toBe('edit');
+    });
+  });
+
+  test('should ignore the result when data is replaced while saving', async () => {
+    clickRowAction(element, 0, 'toggle');
+    clickRowAction(element, 0, 'save');
+
+    element.data = [{ id: 9, name: 'Z', email: '' }];
+    deferred.resolve({ id: 1, name: 'late', email: '' });
+    await flushPromises();
+
+    expect(element.data).toEqual([{ id: 9, name: 'Z', email: '' }]);
+    expect(getRow(element, 0).hasAttribute('aria-busy')).toBe(false);
+  });
+
+  test('should save synchronously without a handler', () => {
+    element.saveHandler = null;
+    clickRowAction(element, 0, 'toggle');
+    clickRowAction(element, 0, 'save');
+
+    expect(getRow(element, 0).getAttribute('data-mode')).toBe('display');
+  });
+});
@@ -383,6 +383,179 @@ describe('Edit Section Validation', () => {
     });
   });
 
+  // ========================================================================
+  // Inline Error Messages
+  // ========================================================================
+
+  describe('Inline Error Messages', () => {
+    const FIELDS = `
+      <input type="text" data-bind="name" required data-msg-required="Name is required" />
+      <span data-error-for="name"></span>
+      <input type="email" data-bind="email" required pattern=".+@example\\.com"
+        data-msg-pattern="Use your example.com address" />
+      <span data-error-for="email"></span>`;
+
+    const setupFields = (data: unknown[]): HTMLElement => {
+      attachTemplates(element, 'name', FIELDS);
+      element.data = data;
+      element.connectedCallback();
+      return enterEditMode(element, 0);
+    };
+
+    const errorText = (row: HTMLElement, path: string) =>
+      row.querySelector(`[data-error-for="${path}"]`)?.textContent;
+
+    const typeInto = (row: HTMLElement, path: string, value: string) => {
+      const input = row.querySelector(
+        `.edit-content [data-bind="${path}"]`
+      ) as HTMLInputElement;
+      input.value = value;
+      input.dispatchEvent(new Event('input', { bubbles: true }));
+    };
+
+    test('should show the messages of all invalid fields at once', () => {
+      const row = setupFields([{ name: '', email: 'ada@other.org' }]);
+      clickSave(element, 0);
+
+      expect(errorText(row, 'name')).toBe('Name is required');
+      expect(errorText(row, 'email')).toBe('Use your example.com address');
+      expect(row.getAttribute('data-mode')).toBe('edit');
+    });
+
+    test('should fall back to data-msg and the browser message', () => {
+      attachTemplates(
+        element,
+        'code',
+        `<input type="text" data-bind="code" required data-msg="Enter a code" />
+         <span data-error-for="code"></span>
+         <input type="number" data-bind="qty" min="1" />
+         <span data-error-for="qty"></span>`
+      );
+      element.data = [{ code: '', qty: 0 }];
+      element.connectedCallback();
+      const row = enterEditMode(element, 0);
+      clickSave(element, 0);
+
+      expect(errorText(row, 'code')).toBe('Enter a code');
+      const qty = row.querySelector('[data-bind="qty"]') as HTMLInputElement;
+      expect(errorText(row, 'qty')).toBe(qty.validationMessage);
+      expect(errorText(row, 'qty')).not.toBe('');
+    });
+
+    test('should link controls and messages with aria-describedby', () => {
+      const row = setupFields([{ name: '', email: 'a@example.com' }]);
+      clickSave(element, 0);
+
+      const input = row.querySelector(
+        '.edit-content [data-bind="name"]'
+      ) as HTMLInputElement;
+      const message = row.querySelector(
+        '[data-error-for="name"]'
+      ) as HTMLElement;
+      expect(message.id).toMatch(/^ck-error-\d+$/);
+      expect(input.getAttribute('aria-describedby')).toBe(message.id);
+      expect(input.getAttribute('aria-invalid')).toBe('true');
+      expect(message.hidden).toBe(false);
+
+      const email = row.querySelector(
+        '.edit-content [data-bind="email"]'
+      ) as HTMLElement;
+      expect(email.hasAttribute('aria-invalid')).toBe(false);
+      expect(
+        (row.querySelector('[data-error-for="email"]') as HTMLElement).hidden
+      ).toBe(true);
+    });
+
+    test('should keep existing aria-describedby tokens', () => {
+      attachTemplates(
+        element,
+        'name',
+        `<input type="text" data-bind="name" required aria-describedby="hint" />
+         <small id="hint">Full name</small>
+         <span data-error-for="name"></span>`
+      );
+      element.data = [{ name: '' }];
+      element.connectedCallback();
+      const row = enterEditMode(element, 0);
+      clickSave(element, 0);
+
+      const messageId = row.querySelector('[data-error-for="name"]')?.id;
+      expect(
+        row
+          .querySelector('.edit-content [data-bind="name"]')
+          ?.getAttribute('aria-describedby')
+      ).toBe(`hint ${messageId}`);
+    });
+
+    test('should keep messages linked to their own row when rows shift', () => {
+      const first = setupFields([{ name: '', email: 'a@example.com' }]);
+      clickSave(element, 0);
+      element.insertRow(0, { name: '', email: 'b@example.com' });
+      (
+        first.querySelector('[data-action="cancel"]') as HTMLButtonElement
+      ).click();
+
+      const second = enterEditMode(element, 0);
+      clickSave(element, 0);
+
+      const messageIds = [second, first].map(
+        row => row.querySelector('[data-error-for="name"]')?.id
+      );
+      expect(new Set(messageIds).size).toBe(2);
+      expect(
+        second
+          .querySelector('.edit-content [data-bind="name"]')
+          ?.getAttribute('aria-describedby')
+      ).toBe(messageIds[0]);
+    });
+
+    test('should re-validate while typing after a failed save', () => {
+      const row = setupFields([{ name: '', email: 'ada@other.org' }]);
+      typeInto(row, 'email', 'bob@other.org');
+      // No messages before the first save attempt
+      expect(errorText(row, 'email')).toBe('');
+
+      clickSave(element, 0);
+      typeInto(row, 'name', 'Ada');
+      expect(errorText(row, 'name')).toBe('');
+      expect(errorText(row, 'email')).toBe('Use your example.com address');
+      expect(row.classList.contains('ck-invalid')).toBe(true);
+
+      typeInto(row, 'email', 'ada@example.com');
+      expect(errorText(row, 'email')).toBe('');
+      expect(row.classList.contains('ck-invalid')).toBe(false);
+
+      clickSave(element, 0);
+      expect(row.getAttribute('data-mode')).toBe('display');
+    });
+
+    test('should clear messages on cancel', () => {
+      const row = setupFields([{ name: '', email: 'a@example.com' }]);
+      clickSave(element, 0);
+      (
+        row.querySelector('[data-action="cancel"]') as HTMLButtonElement
+      ).click();
+
+      expect(errorText(row, 'name')).toBe('');
+      const input = row.querySelector(
+        '.edit-content [data-bind="name"]'
+      ) as HTMLInputElement;
+      expect(input.hasAttribute('aria-invalid')).toBe(false);
+      expect(input.validationMessage).not.toBe('Name is required');
+    });
+
+    test('should show server field errors in the message elements', async () => {
+      element.saveHandler = () =>
+        Promise.reject({ errors: { email: 'Address already taken' } });
+      const row = setupFields([{ name: 'Ada', email: 'a@example.com' }]);
+      clickSave(element, 0);
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(errorText(row, 'email')).toBe('Address already taken');
+    });
+  });
+
   // ========================================================================
   // Edge Cases
   // ========================================================================
@@ -0,0 +1,280 @@
+/// <reference lib="dom" />
+/* eslint-disable no-undef */
+import { CkEditableArray } from '../../src/components/ck-editable-array/ck-editable-array';
+
+// Define the custom element before running tests
+beforeAll(() => {
+  if (!customElements.get('ck-editable-array')) {
+    customElements.define('ck-editable-array', CkEditableArray);
+  }
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const setup = (
+  element: CkEditableArray,
+  data: unknown[],
+  editHTML = `<input type="text" data-bind="name" />
+     <span data-error-for="name"></span>
+     <input type="text" data-bind="code" />
+     <span data-error-for="$row"></span>`
+): void => {
+  const display = document.createElement('template');
+  display.setAttribute('slot', 'display');
+  display.innerHTML = '<span data-bind="name"></span>';
+  element.appendChild(display);
+
+  const edit = document.createElement('template');
+  edit.setAttribute('slot', 'edit');
+  edit.innerHTML = editHTML;
+  element.appendChild(edit);
+
+  element.data = data;
+  element.connectedCallback();
+};
+
+const getRow = (element: CkEditableArray, index = 0): HTMLElement =>
+  element.shadowRoot?.querySelector(`[data-row="${index}"]`) as HTMLElement;
+
+const clickAction = (
+  element: CkEditableArray,
+  action: string,
+  index = 0
+): void => {
+  (
+    getRow(element, index).querySelector(
+      `[data-action="${action}"]`
+    ) as HTMLButtonElement
+  ).click();
+};
+
+const getInput = (
+  element: CkEditableArray,
+  bindPath: string
+): HTMLInputElement =>
+  getRow(element).querySelector(
+    `.edit-content [data-bind="${bindPath}"]`
+  ) as HTMLInputElement;
+
+const errorText = (element: CkEditableArray, path: string): string =>
+  getRow(element).querySelector(`[data-error-for="${path}"]`)?.textContent ||
+  '';
+
+const typeInto = (input: HTMLInputElement, value: string): void => {
+  input.value = value;
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+const isEditing = (element: CkEditableArray): boolean =>
+  getRow(element).getAttribute('data-mode') === 'edit';
+
+// Resolves pending promise callbacks (async validators' continuations)
+const flushPromises = (): Promise<void> =>
+  new Promise(resolve => setTimeout(resolve, 0));
+
+describe('Custom Validators', () => {
+  let element: CkEditableArray;
+
+  beforeEach(() => {
+    element = new CkEditableArray();
+    document.body.appendChild(element);
+  });
+
+  afterEach(() => {
+    if (element.parentNode) {
+      element.parentNode.removeChild(element);
+    }
+  });
+
+  test('should block the save with a field validator message', () => {
+    const validator = jest.fn((value: unknown) =>
+      value === 'taken' ? 'Name is taken' : null
+    );
+    element.validators = { name: validator };
+    setup(element, [{ name: 'A', code: 'x' }]);
+    clickAction(element, 'toggle');
+    typeInto(getInput(element, 'name'), 'taken');
+    clickAction(element, 'save');
+
+    expect(validator).toHaveBeenCalledWith(
+      'taken',
+      { name: 'taken', code: 'x' },
+      0,
+      element.data
+    );
+    expect(isEditing(element)).toBe(true);
+    expect(getRow(element).classList.contains('ck-invalid')).toBe(true);
+    expect(getInput(element, 'name').validationMessage).toBe('Name is taken');
+    expect(errorText(element, 'name')).toBe('Name is taken');
+  });
+
+  test('should save when every validator passes', () => {
+    element.validators = { name: () => null };
+    element.rowValidator = () => null;
+    setup(element, [{ name: 'A', code: 'x' }]);
+    clickAction(element, 'toggle');
+    clickAction(element, 'save');
+
+    expect(isEditing(element)).toBe(false);
+  });
+
+  test('should show row validator messages and field errors', () => {
+    element.rowValidator = (row: unknown) => {
+      const { name, code } = row as { name: string; code: string };
+      if (!name && !code) return 'Enter a name or a code';
+      return code === 'bad' ? { code: 'Unknown code' } : null;
+    };
+    setup(element, [{ name: '', code: '' }]);
+    clickAction(element, 'toggle');
+    clickAction(element, 'save');
+
+    expect(isEditing(element)).toBe(true);
+    expect(errorText(element, '$row')).toBe('Enter a name or a code');
+
+    typeInto(getInput(element, 'code'), 'bad');
+    expect(errorText(element, '$row')).toBe('');
+    expect(getInput(element, 'code').validationMessage).toBe('Unknown code');
+
+    typeInto(getInput(element, 'code'), 'ok');
+    expect(getRow(element).classList.contains('ck-invalid')).toBe(false);
+    clickAction(element, 'save');
+    expect(isEditing(element)).toBe(false);
+  });
+
+  test('should run validators only after the native constraints pass', () => {
+    const validator = jest.fn(() => 'Never shown');
+    element.validators = { name: validator };
+    setup(
+      element,
+      [{ name: '' }],
+      `<input type="text" data-bind="name" required data-msg="Required" />`
+    );
+    clickAction(element, 'toggle');
+    clickAction(element, 'save');
+
+    expect(validator).not.toHaveBeenCalled();
+    expect(getInput(element, 'name').validationMessage).toBe('Required');
+  });
+
+  test('should report validator errors through ElementInternals', () => {
+    const setValidity = jest.fn();
+    (
+      element as unknown as { _internals: { setValidity: jest.Mock } }
+    )._internals.setValidity = setValidity;
+    element.validators = { code: () => 'Bad code' };
+    setup(element, [{ name: 'A', code: 'x' }]);
+    clickAction(element, 'toggle');
+    clickAction(element, 'save');
+
+    expect(setValidity).toHaveBeenLastCalledWith(
+      { customError: true },
+      'Bad code',
+      getInput(element, 'code')
+    );
+  });
+
+  test('should await async validators before saving', async () => {
+    let resolve: (message: string | null) => void = () => undefined;
+    element.validators = {
+      name: () =>
+        new Promise<string | null>(done => {
+          resolve = done;
+        }),
+    };
+    setup(element, [{ name: 'A', code: 'x' }]);
+    clickAction(element, 'toggle');
+    clickAction(element, 'save');
+
+    expect(isEditing(element)).toBe(true);
+    expect(getRow(element).hasAttribute('data-validating')).toBe(true);
+
+    resolve(null);
+    await flushPromises();
+
+    expect(getRow(element).hasAttribute('data-validating')).toBe(false);
+    expect(isEditing(element)).toBe(false);
+  });
+
+  test('should drop a pending validation when the user keeps typing', async () => {
+    let resolve: (message: string | null) => void = () => undefined;
+    element.validators = {
+      name: () =>
+        new Promise<string | null>(done => {
+          resolve = done;
+        }),
+    };
+    setup(element, [{ name: 'A', code: 'x' }]);
+    clickAction(element, 'toggle');
+    clickAction(element, 'save');
+    typeInto(getInput(element, 'name'), 'B');
+
+    expect(getRow(element).hasAttribute('data-validating')).toBe(false);
+    resolve(null);
+    await flushPromises();
+
+    expect(isEditing(element)).toBe(true);
+    expect(element.data[0]).toEqual({ name: 'B', code: 'x' });
+  });
+
+  test('should treat a throwing validator as a failure', async () => {
+    element.validators = {
+      code: () => Promise.reject(new Error('Service unavailable')),
+    };
+    setup(element, [{ name: 'A', code: 'x' }]);
+    clickAction(element, 'toggle');
+    clickAction(element, 'save');
+    await flushPromises();
+
+    expect(isEditing(element)).toBe(true);
+    expect(getInput(element, 'code').validationMessage).toBe(
+      'Service unavailable'
+    );
+  });
+
+  test('should not leave the row pending when an async row validator rejects', async () => {
+    let valid = false;
+    element.rowValidator = () =>
+      valid ? Promise.resolve(null) : Promise.reject('offline');
+    setup(element, [{ name: 'A', code: 'x' }]);
+    clickAction(element, 'toggle');
+    clickAction(element, 'save');
+    await flushPromises();
+
+    expect(getRow(element).hasAttribute('data-validating')).toBe(false);
+    expect(getRow(element).hasAttribute('aria-busy')).toBe(false);
+    expect(isEditing(element)).toBe(true);
+    expect(errorText(element, '$row')).toBe('Validation failed');
+
+    valid = true;
+    clickAction(element, 'save');
+    await flushPromises();
+    expect(isEditing(element)).toBe(false);
+  });
+
+  test('should fail the row when an async result cannot be read', async () => {
+    element.validators = {
+      name: () => Promise.resolve(Object.create(null)),
+    };
+    setup(element, [{ name: 'A', code: 'x' }]);
+    clickAction(element, 'toggle');
+    clickAction(element, 'save');
+    await flushPromises();
+
+    expect(getRow(element).hasAttribute('data-validating')).toBe(false);
+    expect(isEditing(element)).toBe(true);
+    expect(getInput(element, 'name').validationMessage).not.toBe('');
+  });
+
+  test('should ignore entries that are not functions', () => {
+    element.validators = {
+      name: 'required' as unknown as () => null,
+      code: () => null,
+    };
+    element.rowValidator = {} as unknown as () => null;
+
+    expect(Object.keys(element.validators)).toEqual(['code']);
+    expect(element.rowValidator).toBeNull();
+  });
+});